@@ -0,0 +1,122 @@
+import { loadEnvVariables } from '../utils/envLoader';
+import { getPromptVersion } from '../providers';
+import { getCacheDir, summarizeCache, pruneCache, removeCacheEntries } from '../utils/translationCache';
+import type { CacheFilter } from '../utils/translationCache';
+import { CliError, EXIT_CODES } from './options';
+
+/**
+ * TRANSLATION CACHE MAINTENANCE
+ *   npm run cache -- stats
+ *   npm run cache -- prune [--older-than DAYS]
+ *   npm run cache -- invalidate --model NAME | --prompt-version N | --all
+ */
+
+const USAGE = `Usage: npm run cache -- <command> [options]
+
+Commands:
+  stats                          Entries and size, per model and prompt version
+  prune [--older-than DAYS]      Remove entries unused for DAYS (default 30) and entries
+                                 from older prompt versions (current: ${getPromptVersion()})
+  invalidate --model NAME        Remove entries of one model
+  invalidate --prompt-version N  Remove entries of one prompt version
+  invalidate --all               Empty the cache
+
+The cache lives in TRANSLATION_CACHE_DIR (default: ./.cache/translations).
+The current prompt version is read from PROMPT_TEMPLATES_DIR when it is set.`;
+
+const parseNonNegativeInteger = (flag: string, raw: string | undefined): number => {
+  const value = Number(raw);
+  if (raw === undefined || !Number.isInteger(value) || value < 0) {
+    throw new CliError(`${flag} needs a whole number, got "${raw ?? ''}"`);
+  }
+  return value;
+};
+
+/**
+ * Read "--flag value" pairs and bare switches
+ */
+const parseFlags = (args: string[], allowed: string[]): Map<string, string | undefined> => {
+  const flags = new Map<string, string | undefined>();
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    if (!allowed.includes(flag)) {
+      throw new CliError(`Unknown option ${flag} (see --help)`);
+    }
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      flags.set(flag, next);
+      i++;
+    } else {
+      flags.set(flag, undefined);
+    }
+  }
+  return flags;
+};
+
+const formatBytes = (bytes: number): string => {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const runCacheCommand = async (args: string[]): Promise<void> => {
+  const [command, ...rest] = args;
+  if (!command || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return;
+  }
+
+  loadEnvVariables(false);
+  const dir = getCacheDir();
+  const promptVersion = getPromptVersion(process.env.PROMPT_TEMPLATES_DIR);
+
+  if (command === 'stats') {
+    parseFlags(rest, []);
+    const summary = await summarizeCache(dir);
+    console.log(`💾 Cache: ${dir}`);
+    console.log(`   ${summary.entries} entr${summary.entries === 1 ? 'y' : 'ies'}, ${formatBytes(summary.bytes)}`);
+    for (const [model, count] of Object.entries(summary.byModel)) {
+      console.log(`   model ${model}: ${count}`);
+    }
+    for (const [version, count] of Object.entries(summary.byPromptVersion)) {
+      console.log(`   prompt v${version}${Number(version) === promptVersion ? ' (current)' : ''}: ${count}`);
+    }
+    return;
+  }
+
+  if (command === 'prune') {
+    const flags = parseFlags(rest, ['--older-than']);
+    const days = flags.has('--older-than') ? parseNonNegativeInteger('--older-than', flags.get('--older-than')) : 30;
+    const removed = await pruneCache(dir, days, promptVersion);
+    console.log(`🧹 Pruned ${removed} entr${removed === 1 ? 'y' : 'ies'} (unused for ${days}+ days or from an older prompt version)`);
+    return;
+  }
+
+  if (command === 'invalidate') {
+    const flags = parseFlags(rest, ['--model', '--prompt-version', '--all']);
+    const filter: CacheFilter = { all: flags.has('--all') };
+    if (flags.has('--model')) {
+      filter.model = flags.get('--model');
+      if (!filter.model) throw new CliError('--model needs a value (NAME)');
+    }
+    if (flags.has('--prompt-version')) {
+      filter.promptVersion = parseNonNegativeInteger('--prompt-version', flags.get('--prompt-version'));
+    }
+    if (!filter.all && filter.model === undefined && filter.promptVersion === undefined) {
+      throw new CliError('invalidate needs --model, --prompt-version or --all');
+    }
+
+    const removed = await removeCacheEntries(dir, filter);
+    console.log(`🗑️  Removed ${removed} entr${removed === 1 ? 'y' : 'ies'}`);
+    return;
+  }
+
+  throw new CliError(`Unknown command "${command}" (expected stats, prune or invalidate)`);
+};
+
+runCacheCommand(process.argv.slice(2))
+  .then(() => {
+    process.exitCode = EXIT_CODES.OK;
+  })
+  .catch(error => {
+    console.error(error instanceof CliError ? `❌ ${error.message}` : error);
+    process.exitCode = error instanceof CliError ? error.exitCode : EXIT_CODES.FAILURE;
+  });
@@ -0,0 +1,437 @@
+import type { ExtractionMode } from '../utils/pdfTextExtractor';
+import { DEFAULT_MIN_QUALITY } from '../utils/qualityCheck';
+import { OUTPUT_FORMATS, parseOutputFormats } from '../renderers';
+import type { OutputFormat } from '../renderers';
+import { DEFAULT_SUMMARY_LENGTHS, parseSummaryLengths } from '../pipeline/summary';
+import type { SummaryLengths } from '../pipeline/summary';
+import { DEFAULT_RENDER_SETTINGS } from '../utils/pdfProcessorJS';
+import type { RenderSettings, ImageFormat } from '../utils/pdfProcessorJS';
+import { LANGUAGE_CODES, DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE, parseLanguageCode } from '../i18n';
+import type { LanguageCode } from '../i18n';
+
+/**
+ * Command-line options
+ * Every flag is declared once in FLAGS; parsing, validation and --help all read from it.
+ */
+
+/** Process exit codes */
+export const EXIT_CODES = {
+  OK: 0,
+  /** Unexpected failure while running */
+  FAILURE: 1,
+  /** Invalid command line */
+  USAGE: 2,
+  /** Input PDF or saved run not found */
+  NOT_FOUND: 3,
+  /** --budget reached; finished work was saved and the run can be resumed */
+  BUDGET: 4
+} as const;
+
+/**
+ * An error the user can fix; main() prints the message (no stack trace) and exits with exitCode
+ */
+export class CliError extends Error {
+  constructor(message: string, public readonly exitCode: number = EXIT_CODES.USAGE) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export type FixTermsMode = 'patch' | 'retranslate';
+
+export interface CliOptions {
+  /** PDF to translate (or a run directory for the commands on a saved run); the first of `inputs` */
+  input: string;
+  /** Every positional argument: several PDFs, a folder or a glob select batch mode */
+  inputs: string[];
+  mode: ExtractionMode;
+  /** How image (vision) pages are rendered */
+  render: RenderSettings;
+  formats: OutputFormat[];
+  /** Selected pages (1-based, sorted); undefined = all pages */
+  pages?: number[];
+  /** Directory for output files (default: current directory) */
+  outDir: string;
+  model?: string;
+  /** Overrides SOURCE_LANGUAGE / TARGET_LANGUAGE */
+  sourceLanguage?: LanguageCode;
+  targetLanguage?: LanguageCode;
+  /** Directory of custom prompt templates (overrides PROMPT_TEMPLATES_DIR) */
+  promptsDir?: string;
+  chunkSize: number;
+  /** Target length of section, chapter and document summaries */
+  summaryLengths: SummaryLengths;
+  summary: boolean;
+  summaryOnly: boolean;
+  /** Translate the selected pages of a saved run again, then rebuild its outputs */
+  retranslate: boolean;
+  /** Reviewer note added to the page prompt of a re-translation */
+  reviewerNote?: string;
+  /** File replacing the translation of the selected page of a saved run */
+  overridePath?: string;
+  /** Write the outputs of a saved run again without translating */
+  rebuild: boolean;
+  dryRun: boolean;
+  concurrency?: number;
+  rpm?: number;
+  tpm?: number;
+  glossaryPath?: string;
+  mineGlossary: boolean;
+  fixTerms?: FixTermsMode;
+  bilingual: boolean;
+  csv: boolean;
+  sheets: boolean;
+  /** Spending limit in USD for this invocation */
+  budgetUsd?: number;
+  /** JSON price table merged over the built-in prices */
+  pricesPath?: string;
+  /** Use the translation cache (off with --no-cache) */
+  cache: boolean;
+  /** Pages scoring below this (0-100) are retried, then flagged in the QA report */
+  minQuality: number;
+  /** Batch: translate documents again even if the manifest lists them as complete */
+  force: boolean;
+}
+
+interface FlagSpec {
+  name: string;
+  /** Placeholder for the value; boolean flags have none */
+  value?: string;
+  description: string;
+}
+
+const FLAGS: FlagSpec[] = [
+  { name: '--pages', value: 'RANGES', description: 'Only these pages, e.g. 12-40,55 (default: all)' },
+  { name: '--out', value: 'DIR', description: 'Directory for output files (default: current directory)' },
+  { name: '--format', value: 'LIST', description: `Output formats: ${OUTPUT_FORMATS.join(',')} (default: txt)` },
+  { name: '--mode', value: 'MODE', description: 'text | vision | auto (default: auto)' },
+  { name: '--dpi', value: 'N', description: `Render resolution of image pages (default: ${DEFAULT_RENDER_SETTINGS.dpi})` },
+  { name: '--grayscale', description: 'Render image pages in grayscale' },
+  { name: '--image-format', value: 'FORMAT', description: 'png | jpeg for rendered pages (default: png)' },
+  { name: '--jpeg-quality', value: 'N', description: `JPEG quality 1-100 (default: ${DEFAULT_RENDER_SETTINGS.jpegQuality})` },
+  { name: '--image-max-size', value: 'SIZE', description: `Pixel limits LONGxSHORT of rendered pages, or off (default: ${DEFAULT_RENDER_SETTINGS.maxLongSide}x${DEFAULT_RENDER_SETTINGS.maxShortSide}, the OpenAI vision tiling)` },
+  { name: '--model', value: 'NAME', description: 'Model name (overrides TRANSLATION_MODEL)' },
+  { name: '--source-lang', value: 'LANG', description: `Language of the PDF: ${LANGUAGE_CODES.join(' | ')} (default: ${DEFAULT_SOURCE_LANGUAGE}, or SOURCE_LANGUAGE)` },
+  { name: '--target-lang', value: 'LANG', description: `Language to translate into: ${LANGUAGE_CODES.join(' | ')} (default: ${DEFAULT_TARGET_LANGUAGE}, or TARGET_LANGUAGE)` },
+  { name: '--prompts', value: 'DIR', description: 'Custom prompt templates, overriding prompts/ file by file (or PROMPT_TEMPLATES_DIR)' },
+  { name: '--chunk-size', value: 'CHARS', description: 'Characters of translation per summary chunk (default: 10000)' },
+  { name: '--summary-length', value: 'SPEC', description: 'abstract | brief | detailed, or per level: section=detailed,chapter=brief,document=off (default: section=detailed,chapter=brief,document=detailed)' },
+  { name: '--no-summary', description: 'Translate only, skip the summary' },
+  { name: '--summary-only', description: 'Summarize an existing run (INPUT is the PDF or its run directory)' },
+  { name: '--retranslate', description: 'Translate the --pages of an existing run again, then rebuild its outputs' },
+  { name: '--note', value: 'TEXT', description: 'With --retranslate: reviewer note added to the page prompt' },
+  { name: '--override', value: 'FILE', description: 'Replace the translation of one --pages page of an existing run (text, or JSON page fields), then rebuild' },
+  { name: '--rebuild', description: 'Write the outputs of an existing run again; only chunks whose pages changed are re-summarized' },
+  { name: '--dry-run', description: 'Report pages, text/image split and estimated cost, then stop' },
+  { name: '--budget', value: 'USD', description: 'Stop gracefully before spending more than this (e.g. 2.50)' },
+  { name: '--prices', value: 'FILE', description: 'JSON price table per model (overrides MODEL_PRICES_PATH and built-ins)' },
+  { name: '--no-cache', description: 'Ignore the translation cache and do not add to it' },
+  { name: '--min-quality', value: 'SCORE', description: `Retry pages whose quality score is below this, 0-100 (default: ${DEFAULT_MIN_QUALITY})` },
+  { name: '--concurrency', value: 'N', description: 'Pages translated in parallel (default: 3)' },
+  { name: '--rpm', value: 'N', description: 'Requests per minute budget (default: 60)' },
+  { name: '--tpm', value: 'N', description: 'Tokens per minute budget (default: 90000)' },
+  { name: '--glossary', value: 'FILE', description: 'Terminology glossary JSON' },
+  { name: '--mine-glossary', description: 'Mine recurring terms and report inconsistent renderings' },
+  { name: '--fix-terms', value: 'HOW', description: 'With --mine-glossary: patch | retranslate' },
+  { name: '--bilingual', description: 'Also write side-by-side bilingual HTML and DOCX' },
+  { name: '--csv', description: 'Also write one CSV row per page' },
+  { name: '--sheets', description: 'Also export one row per page to Google Sheets' },
+  { name: '--force', description: 'Batch mode: also re-run documents that already completed' },
+  { name: '--help', description: 'Show this help' }
+];
+
+const EXTRACTION_MODES: ExtractionMode[] = ['text', 'vision', 'auto'];
+const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg'];
+
+/**
+ * Usage text generated from FLAGS
+ */
+export const formatHelp = (): string => {
+  const labels = FLAGS.map(flag => (flag.value ? `${flag.name} ${flag.value}` : flag.name));
+  const width = Math.max(...labels.map(label => label.length)) + 2;
+
+  return [
+    'Usage: npm run translate -- <INPUT.pdf> [options]',
+    '       npm run translate -- <FOLDER | "GLOB" | A.pdf B.pdf ...> [options]',
+    '       npm run translate -- <INPUT.pdf | RUN_DIR> --retranslate | --override FILE | --rebuild [options]',
+    '',
+    'Translates a PDF (by default from English to Hebrew) and writes a structured summary.',
+    'Given a folder, a glob or several PDFs, translates each one into its own',
+    'subfolder of --out and keeps a batch_manifest.json/.md index there.',
+    '',
+    'Options:',
+    ...FLAGS.map((flag, i) => `  ${labels[i].padEnd(width)}${flag.description}`),
+    '',
+    'Exit codes:',
+    `  ${EXIT_CODES.OK}  success`,
+    `  ${EXIT_CODES.FAILURE}  run failed (batch: at least one document failed)`,
+    `  ${EXIT_CODES.USAGE}  invalid command line`,
+    `  ${EXIT_CODES.NOT_FOUND}  input PDF or saved run not found`,
+    `  ${EXIT_CODES.BUDGET}  --budget reached (finished pages saved; run again to resume)`
+  ].join('\n');
+};
+
+/** Highest page number --pages accepts before the PDF is opened, so a typo cannot expand into billions of pages */
+const MAX_PAGE_NUMBER = 100000;
+
+/**
+ * The command works on a saved run (INPUT is the PDF or its run directory) instead of translating
+ */
+export const usesSavedRun = (options: CliOptions): boolean => {
+  return options.summaryOnly || options.retranslate || options.rebuild || options.overridePath !== undefined;
+};
+
+/**
+ * Parse "12-40,55" into sorted, unique page numbers
+ */
+export const parsePageRanges = (value: string): number[] => {
+  const pages = new Set<number>();
+
+  for (const part of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) {
+      throw new CliError(`Invalid --pages value "${part}" (expected e.g. 12-40,55)`);
+    }
+
+    const first = Number(match[1]);
+    const last = match[2] ? Number(match[2]) : first;
+    if (first < 1 || last < first) {
+      throw new CliError(`Invalid page range "${part}" (pages start at 1 and ranges must ascend)`);
+    }
+    if (last > MAX_PAGE_NUMBER) {
+      throw new CliError(`Invalid page range "${part}" (pages go up to ${MAX_PAGE_NUMBER})`);
+    }
+    for (let page = first; page <= last; page++) pages.add(page);
+  }
+
+  if (pages.size === 0) {
+    throw new CliError('--pages needs at least one page');
+  }
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Check selected pages against the document length
+ */
+export const validatePageSelection = (pages: number[], pageCount: number): void => {
+  const outOfRange = pages.filter(page => page > pageCount);
+  if (outOfRange.length > 0) {
+    throw new CliError(`--pages asks for page ${outOfRange[0]}, but the PDF has only ${pageCount} pages`);
+  }
+};
+
+const parsePositiveInteger = (flag: string, raw: string): number => {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new CliError(`${flag} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+};
+
+const parseScore = (flag: string, raw: string): number => {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > 100) {
+    throw new CliError(`${flag} must be a whole number from 0 to 100, got "${raw}"`);
+  }
+  return value;
+};
+
+const parseLanguage = (flag: string, raw: string): LanguageCode => {
+  try {
+    return parseLanguageCode(raw);
+  } catch (error) {
+    throw new CliError(`${flag}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const parsePositiveNumber = (flag: string, raw: string): number => {
+  const value = Number(raw.replace(/^\$/, ''));
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new CliError(`${flag} must be a positive amount, got "${raw}"`);
+  }
+  return value;
+};
+
+/**
+ * Parse an --image-max-size value: "2048x768" (longest x shortest side), "2048" (longest
+ * side only) or "off"
+ */
+const parseImageMaxSize = (raw: string): Pick<RenderSettings, 'maxLongSide' | 'maxShortSide'> => {
+  const value = raw.trim().toLowerCase();
+  if (value === 'off') return { maxLongSide: 0, maxShortSide: 0 };
+
+  const match = value.match(/^(\d+)(?:x(\d+))?$/);
+  if (!match || Number(match[1]) < 1 || (match[2] !== undefined && Number(match[2]) < 1)) {
+    throw new CliError(`Invalid --image-max-size "${raw}" (expected e.g. 2048x768, 2048 or off)`);
+  }
+  return { maxLongSide: Number(match[1]), maxShortSide: match[2] ? Number(match[2]) : 0 };
+};
+
+/**
+ * Positive integer from an environment variable, or the fallback when unset
+ */
+export const getIntegerEnv = (envKey: string, fallback: number): number => {
+  const raw = process.env[envKey];
+  return raw === undefined || raw === '' ? fallback : parsePositiveInteger(envKey, raw);
+};
+
+/**
+ * Parse argv (without the node/script entries)
+ * @returns null when --help was requested
+ */
+export const parseCliArgs = (args: string[]): CliOptions | null => {
+  const values = new Map<string, string>();
+  const switches = new Set<string>();
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-h' || arg === '--help') return null;
+
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    // Accept both "--flag value" and "--flag=value"
+    const [name, inlineValue] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const spec = FLAGS.find(flag => flag.name === name);
+    if (!spec) {
+      throw new CliError(`Unknown option ${name} (see --help)`);
+    }
+
+    if (!spec.value) {
+      if (inlineValue !== undefined) throw new CliError(`${name} does not take a value`);
+      switches.add(name);
+      continue;
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new CliError(`${name} needs a value (${spec.value})`);
+    }
+    values.set(name, value);
+  }
+
+  if (positional.length === 0) {
+    throw new CliError('Please provide a PDF file path (see --help)');
+  }
+
+  const mode = (values.get('--mode') || 'auto') as ExtractionMode;
+  if (!EXTRACTION_MODES.includes(mode)) {
+    throw new CliError(`Invalid --mode "${mode}" (expected one of: ${EXTRACTION_MODES.join(', ')})`);
+  }
+
+  const imageFormat = (values.get('--image-format') || DEFAULT_RENDER_SETTINGS.format).toLowerCase().replace(/^jpg$/, 'jpeg') as ImageFormat;
+  if (!IMAGE_FORMATS.includes(imageFormat)) {
+    throw new CliError(`Invalid --image-format "${values.get('--image-format')}" (expected png or jpeg)`);
+  }
+
+  let formats: OutputFormat[];
+  try {
+    formats = parseOutputFormats(values.get('--format') || 'txt');
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+
+  const fixTerms = values.get('--fix-terms');
+  if (fixTerms !== undefined && fixTerms !== 'patch' && fixTerms !== 'retranslate') {
+    throw new CliError(`Invalid --fix-terms "${fixTerms}" (expected patch or retranslate)`);
+  }
+  if (fixTerms && !switches.has('--mine-glossary')) {
+    throw new CliError('--fix-terms only applies together with --mine-glossary');
+  }
+
+  if (switches.has('--no-summary') && switches.has('--summary-only')) {
+    throw new CliError('--no-summary and --summary-only cannot be combined');
+  }
+
+  // Only one thing to do with a run
+  const commands = ['--summary-only', '--retranslate', '--override', '--rebuild', '--dry-run']
+    .filter(flag => switches.has(flag) || values.has(flag));
+  if (commands.length > 1) {
+    throw new CliError(`${commands[0]} and ${commands[1]} cannot be combined`);
+  }
+  if ((switches.has('--retranslate') || values.has('--override')) && !values.has('--pages')) {
+    throw new CliError(`${switches.has('--retranslate') ? '--retranslate' : '--override'} needs --pages`);
+  }
+  if (values.has('--note') && !switches.has('--retranslate')) {
+    throw new CliError('--note only applies together with --retranslate');
+  }
+
+  let summaryLengths = DEFAULT_SUMMARY_LENGTHS;
+  const summaryLengthValue = values.get('--summary-length');
+  if (summaryLengthValue !== undefined) {
+    try {
+      summaryLengths = parseSummaryLengths(summaryLengthValue);
+    } catch (error) {
+      throw new CliError(`--summary-length: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const integer = (flag: string): number | undefined => {
+    const raw = values.get(flag);
+    return raw === undefined ? undefined : parsePositiveInteger(flag, raw);
+  };
+
+  const pagesValue = values.get('--pages');
+  const budgetValue = values.get('--budget');
+  const minQualityValue = values.get('--min-quality');
+  const jpegQualityValue = values.get('--jpeg-quality');
+  const imageMaxSizeValue = values.get('--image-max-size');
+  const pages = pagesValue !== undefined ? parsePageRanges(pagesValue) : undefined;
+  if (values.has('--override') && pages && pages.length > 1) {
+    throw new CliError(`--override replaces one page, but --pages selects ${pages.length}`);
+  }
+  const sourceLanguageValue = values.get('--source-lang');
+  const targetLanguageValue = values.get('--target-lang');
+  const jpegQuality = jpegQualityValue !== undefined ? parseScore('--jpeg-quality', jpegQualityValue) : DEFAULT_RENDER_SETTINGS.jpegQuality;
+  if (jpegQuality < 1) {
+    throw new CliError(`--jpeg-quality must be from 1 to 100, got "${jpegQualityValue}"`);
+  }
+
+  return {
+    input: positional[0],
+    inputs: positional,
+    mode,
+    render: {
+      dpi: integer('--dpi') ?? DEFAULT_RENDER_SETTINGS.dpi,
+      grayscale: switches.has('--grayscale'),
+      format: imageFormat,
+      jpegQuality,
+      ...(imageMaxSizeValue !== undefined
+        ? parseImageMaxSize(imageMaxSizeValue)
+        : { maxLongSide: DEFAULT_RENDER_SETTINGS.maxLongSide, maxShortSide: DEFAULT_RENDER_SETTINGS.maxShortSide })
+    },
+    formats,
+    pages,
+    outDir: values.get('--out') || process.cwd(),
+    model: values.get('--model'),
+    sourceLanguage: sourceLanguageValue !== undefined ? parseLanguage('--source-lang', sourceLanguageValue) : undefined,
+    targetLanguage: targetLanguageValue !== undefined ? parseLanguage('--target-lang', targetLanguageValue) : undefined,
+    promptsDir: values.get('--prompts'),
+    chunkSize: integer('--chunk-size') ?? 10000,
+    summaryLengths,
+    summary: !switches.has('--no-summary'),
+    summaryOnly: switches.has('--summary-only'),
+    retranslate: switches.has('--retranslate'),
+    reviewerNote: values.get('--note'),
+    overridePath: values.get('--override'),
+    rebuild: switches.has('--rebuild'),
+    dryRun: switches.has('--dry-run'),
+    concurrency: integer('--concurrency'),
+    rpm: integer('--rpm'),
+    tpm: integer('--tpm'),
+    glossaryPath: values.get('--glossary'),
+    mineGlossary: switches.has('--mine-glossary'),
+    fixTerms: fixTerms as FixTermsMode | undefined,
+    bilingual: switches.has('--bilingual'),
+    csv: switches.has('--csv'),
+    sheets: switches.has('--sheets'),
+    budgetUsd: budgetValue !== undefined ? parsePositiveNumber('--budget', budgetValue) : undefined,
+    pricesPath: values.get('--prices') || process.env.MODEL_PRICES_PATH || undefined,
+    cache: !switches.has('--no-cache'),
+    minQuality: minQualityValue !== undefined ? parseScore('--min-quality', minQualityValue) : DEFAULT_MIN_QUALITY,
+    force: switches.has('--force')
+  };
+};
@@ -0,0 +1,22 @@
+import fs from 'fs-extra';
+import { createObjectCsvStringifier } from 'csv-writer';
+import { PAGE_ROW_COLUMNS } from './pageRows';
+import type { PageRow, SpreadsheetExporter } from './types';
+
+// Excel only detects UTF-8 (and shows Hebrew correctly) with a byte order mark
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Per-page CSV file
+ * @param filePath - Output path
+ */
+export const createCsvExporter = (filePath: string): SpreadsheetExporter => {
+  const exportRows = async (rows: PageRow[]): Promise<string> => {
+    const stringifier = createObjectCsvStringifier({ header: PAGE_ROW_COLUMNS });
+    const content = UTF8_BOM + stringifier.getHeaderString() + stringifier.stringifyRecords(rows);
+    await fs.writeFile(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  return { name: 'csv', exportRows };
+};
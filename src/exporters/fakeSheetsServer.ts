@@ -0,0 +1,194 @@
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for the Google Sheets API
+ * Implements just the calls the Sheets exporter makes (create, addSheet, values.update)
+ * plus reads, and keeps everything in memory. Point the exporter at it with
+ * GOOGLE_SHEETS_ROOT_URL=http://localhost:8085/ to try exports without a Google account:
+ *
+ *   npm run fake-sheets
+ */
+
+export interface FakeSheet {
+  title: string;
+  values: (string | number)[][];
+}
+
+export interface FakeSpreadsheet {
+  spreadsheetId: string;
+  title: string;
+  sheets: FakeSheet[];
+}
+
+export interface FakeSheetsServer {
+  /** Root URL to pass as rootUrl, ending with "/" */
+  url: string;
+  spreadsheets: Map<string, FakeSpreadsheet>;
+  close(): Promise<void>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : {};
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Title from a `{ properties: { title } }` object, if it has one
+ */
+const getTitle = (value: unknown): string | undefined => {
+  const title = asObject(asObject(value).properties).title;
+  return typeof title === 'string' && title ? title : undefined;
+};
+
+/**
+ * The parsed JSON body, {} when it is not an object
+ */
+const readBody = (request: http.IncomingMessage): Promise<JsonObject> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(text ? asObject(JSON.parse(text)) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+};
+
+const sendJson = (response: http.ServerResponse, status: number, body: unknown): void => {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+};
+
+const sendError = (response: http.ServerResponse, status: number, message: string): void => {
+  sendJson(response, status, { error: { code: status, message } });
+};
+
+/**
+ * "'My tab'!A1" -> "My tab"
+ */
+const getSheetTitle = (range: string): string => {
+  const name = range.includes('!') ? range.slice(0, range.lastIndexOf('!')) : range;
+  return name.replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+};
+
+const toResponse = (spreadsheet: FakeSpreadsheet) => ({
+  spreadsheetId: spreadsheet.spreadsheetId,
+  properties: { title: spreadsheet.title },
+  sheets: spreadsheet.sheets.map((sheet, i) => ({ properties: { sheetId: i, title: sheet.title, rightToLeft: true } }))
+});
+
+/**
+ * Start the fake API on the given port (0 = any free port)
+ */
+export const startFakeSheetsServer = async (port: number = 0): Promise<FakeSheetsServer> => {
+  const spreadsheets = new Map<string, FakeSpreadsheet>();
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (parts[0] !== 'v4' || parts[1] !== 'spreadsheets') {
+      return sendError(response, 404, `Unknown path ${url.pathname}`);
+    }
+
+    // POST /v4/spreadsheets
+    if (parts.length === 2 && request.method === 'POST') {
+      const body = await readBody(request);
+      const spreadsheet: FakeSpreadsheet = {
+        spreadsheetId: crypto.randomBytes(8).toString('hex'),
+        title: getTitle(body) || 'Untitled spreadsheet',
+        sheets: (Array.isArray(body.sheets) ? body.sheets : [{ properties: { title: 'Sheet1' } }])
+          .map(sheet => ({ title: getTitle(sheet) || 'Sheet1', values: [] }))
+      };
+      spreadsheets.set(spreadsheet.spreadsheetId, spreadsheet);
+      console.log(`📗 Created spreadsheet ${spreadsheet.spreadsheetId} "${spreadsheet.title}"`);
+      return sendJson(response, 200, toResponse(spreadsheet));
+    }
+
+    // The id may carry a ":batchUpdate" suffix
+    const [spreadsheetId, action] = (parts[2] || '').split(':');
+    const spreadsheet = spreadsheets.get(spreadsheetId);
+    if (!spreadsheet) {
+      return sendError(response, 404, `Requested entity was not found: ${spreadsheetId}`);
+    }
+
+    // POST /v4/spreadsheets/{id}:batchUpdate (addSheet only)
+    if (action === 'batchUpdate' && request.method === 'POST') {
+      const body = await readBody(request);
+      const replies = [];
+      for (const item of asArray(body.requests)) {
+        const title = getTitle(asObject(item).addSheet);
+        if (!title) return sendError(response, 400, 'Only addSheet requests are supported');
+        if (spreadsheet.sheets.some(sheet => sheet.title === title)) {
+          return sendError(response, 400, `A sheet with the name "${title}" already exists`);
+        }
+        spreadsheet.sheets.push({ title, values: [] });
+        replies.push({ addSheet: { properties: { sheetId: spreadsheet.sheets.length - 1, title } } });
+      }
+      return sendJson(response, 200, { spreadsheetId, replies });
+    }
+
+    // GET /v4/spreadsheets/{id}
+    if (parts.length === 3 && request.method === 'GET') {
+      return sendJson(response, 200, toResponse(spreadsheet));
+    }
+
+    // GET|PUT /v4/spreadsheets/{id}/values/{range}
+    if (parts[3] === 'values' && parts[4]) {
+      const range = parts[4];
+      const sheet = spreadsheet.sheets.find(candidate => candidate.title === getSheetTitle(range));
+      if (!sheet) {
+        return sendError(response, 400, `Unable to parse range: ${range}`);
+      }
+
+      if (request.method === 'GET') {
+        return sendJson(response, 200, { range, majorDimension: 'ROWS', values: sheet.values });
+      }
+      if (request.method === 'PUT') {
+        const body = await readBody(request);
+        sheet.values = asArray(body.values).map(row => asArray(row)
+          .map(cell => (typeof cell === 'number' ? cell : String(cell ?? ''))));
+        console.log(`📗 ${spreadsheetId} / "${sheet.title}": ${sheet.values.length} row(s) written`);
+        return sendJson(response, 200, {
+          spreadsheetId,
+          updatedRange: range,
+          updatedRows: sheet.values.length,
+          updatedColumns: Math.max(0, ...sheet.values.map(row => row.length))
+        });
+      }
+    }
+
+    sendError(response, 404, `Unsupported ${request.method} ${url.pathname}`);
+  };
+
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch(error => sendError(response, 400, String(error)));
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}/`,
+    spreadsheets,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+};
+
+if (require.main === module) {
+  const port = Number(process.env.FAKE_SHEETS_PORT || 8085);
+  startFakeSheetsServer(port).then(server => {
+    console.log(`📗 Fake Google Sheets API listening on ${server.url}`);
+    console.log(`   Set GOOGLE_SHEETS_ROOT_URL=${server.url} to export here`);
+  });
+}
@@ -0,0 +1,5 @@
+export type { PageRow, SpreadsheetExporter } from './types';
+export { buildPageRows, toValueGrid, PAGE_ROW_COLUMNS } from './pageRows';
+export { createCsvExporter } from './csvExporter';
+export { createSheetsExporter } from './sheetsExporter';
+export type { SheetsExporterOptions } from './sheetsExporter';
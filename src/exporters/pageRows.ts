@@ -0,0 +1,42 @@
+import type { TranslationResult } from '../utils/pageProcessor';
+import type { PageRow } from './types';
+
+/**
+ * Column order and header titles shared by every exporter
+ */
+export const PAGE_ROW_COLUMNS: { id: keyof PageRow; title: string }[] = [
+  { id: 'pageNumber', title: 'Page' },
+  { id: 'status', title: 'Status' },
+  { id: 'retryCount', title: 'Retries' },
+  { id: 'chapterTitle', title: 'Chapter' },
+  { id: 'sectionTitle', title: 'Section' },
+  { id: 'summary', title: 'Page summary' },
+  { id: 'translation', title: 'Translation' },
+  { id: 'articleTitle', title: 'Article title' }
+];
+
+/**
+ * One row per page, in page order
+ */
+export const buildPageRows = (results: TranslationResult[]): PageRow[] => {
+  return results.map(result => ({
+    pageNumber: result.pageNumber,
+    status: result.status,
+    retryCount: result.retryCount || 0,
+    chapterTitle: result.chapterTitle || '',
+    sectionTitle: result.sectionTitle || '',
+    summary: result.summary,
+    translation: result.translation,
+    articleTitle: result.articleTitle
+  }));
+};
+
+/**
+ * Rows as a 2D array with the header first (the shape the Sheets API takes)
+ */
+export const toValueGrid = (rows: PageRow[]): (string | number)[][] => {
+  return [
+    PAGE_ROW_COLUMNS.map(column => column.title),
+    ...rows.map(row => PAGE_ROW_COLUMNS.map(column => row[column.id]))
+  ];
+};
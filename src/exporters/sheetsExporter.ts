@@ -0,0 +1,77 @@
+import { sheets as createSheetsClient, auth as googleAuth } from 'googleapis/build/src/apis/sheets';
+import { toValueGrid } from './pageRows';
+import type { PageRow, SpreadsheetExporter } from './types';
+
+export interface SheetsExporterOptions {
+  /** Existing spreadsheet to add a tab to; a new spreadsheet is created when omitted */
+  spreadsheetId?: string;
+  /** Service account key file (defaults to GOOGLE_APPLICATION_CREDENTIALS via Google's auth library) */
+  keyFile?: string;
+  /** API root, e.g. http://localhost:8085/ for the local fake endpoint (no auth is sent then) */
+  rootUrl?: string;
+  /** Tab name; defaults to the document title */
+  sheetName?: string;
+}
+
+// Google Sheets rejects cells longer than this
+const MAX_CELL_CHARS = 50000;
+const SCOPES = ['https://www.googleapis.com/auth/spreadsheets'];
+
+const clipCell = (value: string | number): string | number => {
+  if (typeof value !== 'string' || value.length <= MAX_CELL_CHARS) return value;
+  return value.slice(0, MAX_CELL_CHARS - 20) + '\n[...truncated]';
+};
+
+/**
+ * Tab names may not contain []:*?/\ and are limited to 100 characters
+ */
+const toSheetTitle = (title: string): string => {
+  return title.replace(/[\[\]:*?\/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Pages';
+};
+
+/**
+ * Google Sheets exporter: one right-to-left tab with a header row and one row per page
+ */
+export const createSheetsExporter = (options: SheetsExporterOptions = {}): SpreadsheetExporter => {
+  const client = createSheetsClient({
+    version: 'v4',
+    rootUrl: options.rootUrl,
+    auth: options.rootUrl ? undefined : new googleAuth.GoogleAuth({ keyFile: options.keyFile, scopes: SCOPES })
+  });
+
+  const exportRows = async (rows: PageRow[], title: string): Promise<string> => {
+    const sheetTitle = toSheetTitle(options.sheetName || title);
+    let spreadsheetId = options.spreadsheetId;
+
+    if (spreadsheetId) {
+      await client.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [{ addSheet: { properties: { title: sheetTitle, rightToLeft: true } } }]
+        }
+      });
+    } else {
+      const created = await client.spreadsheets.create({
+        requestBody: {
+          properties: { title: title || 'Translation', locale: 'iw_IL' },
+          sheets: [{ properties: { title: sheetTitle, rightToLeft: true } }]
+        }
+      });
+      spreadsheetId = created.data.spreadsheetId || undefined;
+      if (!spreadsheetId) {
+        throw new Error('Google Sheets did not return a spreadsheet id');
+      }
+    }
+
+    await client.spreadsheets.values.update({
+      spreadsheetId,
+      range: `'${sheetTitle.replace(/'/g, "''")}'!A1`,
+      valueInputOption: 'RAW',
+      requestBody: { values: toValueGrid(rows).map(row => row.map(clipCell)) }
+    });
+
+    return `https://docs.google.com/spreadsheets/d/${spreadsheetId}`;
+  };
+
+  return { name: 'google-sheets', exportRows };
+};
@@ -0,0 +1,27 @@
+/**
+ * Spreadsheet exporters
+ * One row per source page with everything processPage produced for it,
+ * written to CSV or to Google Sheets through the same interface.
+ */
+
+export interface PageRow {
+  pageNumber: number;
+  status: 'OK' | 'FAILED' | 'RETRY';
+  retryCount: number;
+  chapterTitle: string;
+  sectionTitle: string;
+  /** Per-page summary from the translation call */
+  summary: string;
+  translation: string;
+  articleTitle: string;
+}
+
+export interface SpreadsheetExporter {
+  name: string;
+  /**
+   * Write the rows (with a header row)
+   * @param title - Document title, used to name the sheet
+   * @returns Where the rows ended up (file path or spreadsheet URL)
+   */
+  exportRows(rows: PageRow[], title: string): Promise<string>;
+}
@@ -0,0 +1,11 @@
+export type { LanguageCode, TextDirection, Script, Language, LanguagePair } from './languages';
+export type { UiStrings } from './strings';
+export {
+  LANGUAGES,
+  LANGUAGE_CODES,
+  DEFAULT_SOURCE_LANGUAGE,
+  DEFAULT_TARGET_LANGUAGE,
+  DEFAULT_LANGUAGES,
+  parseLanguageCode,
+  getLanguagePair
+} from './languages';
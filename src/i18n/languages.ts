@@ -0,0 +1,125 @@
+import {
+  UiStrings,
+  HEBREW_STRINGS,
+  ENGLISH_STRINGS,
+  FRENCH_STRINGS,
+  GERMAN_STRINGS,
+  SPANISH_STRINGS
+} from './strings';
+
+export type LanguageCode = 'he' | 'en' | 'fr' | 'de' | 'es';
+
+export type TextDirection = 'rtl' | 'ltr';
+
+/** Writing system, used by the quality checks to tell translated text from untranslated text */
+export type Script = 'hebrew' | 'latin';
+
+export interface Language {
+  code: LanguageCode;
+  /** English name, used in the prompts */
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+  script: Script;
+  /** BCP 47 tag for HTML, DOCX and PDF metadata */
+  locale: string;
+  /** Default DOCX font */
+  font: string;
+  /** Tokens per token of the same text in English, for cost estimates of text in this language */
+  tokenRatio: number;
+  /** Extra instruction for term alignment (e.g. Hebrew prefixes fused to the word) */
+  alignmentNote?: string;
+  strings: UiStrings;
+}
+
+export interface LanguagePair {
+  source: Language;
+  target: Language;
+}
+
+export const LANGUAGES: Record<LanguageCode, Language> = {
+  he: {
+    code: 'he',
+    name: 'Hebrew',
+    nativeName: 'עברית',
+    direction: 'rtl',
+    script: 'hebrew',
+    locale: 'he-IL',
+    font: 'David',
+    tokenRatio: 1.5,
+    alignmentNote: 'Leave out prefixes attached to the word (like ה/ו/ב/ל/מ/ש).',
+    strings: HEBREW_STRINGS
+  },
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    direction: 'ltr',
+    script: 'latin',
+    locale: 'en-US',
+    font: 'Calibri',
+    tokenRatio: 1,
+    strings: ENGLISH_STRINGS
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    direction: 'ltr',
+    script: 'latin',
+    locale: 'fr-FR',
+    font: 'Calibri',
+    tokenRatio: 1.3,
+    strings: FRENCH_STRINGS
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    direction: 'ltr',
+    script: 'latin',
+    locale: 'de-DE',
+    font: 'Calibri',
+    tokenRatio: 1.3,
+    strings: GERMAN_STRINGS
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    direction: 'ltr',
+    script: 'latin',
+    locale: 'es-ES',
+    font: 'Calibri',
+    tokenRatio: 1.3,
+    strings: SPANISH_STRINGS
+  }
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const DEFAULT_SOURCE_LANGUAGE: LanguageCode = 'en';
+export const DEFAULT_TARGET_LANGUAGE: LanguageCode = 'he';
+
+/**
+ * Parse a language given as a code ("he") or an English name ("Hebrew")
+ */
+export const parseLanguageCode = (value: string): LanguageCode => {
+  const normalized = value.trim().toLowerCase();
+  const language = LANGUAGE_CODES.map(code => LANGUAGES[code])
+    .find(candidate => candidate.code === normalized || candidate.name.toLowerCase() === normalized);
+  if (!language) {
+    throw new Error(`Unsupported language "${value}" (expected one of: ${LANGUAGE_CODES.join(', ')})`);
+  }
+  return language.code;
+};
+
+export const getLanguagePair = (
+  source: LanguageCode = DEFAULT_SOURCE_LANGUAGE,
+  target: LanguageCode = DEFAULT_TARGET_LANGUAGE
+): LanguagePair => {
+  return { source: LANGUAGES[source], target: LANGUAGES[target] };
+};
+
+/** English to Hebrew, the tool's original and default direction */
+export const DEFAULT_LANGUAGES: LanguagePair = getLanguagePair();
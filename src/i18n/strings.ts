@@ -0,0 +1,162 @@
+/**
+ * Words the tool writes itself (document titles, labels, fallbacks for failed pages),
+ * in the target language of the run
+ */
+export interface UiStrings {
+  /** Fallback titles when the document has none */
+  translationTitle: string;
+  summaryTitle: string;
+  bilingualTitle: string;
+  tableOfContents: string;
+  notes: string;
+  /** Title of the executive summary */
+  overview: string;
+  figure: string;
+  table: string;
+  /** Heading of a reference list copied untranslated */
+  bibliography: string;
+  /** Summary chunk title for pages before the first chapter or section heading */
+  generalContent: string;
+  /** Article title of a failed page */
+  error: string;
+  /** Bilingual output: page without a translation */
+  notTranslated: string;
+  /** Bilingual output: page without a text layer or image */
+  noSource: string;
+  /** Reference to a page of the original, e.g. "עמ' 12" */
+  pageReference: (pageNumber: number) => string;
+  /** Bilingual row label, e.g. "עמוד 12" */
+  page: (pageNumber: number) => string;
+  /** Pages a summary covers, e.g. "עמודים 3-7" (range from formatPageRange) */
+  pageRange: (range: string) => string;
+  /** Translation text of a page that threw */
+  pageError: (pageNumber: number) => string;
+  /** Translation text of a page that failed every attempt */
+  pageFailed: (pageNumber: number, attempts: number) => string;
+  /** Translation text of a page that hit an unexpected error */
+  pageCrashed: (pageNumber: number) => string;
+  /** Summary text of a chunk or chapter whose summary failed */
+  summaryError: (title: string) => string;
+  /** Page summary of a reference list copied untranslated */
+  bibliographySummary: (entries: number) => string;
+}
+
+export const HEBREW_STRINGS: UiStrings = {
+  translationTitle: 'תרגום',
+  summaryTitle: 'סיכום',
+  bilingualTitle: 'תרגום דו-לשוני',
+  tableOfContents: 'תוכן עניינים',
+  notes: 'הערות',
+  overview: 'תקציר מנהלים',
+  figure: 'איור',
+  table: 'טבלה',
+  bibliography: 'רשימת מקורות',
+  generalContent: 'תוכן כללי',
+  error: 'שגיאה',
+  notTranslated: '⚠️ לא תורגם',
+  noSource: '(אין טקסט מקור)',
+  pageReference: pageNumber => `עמ' ${pageNumber}`,
+  page: pageNumber => `עמוד ${pageNumber}`,
+  pageRange: range => `עמודים ${range}`,
+  pageError: pageNumber => `[שגיאה בעמוד ${pageNumber}]`,
+  pageFailed: (pageNumber, attempts) => `שגיאה בעיבוד דף ${pageNumber} - ${attempts} ניסיונות נכשלו`,
+  pageCrashed: pageNumber => `שגיאה קריטית בעיבוד דף ${pageNumber}`,
+  summaryError: title => `שגיאה בסיכום ${title}`,
+  bibliographySummary: entries => `רשימת מקורות (${entries} פריטים), הועתקה בשפת המקור ללא תרגום`
+};
+
+export const ENGLISH_STRINGS: UiStrings = {
+  translationTitle: 'Translation',
+  summaryTitle: 'Summary',
+  bilingualTitle: 'Bilingual translation',
+  tableOfContents: 'Contents',
+  notes: 'Notes',
+  overview: 'Executive summary',
+  figure: 'Figure',
+  table: 'Table',
+  bibliography: 'References',
+  generalContent: 'General content',
+  error: 'Error',
+  notTranslated: '⚠️ Not translated',
+  noSource: '(no source text)',
+  pageReference: pageNumber => `p. ${pageNumber}`,
+  page: pageNumber => `Page ${pageNumber}`,
+  pageRange: range => `pages ${range}`,
+  pageError: pageNumber => `[Error on page ${pageNumber}]`,
+  pageFailed: (pageNumber, attempts) => `Error processing page ${pageNumber} - ${attempts} attempts failed`,
+  pageCrashed: pageNumber => `Critical error processing page ${pageNumber}`,
+  summaryError: title => `Error summarizing ${title}`,
+  bibliographySummary: entries => `References (${entries} entries), copied untranslated in the source language`
+};
+
+export const FRENCH_STRINGS: UiStrings = {
+  translationTitle: 'Traduction',
+  summaryTitle: 'Résumé',
+  bilingualTitle: 'Traduction bilingue',
+  tableOfContents: 'Table des matières',
+  notes: 'Notes',
+  overview: 'Synthèse',
+  figure: 'Figure',
+  table: 'Tableau',
+  bibliography: 'Bibliographie',
+  generalContent: 'Contenu général',
+  error: 'Erreur',
+  notTranslated: '⚠️ Non traduit',
+  noSource: '(pas de texte source)',
+  pageReference: pageNumber => `p. ${pageNumber}`,
+  page: pageNumber => `Page ${pageNumber}`,
+  pageRange: range => `pages ${range}`,
+  pageError: pageNumber => `[Erreur à la page ${pageNumber}]`,
+  pageFailed: (pageNumber, attempts) => `Erreur lors du traitement de la page ${pageNumber} - ${attempts} tentatives ont échoué`,
+  pageCrashed: pageNumber => `Erreur critique lors du traitement de la page ${pageNumber}`,
+  summaryError: title => `Erreur lors du résumé de ${title}`,
+  bibliographySummary: entries => `Bibliographie (${entries} entrées), copiée sans traduction dans la langue d'origine`
+};
+
+export const GERMAN_STRINGS: UiStrings = {
+  translationTitle: 'Übersetzung',
+  summaryTitle: 'Zusammenfassung',
+  bilingualTitle: 'Zweisprachige Übersetzung',
+  tableOfContents: 'Inhaltsverzeichnis',
+  notes: 'Anmerkungen',
+  overview: 'Kurzfassung',
+  figure: 'Abbildung',
+  table: 'Tabelle',
+  bibliography: 'Literaturverzeichnis',
+  generalContent: 'Allgemeiner Inhalt',
+  error: 'Fehler',
+  notTranslated: '⚠️ Nicht übersetzt',
+  noSource: '(kein Quelltext)',
+  pageReference: pageNumber => `S. ${pageNumber}`,
+  page: pageNumber => `Seite ${pageNumber}`,
+  pageRange: range => `Seiten ${range}`,
+  pageError: pageNumber => `[Fehler auf Seite ${pageNumber}]`,
+  pageFailed: (pageNumber, attempts) => `Fehler bei der Verarbeitung von Seite ${pageNumber} - ${attempts} Versuche fehlgeschlagen`,
+  pageCrashed: pageNumber => `Schwerer Fehler bei der Verarbeitung von Seite ${pageNumber}`,
+  summaryError: title => `Fehler beim Zusammenfassen von ${title}`,
+  bibliographySummary: entries => `Literaturverzeichnis (${entries} Einträge), unübersetzt in der Originalsprache übernommen`
+};
+
+export const SPANISH_STRINGS: UiStrings = {
+  translationTitle: 'Traducción',
+  summaryTitle: 'Resumen',
+  bilingualTitle: 'Traducción bilingüe',
+  tableOfContents: 'Índice',
+  notes: 'Notas',
+  overview: 'Resumen ejecutivo',
+  figure: 'Figura',
+  table: 'Tabla',
+  bibliography: 'Bibliografía',
+  generalContent: 'Contenido general',
+  error: 'Error',
+  notTranslated: '⚠️ Sin traducir',
+  noSource: '(sin texto original)',
+  pageReference: pageNumber => `p. ${pageNumber}`,
+  page: pageNumber => `Página ${pageNumber}`,
+  pageRange: range => `páginas ${range}`,
+  pageError: pageNumber => `[Error en la página ${pageNumber}]`,
+  pageFailed: (pageNumber, attempts) => `Error al procesar la página ${pageNumber} - fallaron ${attempts} intentos`,
+  pageCrashed: pageNumber => `Error crítico al procesar la página ${pageNumber}`,
+  summaryError: title => `Error al resumir ${title}`,
+  bibliographySummary: entries => `Bibliografía (${entries} entradas), copiada sin traducir en el idioma original`
+};
@@ -0,0 +1,218 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hashFile } from '../utils/runJournal';
+import { hasGlobPattern, findFilesByGlob } from '../utils/fileGlob';
+import { formatUsd } from '../utils/usageLedger';
+import { getProviderConfigFromEnv } from '../providers';
+import { CliError, EXIT_CODES, usesSavedRun } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+import {
+  loadBatchManifest,
+  findBatchEntry,
+  upsertBatchEntry,
+  saveBatchManifest
+} from './batchManifest';
+import type { BatchManifest, BatchDocumentEntry } from './batchManifest';
+import { runTranslation } from './translate';
+import { runDryRun } from './dryRun';
+import { createRunLedger } from './runProvider';
+
+/**
+ * Batch mode
+ * Translates every PDF of a folder, a glob or an argument list, one after the other,
+ * each into its own subfolder of --out. A document that fails is recorded in the
+ * manifest and the batch moves on.
+ */
+
+const isPdf = (filePath: string): boolean => path.extname(filePath).toLowerCase() === '.pdf';
+
+/**
+ * True when the inputs name more than one PDF: several arguments, a folder or a glob
+ */
+export const isBatchInput = async (options: CliOptions): Promise<boolean> => {
+  if (options.inputs.length > 1) return true;
+  if (hasGlobPattern(options.input) && !(await fs.pathExists(options.input))) return true;
+  // With a command on a saved run, a folder is the run directory of a single document
+  if (usesSavedRun(options)) return false;
+
+  const stat = await fs.stat(options.input).catch(() => null);
+  return stat !== null && stat.isDirectory();
+};
+
+/**
+ * Expand folders (top level only) and globs into a sorted, de-duplicated list of PDFs.
+ * Plain file arguments are kept even if missing, so they show up as FAILED.
+ */
+export const findBatchPdfs = async (inputs: string[]): Promise<string[]> => {
+  const pdfs: string[] = [];
+
+  for (const input of inputs) {
+    if (hasGlobPattern(input) && !(await fs.pathExists(input))) {
+      pdfs.push(...(await findFilesByGlob(input)).filter(isPdf));
+      continue;
+    }
+
+    const stat = await fs.stat(input).catch(() => null);
+    if (stat?.isDirectory()) {
+      const files = (await fs.readdir(input)).filter(isPdf).sort();
+      pdfs.push(...files.map(file => path.resolve(input, file)));
+    } else {
+      pdfs.push(path.resolve(input));
+    }
+  }
+
+  return [...new Set(pdfs)];
+};
+
+/**
+ * Output folder for a document: kept from the manifest, otherwise named after the PDF
+ * (with a numeric suffix when two PDFs share a name)
+ */
+const getDocumentOutputDir = (manifest: BatchManifest, outDir: string, pdfPath: string, taken: Set<string>): string => {
+  const existing = findBatchEntry(manifest, pdfPath);
+  if (existing) return path.resolve(outDir, existing.outputDir);
+
+  const baseName = path.basename(pdfPath, path.extname(pdfPath)).replace(/[^\w\-]+/g, '_');
+  let dir = path.join(outDir, baseName);
+  for (let suffix = 2; taken.has(dir); suffix++) {
+    dir = path.join(outDir, `${baseName}_${suffix}`);
+  }
+  return dir;
+};
+
+/**
+ * --dry-run over a batch: the per-document estimate for every PDF
+ */
+const runBatchDryRun = async (options: CliOptions, pdfs: string[]): Promise<boolean> => {
+  let failed = 0;
+  for (const pdfPath of pdfs) {
+    try {
+      await runDryRun({ ...options, input: pdfPath, inputs: [pdfPath] });
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${path.basename(pdfPath)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  return failed === 0;
+};
+
+/**
+ * Translate every PDF of the batch and keep batch_manifest.json/.md in --out up to date.
+ * --budget covers the whole batch; reaching it stops after the current document.
+ * @returns Exit code: FAILURE if a document failed outright (pages that failed inside a
+ *   finished document only mark it PARTIAL), BUDGET if the budget stopped the batch
+ */
+export const runBatch = async (options: CliOptions): Promise<number> => {
+  // Before the --pages check: --retranslate and --override always come with --pages
+  if (usesSavedRun(options)) {
+    throw new CliError('--summary-only, --retranslate, --override and --rebuild take a single PDF or run directory');
+  }
+  if (options.pages) {
+    throw new CliError('--pages cannot be used with several documents (page numbers differ per PDF)');
+  }
+
+  const outDir = path.resolve(options.outDir);
+  const manifest = await loadBatchManifest(outDir);
+
+  // Skip PDFs inside earlier output folders (e.g. translation_*.pdf with --format pdf)
+  const outputDirs = manifest.documents.map(entry => path.resolve(outDir, entry.outputDir) + path.sep);
+  const pdfs = (await findBatchPdfs(options.inputs))
+    .filter(pdfPath => !outputDirs.some(dir => pdfPath.startsWith(dir)));
+  if (pdfs.length === 0) {
+    throw new CliError(`No PDF files found in ${options.inputs.join(', ')}`, EXIT_CODES.NOT_FOUND);
+  }
+
+  console.log(`📚 Batch: ${pdfs.length} PDF(s)\n`);
+  if (options.dryRun) {
+    return (await runBatchDryRun(options, pdfs)) ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+  }
+
+  const ledger = await createRunLedger(options, getProviderConfigFromEnv({ model: options.model }).model);
+  let stoppedByBudget = false;
+
+  await fs.ensureDir(outDir);
+  const taken = new Set(manifest.documents.map(entry => path.resolve(outDir, entry.outputDir)));
+  let skipped = 0;
+
+  for (let i = 0; i < pdfs.length; i++) {
+    const pdfPath = pdfs[i];
+    const name = path.basename(pdfPath);
+    const documentDir = getDocumentOutputDir(manifest, outDir, pdfPath, taken);
+    taken.add(documentDir);
+
+    console.log(`\n${'#'.repeat(80)}`);
+    console.log(`📚 [${i + 1}/${pdfs.length}] ${name}`);
+    console.log(`${'#'.repeat(80)}\n`);
+
+    const previous = findBatchEntry(manifest, pdfPath);
+    const pdfHash = await hashFile(pdfPath).catch(() => '');
+
+    if (previous?.status === 'COMPLETE' && previous.pdfHash === pdfHash && !options.force) {
+      console.log(`⏭️  Already complete (${previous.finishedAt}), skipping (--force to re-run)`);
+      skipped++;
+      continue;
+    }
+
+    const entry: BatchDocumentEntry = {
+      name,
+      pdfPath,
+      pdfHash,
+      status: 'IN_PROGRESS',
+      pageCount: previous?.pageCount ?? 0,
+      pagesProcessed: 0,
+      failedPages: [],
+      outputDir: path.relative(outDir, documentDir) || '.',
+      outputs: [],
+      runDir: previous?.runDir ?? '',
+      startedAt: new Date().toISOString()
+    };
+    upsertBatchEntry(manifest, entry);
+    await saveBatchManifest(outDir, manifest);
+
+    try {
+      const report = await runTranslation({ ...options, input: pdfPath, inputs: [pdfPath], outDir: documentDir }, ledger);
+      stoppedByBudget = report.stoppedByBudget;
+      entry.status = report.failedPages.length > 0 || report.stoppedByBudget ? 'PARTIAL' : 'COMPLETE';
+      entry.costUsd = report.costUsd;
+      if (report.stoppedByBudget) entry.error = 'Stopped by --budget';
+      entry.pageCount = report.pageCount;
+      entry.pagesProcessed = report.pagesProcessed;
+      entry.failedPages = report.failedPages;
+      entry.outputs = report.outputPaths.map(outputPath => path.relative(outDir, outputPath));
+      entry.runDir = report.runDir;
+    } catch (error) {
+      // One broken PDF must not stop the others
+      console.error(`❌ ${name} failed:`, error instanceof CliError ? error.message : error);
+      entry.status = 'FAILED';
+      entry.error = error instanceof Error ? error.message : String(error);
+    }
+
+    entry.finishedAt = new Date().toISOString();
+    await saveBatchManifest(outDir, manifest);
+
+    if (stoppedByBudget) {
+      console.warn(`💵 Budget reached: ${pdfs.length - i - 1} document(s) not started`);
+      break;
+    }
+  }
+
+  const manifestPath = await saveBatchManifest(outDir, manifest);
+  const entries = pdfs.map(pdfPath => findBatchEntry(manifest, pdfPath)).filter((entry): entry is BatchDocumentEntry => !!entry);
+  const count = (status: BatchDocumentEntry['status']): number => entries.filter(entry => entry.status === status).length;
+
+  console.log('\n📋 BATCH COMPLETE');
+  console.log('='.repeat(80));
+  console.log(`✅ Complete: ${count('COMPLETE') - skipped}${skipped ? ` (+${skipped} skipped, already complete)` : ''}`);
+  console.log(`⚠️  Partial (some pages failed): ${count('PARTIAL')}`);
+  console.log(`❌ Failed: ${count('FAILED')}`);
+  console.log(`💵 Spent: ${formatUsd(ledger.getSpentUsd())}${ledger.budgetUsd !== undefined ? ` of ${formatUsd(ledger.budgetUsd)} budget` : ''}`);
+  for (const entry of entries.filter(item => item.status === 'FAILED')) {
+    console.log(`   - ${entry.name}: ${entry.error}`);
+  }
+  console.log(`\n📒 Manifest: ${manifestPath}`);
+  console.log(`            ${manifestPath.replace(/\.json$/, '.md')}`);
+  console.log('='.repeat(80));
+
+  if (count('FAILED') > 0) return EXIT_CODES.FAILURE;
+  return stoppedByBudget ? EXIT_CODES.BUDGET : EXIT_CODES.OK;
+};
@@ -0,0 +1,125 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { formatUsd } from '../utils/usageLedger';
+
+/**
+ * Batch manifest
+ * One entry per document of a batch run, kept in the batch output directory as
+ * batch_manifest.json (read back to skip finished documents) and batch_manifest.md
+ * (human-readable index). Rewritten after every document so an interrupted batch
+ * still shows what was done.
+ */
+
+export type BatchDocumentStatus = 'IN_PROGRESS' | 'COMPLETE' | 'PARTIAL' | 'FAILED';
+
+export interface BatchDocumentEntry {
+  name: string;
+  pdfPath: string;
+  /** SHA-256 of the PDF; a changed file is translated again even if COMPLETE */
+  pdfHash: string;
+  /** COMPLETE = every page OK, PARTIAL = some pages FAILED, FAILED = the run itself failed */
+  status: BatchDocumentStatus;
+  pageCount: number;
+  pagesProcessed: number;
+  failedPages: number[];
+  /** Output folder and files, relative to the manifest */
+  outputDir: string;
+  outputs: string[];
+  runDir: string;
+  /** Spend of the last run (null when the model's price is unknown) */
+  costUsd?: number | null;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+export interface BatchManifest {
+  createdAt: string;
+  updatedAt: string;
+  documents: BatchDocumentEntry[];
+}
+
+const MANIFEST_JSON = 'batch_manifest.json';
+const MANIFEST_MD = 'batch_manifest.md';
+
+const STATUS_LABELS: Record<BatchDocumentStatus, string> = {
+  IN_PROGRESS: '⏳ in progress',
+  COMPLETE: '✅ complete',
+  PARTIAL: '⚠️ partial',
+  FAILED: '❌ failed'
+};
+
+/**
+ * Load the manifest of an earlier batch in this directory, or start an empty one
+ */
+export const loadBatchManifest = async (outDir: string): Promise<BatchManifest> => {
+  const manifestPath = path.join(outDir, MANIFEST_JSON);
+  if (await fs.pathExists(manifestPath)) {
+    return fs.readJson(manifestPath);
+  }
+
+  const now = new Date().toISOString();
+  return { createdAt: now, updatedAt: now, documents: [] };
+};
+
+export const findBatchEntry = (manifest: BatchManifest, pdfPath: string): BatchDocumentEntry | undefined => {
+  return manifest.documents.find(entry => entry.pdfPath === pdfPath);
+};
+
+/**
+ * Add or replace the entry for a document
+ */
+export const upsertBatchEntry = (manifest: BatchManifest, entry: BatchDocumentEntry): void => {
+  const index = manifest.documents.findIndex(existing => existing.pdfPath === entry.pdfPath);
+  if (index === -1) {
+    manifest.documents.push(entry);
+  } else {
+    manifest.documents[index] = entry;
+  }
+};
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Markdown index: one table row per document, then the error of each failed one
+ */
+export const formatBatchManifest = (manifest: BatchManifest): string => {
+  const lines: string[] = [
+    '# Batch manifest',
+    '',
+    `Updated: ${manifest.updatedAt}`,
+    '',
+    '| # | Document | Status | Pages | Failed pages | Cost | Outputs |',
+    '|---|----------|--------|-------|--------------|------|---------|'
+  ];
+
+  manifest.documents.forEach((entry, i) => {
+    const outputs = entry.outputs.map(output => `[${path.basename(output)}](${encodeURI(output)})`).join('<br>');
+    lines.push(`| ${i + 1} | ${escapeCell(entry.name)} | ${STATUS_LABELS[entry.status]} | ${entry.pagesProcessed}/${entry.pageCount} | ${entry.failedPages.join(', ') || '-'} | ${formatUsd(entry.costUsd ?? null)} | ${outputs || '-'} |`);
+  });
+
+  const failed = manifest.documents.filter(entry => entry.error);
+  if (failed.length > 0) {
+    lines.push('', '## Errors', '');
+    for (const entry of failed) {
+      lines.push(`- **${escapeCell(entry.name)}**: ${escapeCell(entry.error!)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Write batch_manifest.json and batch_manifest.md
+ * @returns Path of the JSON manifest
+ */
+export const saveBatchManifest = async (outDir: string, manifest: BatchManifest): Promise<string> => {
+  manifest.updatedAt = new Date().toISOString();
+  const manifestPath = path.join(outDir, MANIFEST_JSON);
+
+  // Temp file + rename, as in the run journal
+  await fs.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2), 'utf-8');
+  await fs.move(`${manifestPath}.tmp`, manifestPath, { overwrite: true });
+  await fs.writeFile(path.join(outDir, MANIFEST_MD), formatBatchManifest(manifest), 'utf-8');
+  return manifestPath;
+};
@@ -0,0 +1,48 @@
+import type { TranslationResult } from '../utils/pageProcessor';
+import type { PreparedPage } from '../utils/pdfProcessorJS';
+import type { PageTranslationRequest } from '../providers';
+import { getResultHeadings } from '../utils/pdfOutline';
+
+/**
+ * Continuity context for page `index`: the end of the previous page's translation if it
+ * is already done, otherwise the end of its English source text (parallel translation, or a
+ * reference list kept in English).
+ * No context when the previous selected page is not the directly preceding PDF page.
+ */
+export const getPreviousContext = (
+  translated: (TranslationResult | undefined)[],
+  pages: PreparedPage[],
+  index: number
+): Pick<PageTranslationRequest, 'previousContext' | 'previousContextSource'> => {
+  if (index === 0 || pages[index - 1].pageNumber !== pages[index].pageNumber - 1) {
+    return { previousContext: '', previousContextSource: 'translation' };
+  }
+
+  const previous = translated[index - 1];
+  if (previous?.status === 'OK' && !previous.bibliography) {
+    return { previousContext: previous.translation.slice(-200), previousContextSource: 'translation' };
+  }
+
+  const previousSource = pages[index - 1].pageText.text;
+  return { previousContext: previousSource.slice(-200), previousContextSource: 'source' };
+};
+
+/**
+ * Chapter > section > subsection path for page `index`, from the headings of finished earlier pages
+ */
+export const getChapterContext = (translated: (TranslationResult | undefined)[], index: number): string => {
+  const path: string[] = [];
+
+  for (let j = 0; j < index; j++) {
+    const previous = translated[j];
+    if (!previous || previous.status !== 'OK') continue;
+
+    // A heading replaces its level and closes every deeper one
+    for (const heading of getResultHeadings(previous)) {
+      path[heading.level - 1] = heading.text;
+      path.length = heading.level;
+    }
+  }
+
+  return path.filter(Boolean).join(' > ');
+};
@@ -0,0 +1,64 @@
+import path from 'path';
+import { analyzePages, getPdfPageCount } from '../utils/pdfProcessorJS';
+import { getProviderConfigFromEnv } from '../providers';
+import { estimateRunCost } from '../utils/costEstimate';
+import { formatUsd } from '../utils/usageLedger';
+import { validatePageSelection } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+import { resolveInputPdf } from './translate';
+import { createRunLedger } from './runProvider';
+import { readPdfOutline, getOutlineDepth } from '../utils/pdfOutline';
+import { isBibliographyPage } from '../utils/bibliography';
+
+/**
+ * --dry-run: report what a run would do and roughly cost, without calling the API
+ * or rendering page images
+ */
+export const runDryRun = async (options: CliOptions): Promise<void> => {
+  const fullPdfPath = await resolveInputPdf(options.input);
+  const pageCount = await getPdfPageCount(fullPdfPath);
+  if (options.pages) {
+    validatePageSelection(options.pages, pageCount);
+  }
+
+  const config = getProviderConfigFromEnv({ model: options.model });
+  const { priceTable, budgetUsd } = await createRunLedger(options, config.model);
+  const outline = await readPdfOutline(fullPdfPath);
+  const analyses = await analyzePages(fullPdfPath, options.mode, options.pages);
+  // Reference lists with a text layer are copied through without an API call
+  const bibliographyPages = analyses
+    .filter(page => page.useTextLayer && isBibliographyPage(page.pageText))
+    .map(page => page.pageNumber);
+  const estimate = estimateRunCost(
+    analyses.filter(page => !bibliographyPages.includes(page.pageNumber)).map(page => ({
+      kind: page.useTextLayer ? 'text' : 'image',
+      textLength: page.useTextLayer ? page.pageText.text.length : 0
+    })),
+    config,
+    { chunkSize: options.chunkSize, summary: options.summary, priceTable }
+  );
+
+  console.log('\n📋 DRY RUN (no API calls)');
+  console.log('='.repeat(80));
+  console.log(`📄 PDF: ${path.basename(fullPdfPath)} (${pageCount} pages)`);
+  console.log(`📑 Pages to translate: ${estimate.pages} (${estimate.textPages} text, ${estimate.imagePages} image)`);
+  if (bibliographyPages.length > 0) {
+    console.log(`📚 Bibliography pages kept in English (not billed): ${bibliographyPages.join(', ')}`);
+  }
+  console.log(outline.length > 0
+    ? `🗂️ PDF outline: ${outline.length} headings, ${getOutlineDepth(outline)} level(s) (seeds headings and the table of contents)`
+    : '🗂️ PDF outline: none (headings come from the model)');
+  console.log(`📚 Summary chunks: ${options.summary ? `~${estimate.summaryChunks}` : 'skipped (--no-summary)'}`);
+  console.log(`🤖 Model: ${config.model}`);
+  console.log(`🔢 Estimated tokens: ~${estimate.inputTokens.toLocaleString()} input, ~${estimate.outputTokens.toLocaleString()} output`);
+  console.log(estimate.costUsd === null
+    ? `💵 Estimated cost: unknown (no price for model "${config.model}")`
+    : `💵 Estimated cost: ~${formatUsd(estimate.costUsd)} (rough estimate)`);
+  if (budgetUsd !== undefined) {
+    console.log(estimate.costUsd !== null && estimate.costUsd > budgetUsd
+      ? `⚠️  Over --budget ${formatUsd(budgetUsd)}: the run would stop early`
+      : `✅ Within --budget ${formatUsd(budgetUsd)}`);
+  }
+  console.log(`📂 Outputs would go to: ${path.resolve(options.outDir)} (${options.formats.join(', ')})`);
+  console.log('='.repeat(80));
+};
@@ -0,0 +1,8 @@
+export { runTranslation } from './translate';
+export { runSummaryOnly } from './summaryOnly';
+export { runRetranslate, runOverride, runRebuild } from './review';
+export { runDryRun } from './dryRun';
+export { createChunks } from './summary';
+export type { ChunkData } from './summary';
+export { runBatch, isBatchInput } from './batch';
+export type { TranslationRunReport } from './translate';
@@ -0,0 +1,189 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { cropFigures } from '../utils/pdfProcessorJS';
+import type { PreparedPage, PageRenderer } from '../utils/pdfProcessorJS';
+import type { TranslationResult } from '../utils/pageProcessor';
+import {
+  buildTranslationDocument,
+  buildBilingualDocument,
+  writeOutputs,
+  writeBilingualOutputs
+} from '../renderers';
+import type { BilingualSource, SummaryDocument, TranslationDocument, WrittenOutput } from '../renderers';
+import { buildPageRows, createCsvExporter, createSheetsExporter } from '../exporters';
+import { estimateSummaryCost } from '../utils/costEstimate';
+import { formatUsd } from '../utils/usageLedger';
+import type { UsageLedger } from '../utils/usageLedger';
+import { buildQualityReport, writeQualityReport } from '../utils/qualityCheck';
+import type { QualityReport } from '../utils/qualityCheck';
+import { getProviderLanguages } from '../providers';
+import type { TranslationProvider } from '../providers';
+import { findGlossaryViolations, formatViolationReport } from '../utils/glossary';
+import type { Glossary } from '../utils/glossary';
+import type { RunJournal } from '../utils/runJournal';
+import type { CliOptions } from '../cli/options';
+import { summarizeResults } from './summary';
+
+/**
+ * Output stage shared by a full run and by the commands that work on a saved run
+ * (--retranslate, --override, --rebuild): translation and summary in every format, the
+ * bilingual and per-page exports, glossary compliance and the QA report.
+ */
+
+export interface RunOutputsInput {
+  options: CliOptions;
+  provider: TranslationProvider;
+  ledger: UsageLedger;
+  journal: RunJournal;
+  glossary?: Glossary;
+  /** Every page result, in page order */
+  results: TranslationResult[];
+  /** The prepared PDF pages behind the results (source text, page images) */
+  pages: PreparedPage[];
+  renderer: PageRenderer;
+  pdfPath: string;
+  outDir: string;
+  timestamp: string;
+  /** The budget already stopped the run: the summary is skipped */
+  stoppedByBudget: boolean;
+}
+
+export interface RunOutputs {
+  translationDocument: TranslationDocument;
+  summaryDocument: SummaryDocument | null;
+  /** Translation, summary and bilingual files */
+  outputs: WrittenOutput[];
+  csvPath: string;
+  qualityReport: QualityReport;
+  qualityPaths: string[];
+  glossaryViolationCount: number;
+  /** True when the budget stopped the run, before or at the summary */
+  stoppedByBudget: boolean;
+}
+
+/**
+ * Build the documents from the page results and write every requested output
+ */
+export const writeRunOutputs = async (input: RunOutputsInput): Promise<RunOutputs> => {
+  const { options, provider, ledger, journal, glossary, results, pages, renderer, outDir, timestamp } = input;
+  const languages = getProviderLanguages(provider.config);
+  let stoppedByBudget = input.stoppedByBudget;
+
+  // Step 5: Build the translation document (chapters/sections/paragraphs)
+  console.log('📋 Step 4: Building full translation with chapters/titles...');
+  // Figure crops go next to the outputs (plain text shows captions only)
+  const figurePages = results
+    .filter(result => result.status === 'OK' && result.figures?.length)
+    .map(result => ({ pageNumber: result.pageNumber, figures: result.figures! }));
+  const figureImages = options.formats.some(format => format !== 'txt')
+    ? await cropFigures(renderer, figurePages, path.join(outDir, `figures_${timestamp}`))
+    : new Map<number, (string | undefined)[]>();
+  const translationDocument = buildTranslationDocument(results, figureImages, languages);
+  console.log(`✅ ${translationDocument.blocks.length} blocks`);
+  const stitching = translationDocument.stitching;
+  if (stitching) {
+    console.log(`🧵 Stitched pages: ${stitching.joined} paragraphs joined, ${stitching.overlaps} repeats removed, ${stitching.runningLines} header/footer lines removed\n`);
+  }
+
+  // Steps 6-7: Structured summary by chunks (skipped with --no-summary); chunks whose
+  // summary is saved in the run are not summarized again
+  let summaryDocument: SummaryDocument | null = null;
+  const summaryCostUsd = estimateSummaryCost(
+    results.reduce((sum, result) => sum + result.translation.length, 0),
+    provider.config,
+    { chunkSize: options.chunkSize, priceTable: ledger.priceTable }
+  ) ?? 0;
+  if (!options.summary) {
+    console.log('⏭️  Summary skipped (--no-summary)\n');
+  } else if (stoppedByBudget) {
+    console.log('⏭️  Summary skipped (budget reached); run again with a higher --budget to resume\n');
+  } else if (!ledger.tryReserve(summaryCostUsd)) {
+    console.log(`⏭️  Summary skipped: ~${formatUsd(summaryCostUsd)} would exceed --budget; run again with a higher --budget to finish\n`);
+    stoppedByBudget = true;
+  } else {
+    try {
+      summaryDocument = await summarizeResults(provider, results, options.chunkSize, glossary?.entries, options.summaryLengths, journal);
+    } finally {
+      ledger.release(summaryCostUsd);
+    }
+  }
+
+  // Step 8: Render translation + summary in every requested format
+  console.log(`📋 Step 7: Writing outputs (${options.formats.join(', ')})...`);
+  const outputs = await writeOutputs(options.formats, outDir, timestamp, translationDocument, summaryDocument);
+
+  // Side-by-side source/translation (page images are kept in temp_pages for it; pages
+  // finished by an earlier run are rendered now)
+  if (options.bilingual) {
+    for (const page of pages) {
+      if (page.content.kind === 'image') {
+        await renderer.render(page.pageNumber).catch(error =>
+          console.warn(`⚠️ Page ${page.pageNumber}: not rendered for the bilingual output (${error instanceof Error ? error.message : error})`));
+      }
+    }
+    const sources = new Map<number, BilingualSource>(pages.map(page => [
+      page.pageNumber,
+      page.content.kind === 'image'
+        ? { kind: 'image', imagePath: page.content.imagePath }
+        : { kind: 'text', text: page.pageText.text }
+    ]));
+    outputs.push(...await writeBilingualOutputs(outDir, timestamp, buildBilingualDocument(results, sources, languages)));
+  }
+
+  for (const output of outputs) {
+    console.log(`✅ ${output.kind} saved: ${path.basename(output.path)}`);
+  }
+
+  // Per-page rows (status, retries, chapter/section, page summary, translation)
+  const pageRows = buildPageRows(results);
+  let csvPath = '';
+  if (options.csv) {
+    csvPath = await createCsvExporter(path.join(outDir, `pages_${timestamp}.csv`)).exportRows(pageRows, translationDocument.title);
+    console.log(`✅ pages saved: ${path.basename(csvPath)}`);
+  }
+  if (options.sheets) {
+    // A failed upload should not lose the run: the files above are already written
+    try {
+      const exporter = createSheetsExporter({
+        spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID,
+        rootUrl: process.env.GOOGLE_SHEETS_ROOT_URL,
+        sheetName: `${translationDocument.title || 'Translation'} ${timestamp}`
+      });
+      const sheetUrl = await exporter.exportRows(pageRows, translationDocument.title);
+      console.log(`✅ pages exported to Google Sheets: ${sheetUrl}`);
+    } catch (error) {
+      console.error('⚠️ Google Sheets export failed:', error instanceof Error ? error.message : error);
+    }
+  }
+  console.log('');
+
+  // Glossary compliance: pages where a term appears in the source but not its mandated rendering
+  const sourceTexts = new Map(pages.map(page => [page.pageNumber, page.pageText.text]));
+  let glossaryViolationCount = 0;
+  if (glossary) {
+    console.log('📋 Checking glossary compliance...');
+    const violations = findGlossaryViolations(glossary, results, sourceTexts);
+    glossaryViolationCount = violations.length;
+    await fs.writeJson(path.join(journal.dir, 'glossary_violations.json'), violations, { spaces: 2 });
+    console.log(formatViolationReport(violations));
+    console.log('');
+  }
+
+  // QA report: quality score and reasons for every page
+  const textLayerSources = new Map(pages
+    .filter(page => page.content.kind === 'text')
+    .map(page => [page.pageNumber, page.pageText.text]));
+  const qualityReport = buildQualityReport(results, textLayerSources, options.minQuality, languages);
+  const qualityPaths = await writeQualityReport(outDir, timestamp, qualityReport, translationDocument.title || path.basename(input.pdfPath));
+
+  return {
+    translationDocument,
+    summaryDocument,
+    outputs,
+    csvPath,
+    qualityReport,
+    qualityPaths,
+    glossaryViolationCount,
+    stoppedByBudget
+  };
+};
@@ -0,0 +1,432 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { preparePages, cleanupTempFiles } from '../utils/pdfProcessorJS';
+import type { PreparedPage, PageRenderer } from '../utils/pdfProcessorJS';
+import { processPage } from '../utils/pageProcessor';
+import type { TranslationResult } from '../utils/pageProcessor';
+import { estimateRunCost } from '../utils/costEstimate';
+import { buildUsageReport, formatUsageTable, formatUsd } from '../utils/usageLedger';
+import type { UsageLedger } from '../utils/usageLedger';
+import { selectEntriesForText } from '../utils/glossary';
+import type { Glossary } from '../utils/glossary';
+import { loadRunJournal, savePageRecord, hashPageContent } from '../utils/runJournal';
+import type { RunJournal } from '../utils/runJournal';
+import {
+  readPdfOutline,
+  getOutlineDepth,
+  getOutlineHeadingsForPage,
+  getOutlinePath,
+  applyOutlineHeadings
+} from '../utils/pdfOutline';
+import { getProviderConfigFromEnv, validatePageTranslation, ResponseValidationError } from '../providers';
+import type { TranslationProvider, PageTranslation } from '../providers';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from '../i18n';
+import { CliError, EXIT_CODES, validatePageSelection } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+import { getPreviousContext, getChapterContext } from './context';
+import { createRunProvider, createRunLedger, getRunLanguages } from './runProvider';
+import { writeRunOutputs } from './outputs';
+import { createTimestamp, loadRunGlossary } from './translate';
+
+/**
+ * Reviewing a saved run
+ * A reviewer who finds a bad page does not have to translate the whole PDF again:
+ *   --retranslate --pages N [--note TEXT]  translate pages again, with the note in the prompt
+ *   --override FILE --pages N             replace a page with an edited translation
+ *   --rebuild                             write every output again from the saved pages
+ * Each one ends by rebuilding the outputs. Summaries are saved in the run under a key of
+ * what they were written from, so only chunks whose pages changed (and the chapter and
+ * document summaries above them) are summarized again.
+ */
+
+export interface SavedRun {
+  journal: RunJournal;
+  /** The PDF the run translated */
+  pdfPath: string;
+  /** The options, with the languages the run was translated in */
+  runOptions: CliOptions;
+}
+
+/**
+ * Find the saved run of a command's input (the PDF or its run directory)
+ */
+export const loadSavedRun = async (options: CliOptions): Promise<SavedRun> => {
+  const input = path.resolve(options.input);
+  if (!(await fs.pathExists(input))) {
+    throw new CliError(`Input not found: ${input}`, EXIT_CODES.NOT_FOUND);
+  }
+
+  // Runs are kept in --out, where the translation wrote them
+  const journal = await loadRunJournal(path.join(path.resolve(options.outDir), 'runs'), input, getRunLanguages(options));
+  if (!journal) {
+    throw new CliError(`No saved run for ${path.basename(input)} in ${path.resolve(options.outDir)} - translate it first, or pass the --out it was translated with`, EXIT_CODES.NOT_FOUND);
+  }
+
+  const isPdf = (await fs.stat(input)).isFile();
+  return {
+    journal,
+    pdfPath: isPdf ? input : journal.manifest.pdfPath,
+    // Changes are made in the language the pages were translated into
+    runOptions: {
+      ...options,
+      sourceLanguage: journal.manifest.sourceLanguage || DEFAULT_SOURCE_LANGUAGE,
+      targetLanguage: journal.manifest.targetLanguage || DEFAULT_TARGET_LANGUAGE
+    }
+  };
+};
+
+interface ReviewSession extends SavedRun {
+  provider: TranslationProvider;
+  ledger: UsageLedger;
+  glossary?: Glossary;
+  /** Every saved page plus the pages being re-translated, in page order */
+  pages: PreparedPage[];
+  renderer: PageRenderer;
+  tempDir: string;
+}
+
+/**
+ * Load the saved run, the provider and the PDF pages behind the saved results
+ * (source text for the QA report and glossary check, images for figures and --bilingual)
+ */
+const openReviewSession = async (options: CliOptions): Promise<ReviewSession> => {
+  const savedRun = await loadSavedRun(options);
+  const { journal, pdfPath, runOptions } = savedRun;
+  if (!(await fs.pathExists(pdfPath))) {
+    throw new CliError(`The PDF of ${journal.dir} is missing: ${pdfPath} (pass the PDF as INPUT)`, EXIT_CODES.NOT_FOUND);
+  }
+
+  const recorded = [...journal.pages.keys()];
+  if (recorded.length === 0 && !options.retranslate) {
+    throw new CliError(`Run ${journal.dir} has no saved pages`, EXIT_CODES.NOT_FOUND);
+  }
+  if (options.pages) {
+    validatePageSelection(options.pages, journal.manifest.pageCount);
+  }
+
+  console.log(`📁 Run: ${journal.dir} (${journal.manifest.status === 'COMPLETE' ? 'complete' : 'unfinished'})`);
+  console.log(`📑 ${recorded.length} saved page(s) of ${journal.manifest.pageCount}\n`);
+
+  const ledger = await createRunLedger(runOptions, getProviderConfigFromEnv({ model: runOptions.model }).model);
+  const provider = createRunProvider(runOptions, ledger);
+  console.log(`✅ Environment loaded (provider: ${provider.name}, model: ${provider.config.model})\n`);
+  const glossary = await loadRunGlossary(options);
+
+  const pageNumbers = [...new Set([...recorded, ...(options.retranslate ? options.pages! : [])])].sort((a, b) => a - b);
+  const tempDir = path.join(path.resolve(options.outDir), 'temp_pages');
+  const { pages, renderer } = await preparePages(pdfPath, tempDir, options.mode, pageNumbers, options.render);
+  console.log('');
+
+  return { ...savedRun, provider, ledger, glossary, pages, renderer, tempDir };
+};
+
+/**
+ * The saved results of every prepared page, in page order
+ */
+const getSavedResults = (session: ReviewSession): (TranslationResult | undefined)[] => {
+  return session.pages.map(page => session.journal.pages.get(page.pageNumber)?.result);
+};
+
+/**
+ * Write the outputs from the saved pages, print the usual report and clean up
+ * @param changedPages - Pages changed by this command (for the report)
+ */
+const rebuildOutputs = async (session: ReviewSession, changedPages: number[], stoppedByBudget: boolean): Promise<void> => {
+  const { runOptions, provider, ledger, journal, glossary, pages, renderer, pdfPath } = session;
+  const results = getSavedResults(session).filter((result): result is TranslationResult => result !== undefined);
+
+  const outDir = path.resolve(runOptions.outDir);
+  await fs.ensureDir(outDir);
+  const timestamp = createTimestamp();
+  const outputs = await writeRunOutputs({
+    options: runOptions,
+    provider,
+    ledger,
+    journal,
+    glossary,
+    results,
+    pages,
+    renderer,
+    pdfPath,
+    outDir,
+    timestamp,
+    stoppedByBudget
+  });
+
+  await renderer.close();
+  await cleanupTempFiles(session.tempDir);
+
+  const reviewed = results.filter(result => result.review);
+  console.log(outputs.stoppedByBudget ? '📋 STOPPED: BUDGET REACHED' : '📋 COMPLETE');
+  console.log('='.repeat(80));
+  console.log(`✅ Pages in the outputs: ${results.length}`);
+  if (changedPages.length > 0) {
+    console.log(`✏️  Changed by this command: ${changedPages.join(', ')}`);
+  }
+  if (reviewed.length > 0) {
+    console.log(`📝 Reviewed pages in the run: ${reviewed.map(result => `${result.pageNumber} (${result.review!.action})`).join(', ')}`);
+  }
+  console.log(`${outputs.qualityReport.flagged ? '⚠️ ' : '✅'} Quality: ${outputs.qualityReport.passed} passed, ${outputs.qualityReport.flagged} flagged for review (minimum score ${outputs.qualityReport.minScore})`);
+  console.log(`\n💵 USAGE`);
+  console.log(formatUsageTable(buildUsageReport(ledger.events, ledger.priceTable, {
+    budgetUsd: ledger.budgetUsd,
+    stoppedByBudget: outputs.stoppedByBudget
+  })));
+  console.log(`\n📄 OUTPUT FILES:`);
+  outputs.outputs.forEach((output, i) => {
+    console.log(`   ${i + 1}. ${path.basename(output.path)} (${output.bytes.toLocaleString()} bytes)`);
+  });
+  if (outputs.csvPath) {
+    console.log(`   ${outputs.outputs.length + 1}. ${path.basename(outputs.csvPath)}`);
+  }
+  console.log(`   QA report: ${outputs.qualityPaths.map(qualityPath => path.basename(qualityPath)).join(', ')}`);
+  console.log(`\n📁 Run journal: ${journal.dir}`);
+  console.log('='.repeat(80));
+  console.log('\n🎉 Done!\n');
+};
+
+/**
+ * --retranslate: translate the --pages of a saved run again (bypassing the translation
+ * cache, which would return the same answer), then rebuild the outputs. A page whose new
+ * translation fails keeps its saved one; an error on one page does not stop the others.
+ */
+export const runRetranslate = async (options: CliOptions): Promise<number> => {
+  const session = await openReviewSession(options);
+  const { provider, ledger, journal, glossary, pages, renderer, runOptions } = session;
+  const selected = options.pages!;
+  const translated = getSavedResults(session);
+
+  const outline = await readPdfOutline(session.pdfPath);
+  const outlineDepth = getOutlineDepth(outline);
+  if (options.reviewerNote) {
+    console.log(`📝 Reviewer note: "${options.reviewerNote}"\n`);
+  }
+  console.log(`📋 Re-translating ${selected.length} page(s): ${selected.join(', ')}\n`);
+
+  const changedPages: number[] = [];
+  let stoppedByBudget = false;
+  for (const pageNumber of selected) {
+    const i = pages.findIndex(page => page.pageNumber === pageNumber);
+    const page = pages[i];
+
+    const reservedUsd = estimateRunCost(
+      [{ kind: page.content.kind, textLength: page.content.kind === 'text' ? page.pageText.text.length : 0 }],
+      provider.config,
+      { chunkSize: runOptions.chunkSize, summary: false, priceTable: ledger.priceTable }
+    ).costUsd ?? 0;
+    if (!ledger.tryReserve(reservedUsd)) {
+      console.warn(`💵 Budget reached (${formatUsd(ledger.getSpentUsd())} of ${formatUsd(ledger.budgetUsd ?? 0)} spent): not re-translating page ${pageNumber} or later pages`);
+      stoppedByBudget = true;
+      break;
+    }
+
+    console.log(`--- Page ${pageNumber} (${page.content.kind}) ---`);
+    try {
+      if (page.content.kind === 'image') {
+        await renderer.render(pageNumber);
+      }
+
+      // Same context as in the run: the saved neighbours stand in for the pages around it
+      const { previousContext, previousContextSource } = getPreviousContext(translated, pages, i);
+      const chapterContext = outline.length > 0 ? getOutlinePath(outline, pageNumber) : getChapterContext(translated, i);
+      const pageOutline = getOutlineHeadingsForPage(outline, pageNumber);
+      const pageGlossary = glossary ? selectEntriesForText(glossary, page.pageText.text) : [];
+      const previousResult = translated[i - 1];
+
+      const pageResult = await processPage(provider, {
+        pageNumber,
+        content: page.content,
+        previousContext,
+        previousContextSource,
+        chapterContext,
+        chapterContextSource: outline.length > 0 ? 'outline' : 'pages',
+        glossary: pageGlossary.length > 0 ? pageGlossary : undefined,
+        outlineHeadings: pageOutline.length > 0 ? pageOutline : undefined,
+        reviewerNote: options.reviewerNote
+      }, 3, undefined, {
+        minScore: runOptions.minQuality,
+        sourceText: page.content.kind === 'text' ? page.pageText.text : undefined,
+        previousTranslation: previousResult?.status === 'OK' && previousResult.pageNumber === pageNumber - 1
+          ? previousResult.translation
+          : undefined
+      });
+
+      if (pageResult.status !== 'OK' && translated[i]?.status === 'OK') {
+        console.warn(`❌ Page ${pageNumber}: re-translation failed, the saved translation is kept\n`);
+        continue;
+      }
+
+      const result: TranslationResult = {
+        ...applyOutlineHeadings(pageResult, pageOutline, outlineDepth),
+        review: {
+          action: 'retranslated',
+          ...(options.reviewerNote ? { note: options.reviewerNote } : {}),
+          reviewedAt: new Date().toISOString()
+        }
+      };
+      translated[i] = result;
+      await savePageRecord(journal, {
+        pageNumber,
+        result,
+        previousContext,
+        chapterContext,
+        sourceHash: hashPageContent(pageNumber, page.content, options.render),
+        completedAt: new Date().toISOString()
+      });
+      changedPages.push(pageNumber);
+      console.log(`✅ Page ${pageNumber} re-translated (${result.status})\n`);
+    } catch (error) {
+      console.error(`❌ Error on page ${pageNumber}:`, error);
+      if (translated[i]?.status === 'OK') {
+        console.warn(`❌ Page ${pageNumber}: re-translation failed, the saved translation is kept\n`);
+        continue;
+      }
+
+      const { strings } = getRunLanguages(runOptions).target;
+      const failedResult: TranslationResult = {
+        pageNumber,
+        translation: strings.pageError(pageNumber),
+        summary: 'FAILED',
+        articleTitle: strings.error,
+        chapterTitle: '',
+        sectionTitle: '',
+        status: 'FAILED',
+        review: {
+          action: 'retranslated',
+          ...(options.reviewerNote ? { note: options.reviewerNote } : {}),
+          reviewedAt: new Date().toISOString()
+        }
+      };
+      translated[i] = failedResult;
+      await savePageRecord(journal, {
+        pageNumber,
+        result: failedResult,
+        previousContext: '',
+        chapterContext: '',
+        sourceHash: hashPageContent(pageNumber, page.content, options.render),
+        completedAt: new Date().toISOString()
+      });
+      changedPages.push(pageNumber);
+    } finally {
+      ledger.release(reservedUsd);
+      if (page.content.kind === 'image' && !options.bilingual) {
+        await renderer.release(pageNumber);
+      }
+    }
+  }
+
+  await rebuildOutputs(session, changedPages, stoppedByBudget);
+  return stoppedByBudget ? EXIT_CODES.BUDGET : EXIT_CODES.OK;
+};
+
+/** Page fields an override file may set */
+const OVERRIDE_FIELDS = [
+  'translation',
+  'summary',
+  'articleTitle',
+  'chapterTitle',
+  'sectionTitle',
+  'headings',
+  'footnotes',
+  'bibliography',
+  'tables',
+  'figures'
+] as const;
+
+/**
+ * Read an override file: JSON with page fields (or a page record copied from the run's
+ * pages/ directory), otherwise plain text that replaces the translation
+ */
+export const readOverrideFile = async (filePath: string): Promise<Partial<TranslationResult>> => {
+  if (!(await fs.pathExists(filePath))) {
+    throw new CliError(`Override file not found: ${filePath}`, EXIT_CODES.NOT_FOUND);
+  }
+  const text = await fs.readFile(filePath, 'utf-8');
+
+  if (path.extname(filePath).toLowerCase() !== '.json') {
+    const translation = text.replace(/^\uFEFF/, '').trim();
+    if (!translation) {
+      throw new CliError(`Override file is empty: ${filePath}`);
+    }
+    return { translation };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new CliError(`Override file is not valid JSON: ${filePath} (${error instanceof Error ? error.message : error})`);
+  }
+  const record = data as { result?: unknown };
+  const fields = (record && typeof record.result === 'object' ? record.result : data) as Record<string, unknown>;
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    throw new CliError(`Override file must hold a JSON object of page fields: ${filePath}`);
+  }
+
+  const override: Record<string, unknown> = {};
+  for (const field of OVERRIDE_FIELDS) {
+    if (field in fields) override[field] = fields[field];
+  }
+  if (Object.keys(override).length === 0) {
+    throw new CliError(`Override file sets none of: ${OVERRIDE_FIELDS.join(', ')}`);
+  }
+
+  // Same checks as a page response (the fields it does not set get placeholders), so a
+  // malformed field never reaches the saved run and the renderers
+  let validated: PageTranslation;
+  try {
+    validated = validatePageTranslation({ translation: '-', summary: '-', articleTitle: '', ...override });
+  } catch (error) {
+    if (error instanceof ResponseValidationError) {
+      throw new CliError(`Override file ${path.basename(filePath)}: ${error.issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`);
+    }
+    throw error;
+  }
+  return Object.fromEntries(Object.keys(override).map(field => [field, validated[field as keyof PageTranslation]]));
+};
+
+/**
+ * --override FILE: replace the translation of one page of a saved run, then rebuild the outputs
+ */
+export const runOverride = async (options: CliOptions): Promise<number> => {
+  const overridePath = path.resolve(options.overridePath!);
+  const override = await readOverrideFile(overridePath);
+  const [pageNumber] = options.pages!;
+
+  const session = await openReviewSession(options);
+  const { journal } = session;
+  const record = journal.pages.get(pageNumber);
+  if (!record) {
+    throw new CliError(`Page ${pageNumber} is not in ${journal.dir} - translate it first`, EXIT_CODES.NOT_FOUND);
+  }
+
+  // A hand-edited page is a finished page; the retry count and parts of the replaced one no longer apply
+  const result: TranslationResult = {
+    ...record.result,
+    ...override,
+    pageNumber,
+    status: 'OK',
+    retryCount: 0,
+    review: {
+      action: 'overridden',
+      file: path.basename(overridePath),
+      reviewedAt: new Date().toISOString()
+    }
+  };
+  delete result.parts;
+  await savePageRecord(journal, { ...record, result, completedAt: new Date().toISOString() });
+  console.log(`✏️  Page ${pageNumber}: ${Object.keys(override).join(', ')} replaced from ${path.basename(overridePath)}\n`);
+
+  await rebuildOutputs(session, [pageNumber], false);
+  return EXIT_CODES.OK;
+};
+
+/**
+ * --rebuild: write the outputs of a saved run again (e.g. after editing its pages, or in
+ * other formats); saved summaries are reused
+ */
+export const runRebuild = async (options: CliOptions): Promise<number> => {
+  const session = await openReviewSession(options);
+  await rebuildOutputs(session, [], false);
+  return EXIT_CODES.OK;
+};
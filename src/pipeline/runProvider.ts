@@ -0,0 +1,58 @@
+import path from 'path';
+import { createProviderFromEnv, getProviderConfigFromEnv, getProviderLanguages, withRateLimit } from '../providers';
+import type { TranslationProvider } from '../providers';
+import type { LanguagePair } from '../i18n';
+import { createRateLimiter } from '../utils/rateLimiter';
+import { loadPriceTable, getModelPricing } from '../utils/costEstimate';
+import type { PriceTable } from '../utils/costEstimate';
+import { createUsageLedger } from '../utils/usageLedger';
+import type { UsageLedger } from '../utils/usageLedger';
+import { CliError, EXIT_CODES, getIntegerEnv } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+
+/**
+ * Usage ledger for a run: price table (--prices / MODEL_PRICES_PATH) and --budget
+ * @param model - Model the run will use; --budget needs a known price for it
+ */
+export const createRunLedger = async (options: CliOptions, model: string): Promise<UsageLedger> => {
+  let priceTable: PriceTable;
+  try {
+    priceTable = await loadPriceTable(options.pricesPath && path.resolve(options.pricesPath));
+  } catch (error) {
+    throw new CliError(`Cannot read price table: ${error instanceof Error ? error.message : error}`, EXIT_CODES.NOT_FOUND);
+  }
+
+  if (options.budgetUsd !== undefined && !getModelPricing(model, priceTable)) {
+    throw new CliError(`--budget needs a price for model "${model}" (add it with --prices FILE)`);
+  }
+  return createUsageLedger(priceTable, options.budgetUsd);
+};
+
+/**
+ * Provider for a run, with every call going through one shared adaptive limiter
+ * (RPM/TPM budgets from flags or the environment, backs off on 429)
+ * @param ledger - Receives the token usage of every call
+ */
+export const createRunProvider = (options: CliOptions, ledger?: UsageLedger): TranslationProvider => {
+  const rateLimiter = createRateLimiter({
+    requestsPerMinute: options.rpm ?? getIntegerEnv('RATE_LIMIT_RPM', 60),
+    tokensPerMinute: options.tpm ?? getIntegerEnv('RATE_LIMIT_TPM', 90000)
+  });
+  const overrides = {
+    model: options.model,
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: options.targetLanguage,
+    promptsDir: options.promptsDir && path.resolve(options.promptsDir)
+  };
+  return withRateLimit(createProviderFromEnv(overrides, ledger?.record), rateLimiter);
+};
+
+/**
+ * Language pair of a run: --source-lang/--target-lang, then SOURCE_LANGUAGE/TARGET_LANGUAGE
+ */
+export const getRunLanguages = (options: CliOptions): LanguagePair => {
+  return getProviderLanguages(getProviderConfigFromEnv({
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: options.targetLanguage
+  }));
+};
@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import { buildSummaryDocument, getPageText } from '../renderers';
+import type { SummaryDocument, SummaryChapter, SummarySection } from '../renderers';
+import type { TranslationResult } from '../utils/pageProcessor';
+import type { GlossaryEntry } from '../utils/glossary';
+import { getProviderLanguages, loadPromptTemplate } from '../providers';
+import type { TranslationProvider, SummaryLength, SummaryRollupRequest, PromptName } from '../providers';
+import { saveSummaryRecord } from '../utils/runJournal';
+import type { RunJournal, SummaryRecord } from '../utils/runJournal';
+import { DEFAULT_LANGUAGES } from '../i18n';
+import type { UiStrings } from '../i18n';
+
+export interface ChunkData {
+  title: string;
+  /** Chapter the chunk belongs to ('' before the first chapter heading) */
+  chapter: string;
+  text: string;
+  pages: number[];
+}
+
+/**
+ * Target length per level of the summary tree; chapter and document summaries can be turned off
+ */
+export interface SummaryLengths {
+  section: SummaryLength;
+  chapter: SummaryLength | 'off';
+  document: SummaryLength | 'off';
+}
+
+export const DEFAULT_SUMMARY_LENGTHS: SummaryLengths = {
+  section: 'detailed',
+  chapter: 'brief',
+  document: 'detailed'
+};
+
+const SUMMARY_LENGTH_NAMES: SummaryLength[] = ['abstract', 'brief', 'detailed'];
+
+/**
+ * Parse a --summary-length value: one length for every level ("brief"), or
+ * level=length pairs ("section=brief,chapter=abstract,document=off"); unlisted levels keep their default
+ */
+export const parseSummaryLengths = (value: string): SummaryLengths => {
+  const lengths: SummaryLengths = { ...DEFAULT_SUMMARY_LENGTHS };
+  const parseLength = (raw: string, allowOff: boolean): SummaryLength | 'off' => {
+    const length = raw.trim().toLowerCase();
+    if (SUMMARY_LENGTH_NAMES.includes(length as SummaryLength) || (allowOff && length === 'off')) {
+      return length as SummaryLength | 'off';
+    }
+    throw new Error(`Invalid summary length "${raw}" (expected ${SUMMARY_LENGTH_NAMES.join(', ')}${allowOff ? ' or off' : ''})`);
+  };
+
+  if (!value.includes('=')) {
+    const length = parseLength(value, false) as SummaryLength;
+    return { section: length, chapter: length, document: length };
+  }
+
+  for (const pair of value.split(',').filter(part => part.trim())) {
+    const [level, raw = ''] = pair.split('=');
+    switch (level.trim().toLowerCase()) {
+      case 'section':
+        lengths.section = parseLength(raw, false) as SummaryLength;
+        break;
+      case 'chapter':
+        lengths.chapter = parseLength(raw, true);
+        break;
+      case 'document':
+        lengths.document = parseLength(raw, true);
+        break;
+      default:
+        throw new Error(`Unknown summary level "${level}" (expected section, chapter or document)`);
+    }
+  }
+  return lengths;
+};
+
+/**
+ * "section=detailed, chapter=brief, document=detailed" for logs
+ */
+export const formatSummaryLengths = (lengths: SummaryLengths): string => {
+  return `section=${lengths.section}, chapter=${lengths.chapter}, document=${lengths.document}`;
+};
+
+/**
+ * Group pages into chunks with their chapter/section context
+ * @param strings - Target-language labels (title of pages outside any chapter or section)
+ */
+export const createChunks = (
+  results: TranslationResult[],
+  maxChars: number = 10000,
+  strings: UiStrings = DEFAULT_LANGUAGES.target.strings
+): ChunkData[] => {
+  const chunks: ChunkData[] = [];
+  let currentChunk: ChunkData = { title: '', chapter: '', text: '', pages: [] };
+  let currentChapter = '';
+  let currentSection = '';
+
+  for (const result of results) {
+    // Reference lists are left out of the summary
+    if (result.status !== 'OK' || result.bibliography) continue;
+
+    // Update chapter/section tracking
+    if (result.chapterTitle) {
+      currentChapter = result.chapterTitle;
+      currentSection = ''; // Reset section on new chapter
+    }
+    if (result.sectionTitle) {
+      currentSection = result.sectionTitle;
+    }
+
+    // Determine title for this content
+    const contentTitle = currentChapter 
+      ? (currentSection ? `${currentChapter} > ${currentSection}` : currentChapter)
+      : (currentSection || strings.generalContent);
+
+    // If adding this page exceeds limit or title changed, start new chunk
+    const titleChanged = currentChunk.title && currentChunk.title !== contentTitle;
+    const pageText = getPageText(result, strings);
+    const wouldExceedLimit = (currentChunk.text.length + pageText.length) > maxChars;
+
+    if ((titleChanged || wouldExceedLimit) && currentChunk.text) {
+      chunks.push({ ...currentChunk });
+      currentChunk = { title: contentTitle, chapter: currentChapter, text: '', pages: [] };
+    }
+
+    // If no title set yet, set it
+    if (!currentChunk.title) {
+      currentChunk.title = contentTitle;
+      currentChunk.chapter = currentChapter;
+    }
+
+    // Add to current chunk
+    currentChunk.text += pageText + '\n\n';
+    currentChunk.pages.push(result.pageNumber);
+  }
+
+  // Add last chunk
+  if (currentChunk.text) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+};
+
+/**
+ * Summarize a single chunk
+ * @returns The summary, or null if it failed
+ */
+const summarizeChunk = async (
+  provider: TranslationProvider,
+  chunk: ChunkData,
+  chunkIndex: number,
+  totalChunks: number,
+  length: SummaryLength,
+  glossary?: GlossaryEntry[]
+): Promise<string | null> => {
+  try {
+    console.log(`\n🔄 Summarizing chunk ${chunkIndex + 1}/${totalChunks}: ${chunk.title}`);
+    console.log(`   Pages: ${chunk.pages[0]}-${chunk.pages[chunk.pages.length - 1]} (${chunk.text.length.toLocaleString()} chars)`);
+
+    const summary = await provider.summarizeChunk({
+      title: chunk.title,
+      text: chunk.text,
+      pages: chunk.pages,
+      chunkIndex,
+      totalChunks,
+      length,
+      glossary
+    });
+
+    console.log(`✅ Chunk ${chunkIndex + 1} summarized (${summary.length} chars)`);
+    return summary;
+
+  } catch (error) {
+    console.error(`❌ Error summarizing chunk ${chunkIndex + 1}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Combine summaries into one chapter or document summary
+ * @returns The summary, or null if it failed
+ */
+const summarizeRollup = async (provider: TranslationProvider, request: SummaryRollupRequest): Promise<string | null> => {
+  try {
+    console.log(`\n🔄 Summarizing ${request.level}: ${request.title} (${request.parts.length} parts, ${request.length})`);
+    const summary = await provider.summarizeRollup(request);
+    console.log(`✅ ${request.level === 'chapter' ? 'Chapter' : 'Document'} summarized (${summary.length} chars)`);
+    return summary;
+
+  } catch (error) {
+    console.error(`❌ Error summarizing ${request.level} ${request.title}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Key of a saved summary: everything its prompt is built from except the chunk numbering,
+ * so a chunk keeps its summary when chunks before it change
+ */
+const getSummaryKey = (provider: TranslationProvider, prompt: PromptName, input: unknown): string => {
+  const { config } = provider;
+  return crypto.createHash('sha256').update(JSON.stringify({
+    prompt,
+    promptHash: loadPromptTemplate(prompt, config.promptsDir).hash,
+    provider: provider.name,
+    model: config.model,
+    sourceLanguage: config.sourceLanguage,
+    targetLanguage: config.targetLanguage,
+    input
+  })).digest('hex');
+};
+
+/**
+ * Chunk the translated pages, summarize every chunk, then roll the chunk summaries up
+ * into chapter summaries and the chapters into an executive summary of the document
+ * @param chunkSize - Maximum characters of translation per chunk
+ * @param lengths - Target length per level (chapter/document levels can be off)
+ * @param journal - Run whose saved summaries are reused, and where new ones are saved
+ */
+export const summarizeResults = async (
+  provider: TranslationProvider,
+  results: TranslationResult[],
+  chunkSize: number,
+  glossary?: GlossaryEntry[],
+  lengths: SummaryLengths = DEFAULT_SUMMARY_LENGTHS,
+  journal?: RunJournal
+): Promise<SummaryDocument> => {
+  const languages = getProviderLanguages(provider.config);
+  const { strings } = languages.target;
+  const glossaryTerms = (glossary || []).map(entry => [entry.source, entry.target, entry.keepEnglish]);
+  let reused = 0;
+
+  /**
+   * The saved summary for a key, or a new one (saved unless it failed)
+   */
+  const getSummary = async (
+    key: string,
+    record: Omit<SummaryRecord, 'summary' | 'completedAt'>,
+    summarize: () => Promise<string | null>
+  ): Promise<string> => {
+    const saved = journal?.summaries.get(key);
+    if (saved) {
+      reused++;
+      console.log(`♻️  ${record.level === 'section' ? 'Chunk' : record.level === 'chapter' ? 'Chapter' : 'Document'} summary reused from the run: ${record.title}`);
+      return saved.summary;
+    }
+
+    const summary = await summarize();
+    if (summary === null) {
+      return strings.summaryError(record.title);
+    }
+    if (journal) {
+      await saveSummaryRecord(journal, key, { ...record, summary, completedAt: new Date().toISOString() });
+    }
+    return summary;
+  };
+
+  console.log('📋 Step 5: Creating structured summary by chunks...');
+  const chunks = createChunks(results, chunkSize, strings);
+  console.log(`✅ Created ${chunks.length} chunks:\n`);
+  chunks.forEach((chunk, i) => {
+    console.log(`   ${i + 1}. ${chunk.title}`);
+    console.log(`      Pages: ${chunk.pages[0]}-${chunk.pages[chunk.pages.length - 1]} (${chunk.text.length.toLocaleString()} chars)`);
+  });
+  console.log('');
+
+  console.log(`📋 Step 6: Summarizing each chunk (${formatSummaryLengths(lengths)})...`);
+  const chunkSummaries: string[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const key = getSummaryKey(provider, 'chunk-summary', {
+      title: chunk.title,
+      pages: chunk.pages,
+      text: chunk.text,
+      length: lengths.section,
+      glossary: glossaryTerms
+    });
+    const summary = await getSummary(key, { level: 'section', title: chunk.title, pages: chunk.pages }, () =>
+      summarizeChunk(provider, chunk, i, chunks.length, lengths.section, glossary));
+    chunkSummaries.push(summary);
+  }
+  console.log('');
+
+  const document = buildSummaryDocument(results, chunks, chunkSummaries, languages);
+
+  // Chapter summaries (the untitled pages before the first chapter have none)
+  const chapterLength = lengths.chapter;
+  const chapters: SummaryChapter[] = [];
+  for (const chapter of document.chapters) {
+    if (chapterLength === 'off' || !chapter.title) {
+      chapters.push(chapter);
+      continue;
+    }
+    const request: SummaryRollupRequest = {
+      level: 'chapter',
+      title: chapter.title,
+      pages: chapter.pages,
+      parts: chapter.sections,
+      length: chapterLength,
+      glossary
+    };
+    const key = getSummaryKey(provider, 'summary-rollup', { ...request, glossary: glossaryTerms });
+    const summary = await getSummary(key, { level: 'chapter', title: chapter.title, pages: chapter.pages }, () =>
+      summarizeRollup(provider, request));
+    chapters.push({ ...chapter, summary });
+  }
+
+  // Executive summary from the chapter summaries (section summaries where a chapter has none)
+  const documentLength = lengths.document;
+  let overview: SummarySection | undefined;
+  if (documentLength !== 'off' && chapters.length > 0) {
+    const parts = chapters.flatMap(chapter => (chapter.summary ? [chapter] : chapter.sections));
+    const pages = chapters.flatMap(chapter => chapter.pages);
+    const request: SummaryRollupRequest = {
+      level: 'document',
+      title: document.title || strings.overview,
+      pages,
+      parts,
+      length: documentLength,
+      glossary
+    };
+    const key = getSummaryKey(provider, 'summary-rollup', { ...request, glossary: glossaryTerms });
+    const summary = await getSummary(key, { level: 'document', title: request.title, pages }, () =>
+      summarizeRollup(provider, request));
+    overview = { title: strings.overview, pages, summary };
+  }
+  console.log('');
+  if (reused > 0) {
+    console.log(`♻️  ${reused} summar${reused === 1 ? 'y' : 'ies'} reused from the run; only changed chunks were summarized again\n`);
+  }
+
+  return { ...document, chapters, overview };
+};
@@ -0,0 +1,66 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { writeOutputs } from '../renderers';
+import { estimateSummaryCost } from '../utils/costEstimate';
+import { buildUsageReport, formatUsageTable, formatUsd } from '../utils/usageLedger';
+import { getProviderConfigFromEnv } from '../providers';
+import { CliError, EXIT_CODES } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+import { summarizeResults } from './summary';
+import { createRunProvider, createRunLedger } from './runProvider';
+import { createTimestamp, loadRunGlossary } from './translate';
+import { loadSavedRun } from './review';
+
+/**
+ * --summary-only: summarize the pages of an earlier run without translating anything
+ * @param options - `input` is the translated PDF or its run directory
+ */
+export const runSummaryOnly = async (options: CliOptions): Promise<void> => {
+  const { journal, runOptions } = await loadSavedRun(options);
+
+  const results = [...journal.pages.values()]
+    .map(record => record.result)
+    .filter(result => !options.pages || options.pages.includes(result.pageNumber))
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+  const okCount = results.filter(result => result.status === 'OK').length;
+  if (okCount === 0) {
+    throw new CliError(`Run ${journal.dir} has no translated pages${options.pages ? ' in the selected range' : ''}`, EXIT_CODES.NOT_FOUND);
+  }
+
+  console.log(`📁 Run: ${journal.dir} (${journal.manifest.status === 'COMPLETE' ? 'complete' : 'unfinished'})`);
+  console.log(`📑 ${okCount} translated page(s) of ${journal.manifest.pageCount}\n`);
+
+  const ledger = await createRunLedger(options, getProviderConfigFromEnv({ model: options.model }).model);
+  const provider = createRunProvider(runOptions, ledger);
+  console.log(`✅ Environment loaded (provider: ${provider.name}, model: ${provider.config.model})\n`);
+  const glossary = await loadRunGlossary(options);
+
+  const outDir = path.resolve(options.outDir);
+  await fs.ensureDir(outDir);
+
+  const summaryCostUsd = estimateSummaryCost(
+    results.reduce((sum, result) => sum + result.translation.length, 0),
+    provider.config,
+    { chunkSize: options.chunkSize, priceTable: ledger.priceTable }
+  );
+  console.log(`💵 Estimated summary cost: ~${formatUsd(summaryCostUsd)}\n`);
+  if (!ledger.tryReserve(summaryCostUsd ?? 0)) {
+    throw new CliError(`Summary would cost ~${formatUsd(summaryCostUsd)}, more than --budget ${formatUsd(ledger.budgetUsd ?? 0)}`, EXIT_CODES.BUDGET);
+  }
+
+  const summaryDocument = await summarizeResults(provider, results, options.chunkSize, glossary?.entries, options.summaryLengths, journal);
+  const outputs = await writeOutputs(options.formats, outDir, createTimestamp(), null, summaryDocument);
+
+  console.log('📋 COMPLETE');
+  console.log('='.repeat(80));
+  console.log(`✅ Chunks summarized: ${summaryDocument.chapters.reduce((sum, chapter) => sum + chapter.sections.length, 0)}`);
+  console.log(`✅ Chapter summaries: ${summaryDocument.chapters.filter(chapter => chapter.summary).length}${summaryDocument.overview ? ' (+ executive summary)' : ''}`);
+  console.log(`\n💵 USAGE`);
+  console.log(formatUsageTable(buildUsageReport(ledger.events, ledger.priceTable, { budgetUsd: ledger.budgetUsd, stoppedByBudget: false })));
+  console.log(`\n📄 OUTPUT FILES:`);
+  outputs.forEach((output, i) => {
+    console.log(`   ${i + 1}. ${path.basename(output.path)} (${output.bytes.toLocaleString()} bytes)`);
+  });
+  console.log('='.repeat(80));
+  console.log('\n🎉 Done!\n');
+};
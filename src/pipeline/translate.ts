@@ -0,0 +1,492 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { preparePages, cleanupTempFiles, getPdfPageCount, formatRenderSettings } from '../utils/pdfProcessorJS';
+import { processPage } from '../utils/pageProcessor';
+import type { TranslationResult } from '../utils/pageProcessor';
+import { runWithConcurrency } from '../utils/workerPool';
+import { createTranslationCache, formatCacheStats } from '../utils/translationCache';
+import { estimateRunCost } from '../utils/costEstimate';
+import { buildUsageReport, formatUsageTable, formatUsd, writeUsageReport } from '../utils/usageLedger';
+import type { UsageLedger } from '../utils/usageLedger';
+import { getProviderConfigFromEnv, getProviderLanguages, loadPromptTemplate } from '../providers';
+import {
+  loadGlossary,
+  selectEntriesForText,
+  containsTerm
+} from '../utils/glossary';
+import type { Glossary, GlossaryEntry } from '../utils/glossary';
+import {
+  mineGlossary,
+  getInconsistentTerms,
+  getAffectedPages,
+  patchInconsistentTerms,
+  toGlossary,
+  formatInconsistencyReport
+} from '../utils/glossaryMining';
+import {
+  openRunJournal,
+  setRunPageCount,
+  getCompletedPage,
+  getResumePage,
+  savePageRecord,
+  markRunComplete,
+  hashPageContent
+} from '../utils/runJournal';
+import { CliError, EXIT_CODES, getIntegerEnv, validatePageSelection } from '../cli/options';
+import type { CliOptions } from '../cli/options';
+import { getPreviousContext, getChapterContext } from './context';
+import {
+  readPdfOutline,
+  getOutlineDepth,
+  getOutlineHeadingsForPage,
+  getOutlinePath,
+  applyOutlineHeadings
+} from '../utils/pdfOutline';
+import { isBibliographyPage, createBibliographyResult } from '../utils/bibliography';
+import { writeRunOutputs } from './outputs';
+import { createRunProvider, createRunLedger } from './runProvider';
+
+/**
+ * Output file timestamp, e.g. 2024-11-02T14-03-11
+ */
+export const createTimestamp = (): string => new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+
+/**
+ * Resolve the input PDF or fail with a NOT_FOUND CliError
+ */
+export const resolveInputPdf = async (input: string): Promise<string> => {
+  const fullPdfPath = path.resolve(input);
+  if (!(await fs.pathExists(fullPdfPath))) {
+    throw new CliError(`PDF not found: ${fullPdfPath}`, EXIT_CODES.NOT_FOUND);
+  }
+  return fullPdfPath;
+};
+
+/**
+ * Optional terminology glossary (--glossary or GLOSSARY_PATH)
+ */
+export const loadRunGlossary = async (options: CliOptions): Promise<Glossary | undefined> => {
+  const glossaryPath = options.glossaryPath || process.env.GLOSSARY_PATH;
+  if (!glossaryPath) return undefined;
+
+  const fullPath = path.resolve(glossaryPath);
+  if (!(await fs.pathExists(fullPath))) {
+    throw new CliError(`Glossary not found: ${fullPath}`, EXIT_CODES.NOT_FOUND);
+  }
+  const glossary = await loadGlossary(fullPath);
+  console.log(`📖 Glossary: ${glossary.entries.length} terms from ${glossaryPath}\n`);
+  return glossary;
+};
+
+/**
+ * What a finished translation run produced (used by the batch manifest)
+ */
+export interface TranslationRunReport {
+  pdfPath: string;
+  pageCount: number;
+  pagesProcessed: number;
+  failedPages: number[];
+  /** Every file written to the output directory */
+  outputPaths: string[];
+  runDir: string;
+  /** Spend of this run (null when the model's price is unknown) */
+  costUsd: number | null;
+  /** --budget was reached: some pages (or the summary) were not done */
+  stoppedByBudget: boolean;
+}
+
+/**
+ * Full run: translate the selected pages, summarize and write every requested output
+ * @param sharedLedger - Usage ledger shared across documents (batch mode); one is created otherwise
+ */
+export const runTranslation = async (options: CliOptions, sharedLedger?: UsageLedger): Promise<TranslationRunReport> => {
+  const fullPdfPath = await resolveInputPdf(options.input);
+  const pageCount = await getPdfPageCount(fullPdfPath);
+  if (options.pages) {
+    validatePageSelection(options.pages, pageCount);
+  }
+
+  const concurrency = options.concurrency ?? getIntegerEnv('TRANSLATION_CONCURRENCY', 3);
+  const ledger = sharedLedger ?? await createRunLedger(options, getProviderConfigFromEnv({ model: options.model }).model);
+  const firstUsageEvent = ledger.events.length;
+  const provider = createRunProvider(options, ledger);
+  const languages = getProviderLanguages(provider.config);
+  const { strings } = languages.target;
+  console.log(`✅ Environment loaded (provider: ${provider.name}, model: ${provider.config.model})`);
+  console.log(`🌐 Languages: ${languages.source.name} → ${languages.target.name}`);
+  if (provider.config.promptsDir) {
+    const template = loadPromptTemplate('page', provider.config.promptsDir);
+    console.log(`📝 Prompt templates: ${provider.config.promptsDir} (page prompt ${template.custom ? 'custom' : 'bundled'}, version ${template.version})`);
+  }
+  console.log('');
+
+  const outDir = path.resolve(options.outDir);
+  await fs.ensureDir(outDir);
+
+  console.log(`📄 PDF: ${path.basename(fullPdfPath)}`);
+  console.log(`📑 Pages: ${options.pages ? `${options.pages.length} of ${pageCount} selected` : `all ${pageCount}`}`);
+  console.log(`📂 Output directory: ${outDir}\n`);
+
+  const glossary = await loadRunGlossary(options);
+
+  const cache = options.cache ? createTranslationCache() : undefined;
+  console.log(cache ? `💾 Translation cache: ${cache.dir}\n` : '💾 Translation cache disabled (--no-cache)\n');
+
+  // Open (or resume) the checkpoint journal for this PDF, kept with the outputs in --out
+  const journal = await openRunJournal(path.join(outDir, 'runs'), fullPdfPath, languages);
+  if (journal.resumed) {
+    console.log(`♻️  Resuming unfinished run: ${journal.dir}`);
+    console.log(`   ${journal.pages.size} page(s) already recorded\n`);
+  } else {
+    console.log(`📁 Run directory: ${journal.dir}\n`);
+  }
+
+  // Step 3: Extract text layer / convert pages to images
+  console.log('📋 Step 2: Preparing pages (text layer or image)...');
+  const tempDir = path.join(outDir, 'temp_pages');
+  const { pages, renderer } = await preparePages(fullPdfPath, tempDir, options.mode, options.pages, options.render);
+  await setRunPageCount(journal, pageCount);
+  const textPageCount = pages.filter(page => page.content.kind === 'text').length;
+  console.log(`✅ Prepared ${pages.length} pages (${textPageCount} text, ${pages.length - textPageCount} image)`);
+  if (textPageCount < pages.length) {
+    console.log(`🖼️  Image pages are rendered as they are translated (${formatRenderSettings(options.render)})`);
+  }
+  console.log('');
+
+  // The PDF's bookmarks, when present, are the ground truth for chapters and sections
+  const outline = await readPdfOutline(fullPdfPath);
+  const outlineDepth = getOutlineDepth(outline);
+  console.log(outline.length > 0
+    ? `🗂️  PDF outline: ${outline.length} heading(s), ${outlineDepth} level(s) - used as the document structure\n`
+    : '🗂️  No PDF outline: headings are detected page by page\n');
+
+  if (journal.resumed) {
+    const resumePage = getResumePage(journal, pageCount, options.pages);
+    console.log(resumePage
+      ? `♻️  Resuming from page ${resumePage}\n`
+      : '♻️  All pages already translated, rebuilding outputs\n');
+  }
+
+  // Step 4: Translate all pages
+  console.log(`📋 Step 3: Translating ${pages.length} pages with chapter detection...\n`);
+
+  const translated: (TranslationResult | undefined)[] = new Array(pages.length);
+  const indexByPage = new Map(pages.map((page, i) => [page.pageNumber, i]));
+  const sourceHashes: string[] = [];
+  const pendingIndexes: number[] = [];
+
+  for (let i = 0; i < pages.length; i++) {
+    sourceHashes[i] = hashPageContent(pages[i].pageNumber, pages[i].content, options.render);
+
+    // Reuse pages finished by an earlier, interrupted run
+    const completed = getCompletedPage(journal, pages[i].pageNumber, sourceHashes[i]);
+    if (completed) {
+      translated[i] = completed.result;
+    } else {
+      pendingIndexes.push(i);
+    }
+  }
+
+  console.log(`⚙️  ${pendingIndexes.length} page(s) to translate, ${concurrency} at a time\n`);
+
+  // Reference lists with a text layer are copied through untranslated, without an API call
+  const bibliographyIndexes = new Set(pendingIndexes.filter(i => pages[i].content.kind === 'text' && isBibliographyPage(pages[i].pageText)));
+  if (bibliographyIndexes.size > 0) {
+    const pageList = [...bibliographyIndexes].map(i => pages[i].pageNumber).join(', ');
+    console.log(`📚 ${bibliographyIndexes.size} bibliography page(s) kept in ${languages.source.name} (no API call): ${pageList}\n`);
+  }
+
+  // Pre-flight estimate for the pages still to do (cache hits will make it cheaper)
+  const estimatePage = (i: number) => estimateRunCost(
+    [{ kind: pages[i].content.kind, textLength: pages[i].content.kind === 'text' ? pages[i].pageText.text.length : 0 }],
+    provider.config,
+    { chunkSize: options.chunkSize, summary: false, priceTable: ledger.priceTable }
+  );
+  const estimate = estimateRunCost(
+    pendingIndexes.filter(i => !bibliographyIndexes.has(i)).map(i => ({ kind: pages[i].content.kind, textLength: pages[i].content.kind === 'text' ? pages[i].pageText.text.length : 0 })),
+    provider.config,
+    { chunkSize: options.chunkSize, summary: options.summary, priceTable: ledger.priceTable }
+  );
+  console.log(`💵 Pre-flight estimate: ~${formatUsd(estimate.costUsd)} (~${estimate.inputTokens.toLocaleString()} input, ~${estimate.outputTokens.toLocaleString()} output tokens)`);
+  if (ledger.budgetUsd !== undefined) {
+    const remaining = ledger.budgetUsd - ledger.getSpentUsd();
+    console.log(estimate.costUsd !== null && estimate.costUsd > remaining
+      ? `⚠️  Estimate exceeds the remaining budget (${formatUsd(remaining)}); the run will stop when the budget is reached\n`
+      : `✅ Within budget (${formatUsd(remaining)} remaining)\n`);
+  } else {
+    console.log('');
+  }
+
+  // Set once a page (or the summary) is refused for budget; no new work starts after that
+  let stoppedByBudget = false;
+
+  // Image pages in translation order: each page starts rendering the next ones (one per worker)
+  const imageIndexes = pendingIndexes.filter(i => pages[i].content.kind === 'image');
+
+  /**
+   * Translate page index `i`, record it in the journal and in `translated`
+   * @param extraGlossary - Entries added on top of the user glossary (mined terms)
+   */
+  const translatePageAt = async (i: number, extraGlossary: GlossaryEntry[] = []): Promise<void> => {
+    const pageNumber = pages[i].pageNumber;
+    const sourceHash = sourceHashes[i];
+
+    // Reserve the page's projected cost; finished pages stay saved in the journal
+    const bibliography = bibliographyIndexes.has(i);
+    const reservedUsd = bibliography ? 0 : estimatePage(i).costUsd ?? 0;
+    if (stoppedByBudget || !ledger.tryReserve(reservedUsd)) {
+      if (!stoppedByBudget) {
+        console.warn(`💵 Budget reached (${formatUsd(ledger.getSpentUsd())} of ${formatUsd(ledger.budgetUsd ?? 0)} spent): not starting page ${pageNumber} or later pages`);
+      }
+      stoppedByBudget = true;
+      return;
+    }
+
+    console.log(`--- Page ${pageNumber}/${pageCount} (${pages[i].content.kind}) ---`);
+    const image = pages[i].content.kind === 'image';
+    renderer.prefetch(imageIndexes.filter(j => j > i).slice(0, concurrency).map(j => pages[j].pageNumber));
+
+    try {
+      if (image) {
+        await renderer.render(pageNumber);
+      }
+
+      const { previousContext, previousContextSource } = getPreviousContext(translated, pages, i);
+      const chapterContext = outline.length > 0 ? getOutlinePath(outline, pageNumber) : getChapterContext(translated, i);
+      const pageOutline = getOutlineHeadingsForPage(outline, pageNumber);
+
+      if (previousContext && !bibliography) {
+        console.log(`📝 Page ${pageNumber}: using ${previousContextSource} context (${previousContext.length} chars)`);
+      }
+      if (chapterContext && !bibliography) {
+        console.log(`📚 Page ${pageNumber}: chapter ${chapterContext}`);
+      }
+
+      const pageGlossary = [
+        ...(glossary ? selectEntriesForText(glossary, pages[i].pageText.text) : []),
+        ...extraGlossary
+      ];
+
+      // Quality checks compare with the English text layer and the previous page's translation
+      const previousResult = translated[i - 1];
+      const pageResult = bibliography ? createBibliographyResult(pageNumber, pages[i].pageText, strings) : await processPage(provider, {
+        pageNumber,
+        content: pages[i].content,
+        previousContext,
+        previousContextSource,
+        chapterContext,
+        chapterContextSource: outline.length > 0 ? 'outline' : 'pages',
+        glossary: pageGlossary.length > 0 ? pageGlossary : undefined,
+        outlineHeadings: pageOutline.length > 0 ? pageOutline : undefined
+      }, 3, cache, {
+        minScore: options.minQuality,
+        sourceText: pages[i].content.kind === 'text' ? pages[i].pageText.text : undefined,
+        previousTranslation: previousResult?.status === 'OK' && previousResult.pageNumber === pageNumber - 1
+          ? previousResult.translation
+          : undefined
+      });
+      const result = applyOutlineHeadings(pageResult, pageOutline, outlineDepth);
+
+      translated[i] = result;
+      await savePageRecord(journal, {
+        pageNumber,
+        result,
+        previousContext,
+        chapterContext,
+        sourceHash,
+        completedAt: new Date().toISOString()
+      });
+      console.log(bibliography
+        ? `📚 Page ${pageNumber}: bibliography, copied untranslated (no API call)\n`
+        : `✅ Page ${pageNumber} done (${result.status})\n`);
+
+    } catch (error) {
+      console.error(`❌ Error on page ${pageNumber}:`, error);
+      const failedResult: TranslationResult = {
+        pageNumber,
+        translation: strings.pageError(pageNumber),
+        summary: 'FAILED',
+        articleTitle: strings.error,
+        chapterTitle: '',
+        sectionTitle: '',
+        status: 'FAILED'
+      };
+      translated[i] = failedResult;
+      await savePageRecord(journal, {
+        pageNumber,
+        result: failedResult,
+        previousContext: '',
+        chapterContext: '',
+        sourceHash,
+        completedAt: new Date().toISOString()
+      });
+    } finally {
+      ledger.release(reservedUsd);
+      // The side-by-side output still needs the page image
+      if (image && !options.bilingual) {
+        await renderer.release(pageNumber);
+      }
+    }
+  };
+
+  await runWithConcurrency(pendingIndexes, concurrency, i => translatePageAt(i));
+
+  // Every page now has a result (unless the budget stopped the run); reassembled in page order
+  const getResults = (): TranslationResult[] => translated.filter((result): result is TranslationResult => result !== undefined);
+  let results = getResults();
+  if (results.length === 0 && stoppedByBudget) {
+    console.log('\n💵 Budget reached before any page was translated; nothing written. Raise --budget and run again.\n');
+    await renderer.close();
+    return {
+      pdfPath: fullPdfPath,
+      pageCount,
+      pagesProcessed: 0,
+      failedPages: [],
+      outputPaths: [],
+      runDir: journal.dir,
+      costUsd: 0,
+      stoppedByBudget
+    };
+  }
+  const timestamp = createTimestamp();
+  const sourceTexts = new Map(pages.map(page => [page.pageNumber, page.pageText.text]));
+
+  // Optional: mine recurring terms, report inconsistent renderings and fix them
+  let minedGlossaryFile = '';
+  if (options.mineGlossary && stoppedByBudget) {
+    console.log('⏭️  Glossary mining skipped (budget reached)\n');
+  } else if (options.mineGlossary) {
+    console.log('📋 Mining glossary and checking term consistency...');
+    const mined = await mineGlossary(provider, results, sourceTexts, glossary, { concurrency });
+    const inconsistent = getInconsistentTerms(mined);
+    console.log(formatInconsistencyReport(inconsistent));
+
+    if (options.fixTerms === 'patch') {
+      const patchedPages = patchInconsistentTerms(results, inconsistent);
+      for (const pageNumber of patchedPages) {
+        const record = journal.pages.get(pageNumber);
+        const result = translated[indexByPage.get(pageNumber)!];
+        if (record && result) await savePageRecord(journal, { ...record, result });
+      }
+      console.log(`🩹 Patched ${patchedPages.length} page(s)`);
+    } else if (options.fixTerms === 'retranslate') {
+      const affectedPages = getAffectedPages(inconsistent);
+      const canonicalEntries = toGlossary(inconsistent).entries;
+      console.log(`🔁 Re-translating ${affectedPages.length} page(s) with canonical terms...`);
+      await runWithConcurrency(affectedPages, concurrency, pageNumber => {
+        const i = indexByPage.get(pageNumber)!;
+        return translatePageAt(i, canonicalEntries.filter(entry =>
+          containsTerm(pages[i].pageText.text, entry.source)
+        ));
+      });
+      // translatePageAt replaced the re-translated pages in `translated`
+      results = getResults();
+    }
+
+    minedGlossaryFile = `glossary_mined_${timestamp}.json`;
+    await fs.writeJson(path.join(outDir, minedGlossaryFile), toGlossary(mined, glossary), { spaces: 2 });
+    console.log(`✅ Mined glossary saved: ${minedGlossaryFile} (${mined.length} terms)\n`);
+  }
+
+  const {
+    translationDocument,
+    summaryDocument,
+    outputs,
+    csvPath,
+    qualityReport,
+    qualityPaths,
+    glossaryViolationCount,
+    stoppedByBudget: stoppedAtSummary
+  } = await writeRunOutputs({
+    options,
+    provider,
+    ledger,
+    journal,
+    glossary,
+    results,
+    pages,
+    renderer,
+    pdfPath: fullPdfPath,
+    outDir,
+    timestamp,
+    stoppedByBudget
+  });
+  stoppedByBudget = stoppedAtSummary;
+
+  // Token usage and cost of this run (per page, per chunk, totals)
+  const usageReport = buildUsageReport(ledger.events.slice(firstUsageEvent), ledger.priceTable, {
+    budgetUsd: ledger.budgetUsd,
+    stoppedByBudget,
+    estimate
+  });
+  const usagePaths = await writeUsageReport(outDir, timestamp, usageReport, translationDocument.title || path.basename(fullPdfPath));
+
+  // Only now is the run finished: close the journal and drop the page images.
+  // If anything above failed, the journal survives for a resume.
+  // A --pages run, one stopped by --budget or one with FAILED pages stays open so the remaining work can be added later.
+  const runComplete = !options.pages && !stoppedByBudget && await markRunComplete(journal);
+  // Page images are rendered again when needed, so they never have to outlive the run
+  await renderer.close();
+  console.log('🧹 Cleaning up temporary files...');
+  await cleanupTempFiles(tempDir);
+  console.log('✅ Cleanup done\n');
+
+  // Step 9: Final summary
+  const successCount = results.filter(r => r.status === 'OK').length;
+  const failedPages = results.filter(r => r.status === 'FAILED').map(r => r.pageNumber);
+  const failCount = failedPages.length;
+
+  console.log(stoppedByBudget ? '📋 STOPPED: BUDGET REACHED' : '📋 COMPLETE');
+  console.log('='.repeat(80));
+  console.log(`✅ Pages processed: ${results.length}${stoppedByBudget ? ` (${pages.length - results.length} left for the next run)` : ''}`);
+  console.log(`✅ Successful: ${successCount}`);
+  console.log(`❌ Failed: ${failCount}`);
+  if (summaryDocument) {
+    console.log(`✅ Chapters detected: ${summaryDocument.chapters.filter(chapter => chapter.title).length}`);
+  }
+  if (glossary) {
+    console.log(`${glossaryViolationCount ? '⚠️ ' : '✅'} Glossary violations: ${glossaryViolationCount}`);
+  }
+  console.log(`${qualityReport.flagged ? '⚠️ ' : '✅'} Quality: ${qualityReport.passed} passed, ${qualityReport.flagged} flagged for review (minimum score ${qualityReport.minScore})`);
+  if (qualityReport.split > 0) {
+    const splitPages = qualityReport.pages.filter(page => page.parts > 1).map(page => `${page.pageNumber} (${page.parts})`);
+    console.log(`✂️  Split pages (response hit max tokens): ${splitPages.join(', ')}`);
+  }
+  if (cache) {
+    console.log(formatCacheStats(cache.stats));
+  }
+  console.log(`\n💵 USAGE`);
+  console.log(formatUsageTable(usageReport));
+  console.log(`\n📄 OUTPUT FILES:`);
+  outputs.forEach((output, i) => {
+    console.log(`   ${i + 1}. ${path.basename(output.path)} (${output.bytes.toLocaleString()} bytes)`);
+  });
+  if (minedGlossaryFile) {
+    console.log(`   ${outputs.length + 1}. ${minedGlossaryFile} (reusable with --glossary)`);
+  }
+  console.log(`   Usage report: ${usagePaths.map(usagePath => path.basename(usagePath)).join(', ')}`);
+  console.log(`   QA report: ${qualityPaths.map(qualityPath => path.basename(qualityPath)).join(', ')}`);
+  console.log(`\n📁 Run journal: ${journal.dir}`);
+  console.log('='.repeat(80));
+  if (!runComplete && !options.pages && !stoppedByBudget) {
+    console.log(`\n♻️  Run left open: run the same command again to retry the ${failCount} failed page(s)`);
+  }
+  console.log(stoppedByBudget ? '\n💵 Stopped at the budget. Run the same command again to continue.\n' : '\n🎉 Done!\n');
+
+  return {
+    pdfPath: fullPdfPath,
+    pageCount,
+    pagesProcessed: results.length,
+    failedPages,
+    outputPaths: [
+      ...outputs.map(output => output.path),
+      ...(csvPath ? [csvPath] : []),
+      ...(minedGlossaryFile ? [path.join(outDir, minedGlossaryFile)] : []),
+      ...usagePaths,
+      ...qualityPaths
+    ],
+    runDir: journal.dir,
+    costUsd: usageReport.totals.costUsd,
+    stoppedByBudget
+  };
+};
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import type {
+  TranslationProvider,
+  ProviderConfig,
+  PageContent,
+  PageTranslationRequest,
+  PageTranslation,
+  ChunkSummaryRequest,
+  SummaryRollupRequest,
+  TermAlignmentRequest,
+  TermAlignment,
+  UsageEvent,
+  UsageListener
+} from './types';
+import { buildPagePrompt, buildChunkSummaryPrompt, buildSummaryRollupPrompt, buildTermAlignmentPrompt } from './prompts';
+import { ResponseTruncatedError } from './responseSchema';
+import { estimateTextTokens, HIGH_DETAIL_IMAGE_TOKENS } from '../utils/costEstimate';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from '../i18n';
+
+export const DEFAULT_FAKE_CONFIG: ProviderConfig = {
+  model: 'fake',
+  temperature: 0,
+  maxTokens: 4096,
+  summaryMaxTokens: 2000,
+  responseFormat: 'json_schema',
+  sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE
+};
+
+/**
+ * Short stable fingerprint of the page content, so different pages get different output
+ */
+const fingerprint = async (content: PageContent): Promise<string> => {
+  const data = content.kind === 'text' ? content.text : await fs.readFile(content.imagePath);
+  return crypto.createHash('sha256').update(data).digest('hex').slice(0, 8);
+};
+
+/**
+ * Create an offline provider that never calls a network API.
+ * Output is deterministic for a given page: a new chapter every 10 pages, a
+ * new section every 5, a footnote every 3 and a table or figure every other page, which is
+ * enough to exercise chunking, headings, notes, tables and figures.
+ * Usage is reported as if the real prompts had been sent, so cost accounting can be tried offline.
+ * A text page longer than maxTokens tokens is cut off like a real response, so page splitting
+ * can be tried with a low TRANSLATION_MAX_TOKENS.
+ */
+export const createFakeProvider = (
+  config: ProviderConfig = DEFAULT_FAKE_CONFIG,
+  onUsage?: UsageListener
+): TranslationProvider => {
+  const reportUsage = (target: Pick<UsageEvent, 'operation' | 'pageNumber' | 'chunkIndex'>, inputTokens: number, output: string): void => {
+    onUsage?.({ ...target, model: config.model, inputTokens, outputTokens: estimateTextTokens(output) });
+  };
+
+  const translatePage = async (request: PageTranslationRequest): Promise<PageTranslation> => {
+    const { pageNumber } = request;
+    if (request.content.kind === 'text' && estimateTextTokens(request.content.text) > config.maxTokens) {
+      onUsage?.({ operation: 'page', pageNumber, model: config.model, inputTokens: estimateTextTokens(buildPagePrompt(request, config)), outputTokens: config.maxTokens });
+      throw new ResponseTruncatedError(config.maxTokens, '');
+    }
+    const id = await fingerprint(request.content);
+    const chapterNumber = Math.ceil(pageNumber / 10);
+    const sectionNumber = Math.ceil(pageNumber / 5);
+
+    // Headings sit at the top of the page, so only its first part has them
+    const top = !request.part || request.part.index === 1;
+    const chapterTitle = top && pageNumber % 10 === 1 ? `פרק ${chapterNumber}` : '';
+    const sectionTitle = top && pageNumber % 5 === 1 ? `סעיף ${sectionNumber}` : '';
+
+    // Every third page has a footnote; pages 2, 6, 10... a table, pages 4, 8, 12... a figure
+    const footnote = pageNumber % 3 === 0;
+    const table = pageNumber % 4 === 2;
+    const figure = pageNumber % 4 === 0;
+
+    const result: PageTranslation = {
+      translation: `תרגום לדוגמה של עמוד ${pageNumber} (${id}). זהו טקסט קבוע שנוצר ללא קריאה לשירות תרגום${footnote ? '[^1]' : ''}.${table ? '\n\n[[TABLE 1]]' : ''}${figure ? '\n\n[[FIGURE 1]]' : ''}`,
+      summary: `סיכום לדוגמה של עמוד ${pageNumber}. העמוד מכיל טקסט לבדיקה בלבד.`,
+      articleTitle: 'מסמך לדוגמה',
+      chapterTitle,
+      sectionTitle,
+      headings: [
+        ...(chapterTitle ? [{ level: 1 as const, text: chapterTitle }] : []),
+        ...(sectionTitle ? [{ level: 2 as const, text: sectionTitle }] : [])
+      ],
+      footnotes: footnote ? [{ marker: '1', text: `הערת שוליים לדוגמה בעמוד ${pageNumber} (Moon, 2010).` }] : [],
+      bibliography: false,
+      tables: table
+        ? [{ caption: `טבלה ${pageNumber}: נתונים לדוגמה`, header: true, rows: [['חומר', 'מספר משתתפים'], ['חימר', '12'], ['צבע', '8']] }]
+        : [],
+      figures: figure
+        ? [{ caption: `איור ${pageNumber}: תרשים לדוגמה`, region: request.content.kind === 'image' ? { x: 0.1, y: 0.3, width: 0.8, height: 0.4 } : null }]
+        : []
+    };
+    const imageTokens = request.content.kind === 'image' ? HIGH_DETAIL_IMAGE_TOKENS : 0;
+    reportUsage({ operation: 'page', pageNumber }, estimateTextTokens(buildPagePrompt(request, config)) + imageTokens, JSON.stringify(result));
+    return result;
+  };
+
+  const summarizeChunk = async (request: ChunkSummaryRequest): Promise<string> => {
+    const { title, pages, chunkIndex, totalChunks } = request;
+    const summary = `סיכום לדוגמה של חלק ${chunkIndex + 1} מתוך ${totalChunks}: ${title} (עמודים ${pages[0]}-${pages[pages.length - 1]}).`;
+    reportUsage({ operation: 'chunk', chunkIndex }, estimateTextTokens(buildChunkSummaryPrompt(request, config)), summary);
+    return summary;
+  };
+
+  const summarizeRollup = async (request: SummaryRollupRequest): Promise<string> => {
+    const { level, title, pages, parts } = request;
+    const label = level === 'chapter' ? 'סיכום פרק לדוגמה' : 'תקציר מנהלים לדוגמה';
+    const summary = `${label}: ${title} (עמודים ${pages[0]}-${pages[pages.length - 1]}, ${parts.length} חלקים, ${request.length}).`;
+    reportUsage({ operation: 'rollup' }, estimateTextTokens(buildSummaryRollupPrompt(request, config)), summary);
+    return summary;
+  };
+
+  // Odd and even pages disagree, so consistency checks have something to find
+  const alignTerms = async (request: TermAlignmentRequest): Promise<TermAlignment> => {
+    const variant = request.pageNumber % 2 === 0 ? 'א' : 'ב';
+    const alignment: TermAlignment = {};
+    for (const term of request.terms) {
+      alignment[term] = `מונח ${variant} (${term})`;
+    }
+    reportUsage({ operation: 'alignment', pageNumber: request.pageNumber }, estimateTextTokens(buildTermAlignmentPrompt(request, config)), JSON.stringify(alignment));
+    return alignment;
+  };
+
+  return {
+    name: 'fake',
+    config,
+    translatePage,
+    summarizeChunk,
+    summarizeRollup,
+    alignTerms
+  };
+};
@@ -0,0 +1,157 @@
+import { createOpenAIProvider, DEFAULT_OPENAI_CONFIG } from './openaiProvider';
+import { createOpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { createFakeProvider, DEFAULT_FAKE_CONFIG } from './fakeProvider';
+import { withRateLimit } from './rateLimitedProvider';
+import type { TranslationProvider, ProviderConfig, ResponseFormatMode, UsageListener } from './types';
+import { parseLanguageCode, getLanguagePair, LanguageCode, LanguagePair } from '../i18n';
+
+export type {
+  TranslationProvider,
+  ProviderConfig,
+  ResponseFormatMode,
+  PageContent,
+  PageTranslationRequest,
+  PageTranslation,
+  PageHeading,
+  PageFootnote,
+  PageTable,
+  PageFigure,
+  PageRegion,
+  ChunkSummaryRequest,
+  SummaryLevel,
+  SummaryLength,
+  SummaryRollupRequest,
+  TermAlignmentRequest,
+  TermAlignment,
+  TokenUsage,
+  UsageEvent,
+  UsageListener
+} from './types';
+export { createOpenAIProvider, createOpenAICompatibleProvider, createFakeProvider, withRateLimit };
+export { getPromptVersion } from './prompts';
+export { loadPromptTemplate, BUNDLED_PROMPTS_DIR } from './promptTemplates';
+export type { PromptName, PromptTemplate } from './promptTemplates';
+export { ResponseParseError, ResponseValidationError, ResponseTruncatedError, validatePageTranslation } from './responseSchema';
+export type { FieldIssue } from './responseSchema';
+
+export type ProviderName = 'openai' | 'openai-compatible' | 'fake';
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'openai-compatible', 'fake'];
+
+/**
+ * Resolve the provider name from TRANSLATION_PROVIDER (defaults to 'openai')
+ */
+export const getProviderName = (): ProviderName => {
+  const name = (process.env.TRANSLATION_PROVIDER || 'openai').trim().toLowerCase();
+  if (!PROVIDER_NAMES.includes(name as ProviderName)) {
+    throw new Error(`Unknown TRANSLATION_PROVIDER "${name}" (expected one of: ${PROVIDER_NAMES.join(', ')})`);
+  }
+  return name as ProviderName;
+};
+
+/**
+ * Environment variables a provider cannot run without
+ */
+export const getRequiredEnvVars = (providerName: ProviderName): string[] => {
+  switch (providerName) {
+    case 'openai':
+      return ['OPENAI_API_KEY'];
+    case 'openai-compatible':
+      return ['OPENAI_BASE_URL'];
+    case 'fake':
+      return [];
+  }
+};
+
+const readNumberEnv = (key: string, fallback: number): number => {
+  const raw = process.env[key];
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Environment variable ${key} must be a number, got "${raw}"`);
+  }
+  return value;
+};
+
+const RESPONSE_FORMATS: ResponseFormatMode[] = ['json_schema', 'json_object', 'none'];
+
+const readResponseFormatEnv = (fallback: ResponseFormatMode): ResponseFormatMode => {
+  const raw = process.env.TRANSLATION_RESPONSE_FORMAT?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (!RESPONSE_FORMATS.includes(raw as ResponseFormatMode)) {
+    throw new Error(`Unknown TRANSLATION_RESPONSE_FORMAT "${raw}" (expected one of: ${RESPONSE_FORMATS.join(', ')})`);
+  }
+  return raw as ResponseFormatMode;
+};
+
+const readLanguageEnv = (key: string, fallback: LanguageCode): LanguageCode => {
+  const raw = process.env[key];
+  if (!raw?.trim()) return fallback;
+  try {
+    return parseLanguageCode(raw);
+  } catch (error) {
+    throw new Error(`Environment variable ${key}: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Build provider config from defaults overridden by environment variables
+ * (TRANSLATION_MODEL, TRANSLATION_TEMPERATURE, TRANSLATION_MAX_TOKENS, SUMMARY_MAX_TOKENS,
+ * TRANSLATION_RESPONSE_FORMAT, SOURCE_LANGUAGE, TARGET_LANGUAGE, PROMPT_TEMPLATES_DIR) and
+ * then by explicit overrides such as --model
+ */
+export const getProviderConfigFromEnv = (overrides: Partial<ProviderConfig> = {}): ProviderConfig => {
+  const providerName = getProviderName();
+  const defaults = providerName === 'fake' ? DEFAULT_FAKE_CONFIG : DEFAULT_OPENAI_CONFIG;
+  // Most OpenAI-compatible servers support JSON mode but not strict schemas
+  const defaultResponseFormat = providerName === 'openai-compatible' ? 'json_object' : defaults.responseFormat;
+  return {
+    model: overrides.model || process.env.TRANSLATION_MODEL || defaults.model,
+    temperature: overrides.temperature ?? readNumberEnv('TRANSLATION_TEMPERATURE', defaults.temperature),
+    maxTokens: overrides.maxTokens ?? readNumberEnv('TRANSLATION_MAX_TOKENS', defaults.maxTokens),
+    summaryMaxTokens: overrides.summaryMaxTokens ?? readNumberEnv('SUMMARY_MAX_TOKENS', defaults.summaryMaxTokens),
+    responseFormat: overrides.responseFormat ?? readResponseFormatEnv(defaultResponseFormat),
+    sourceLanguage: overrides.sourceLanguage || readLanguageEnv('SOURCE_LANGUAGE', defaults.sourceLanguage),
+    targetLanguage: overrides.targetLanguage || readLanguageEnv('TARGET_LANGUAGE', defaults.targetLanguage),
+    promptsDir: overrides.promptsDir || process.env.PROMPT_TEMPLATES_DIR || undefined
+  };
+};
+
+/**
+ * Source and target language of a provider's translations
+ */
+export const getProviderLanguages = (config: ProviderConfig): LanguagePair => {
+  return getLanguagePair(config.sourceLanguage, config.targetLanguage);
+};
+
+/**
+ * Create the provider selected by TRANSLATION_PROVIDER (call after loadEnvVariables)
+ * @param overrides - Config values that win over the environment (e.g. --model)
+ * @param onUsage - Receives the token usage of every API call
+ */
+export const createProviderFromEnv = (
+  overrides: Partial<ProviderConfig> = {},
+  onUsage?: UsageListener
+): TranslationProvider => {
+  const providerName = getProviderName();
+  const config = getProviderConfigFromEnv(overrides);
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY || '',
+        config,
+        onUsage
+      });
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseURL: process.env.OPENAI_BASE_URL || '',
+        apiKey: process.env.OPENAI_API_KEY,
+        config,
+        onUsage
+      });
+    case 'fake':
+      return createFakeProvider(config, onUsage);
+  }
+};
@@ -0,0 +1,27 @@
+import { createOpenAIProvider } from './openaiProvider';
+import type { TranslationProvider, ProviderConfig, UsageListener } from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL of the server, e.g. http://localhost:8000/v1 */
+  baseURL: string;
+  /** Many local servers ignore the key, but the SDK requires a value */
+  apiKey?: string;
+  config: ProviderConfig;
+  onUsage?: UsageListener;
+}
+
+/**
+ * Create a provider for any server that speaks the OpenAI chat completions API
+ * (vLLM, LM Studio, Ollama's /v1 endpoint, ...). The model must accept image input.
+ */
+export const createOpenAICompatibleProvider = (
+  options: OpenAICompatibleProviderOptions
+): TranslationProvider => {
+  return createOpenAIProvider({
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseURL,
+    name: 'openai-compatible',
+    config: options.config,
+    onUsage: options.onUsage
+  });
+};
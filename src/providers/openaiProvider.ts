@@ -0,0 +1,227 @@
+import OpenAI from 'openai';
+import fs from 'fs-extra';
+import path from 'path';
+import { buildPagePrompt, buildChunkSummaryPrompt, buildSummaryRollupPrompt, buildTermAlignmentPrompt } from './prompts';
+import { PAGE_TRANSLATION_SCHEMA, parsePageTranslation, parseJsonObject, ResponseTruncatedError } from './responseSchema';
+import type {
+  TranslationProvider,
+  ProviderConfig,
+  PageTranslationRequest,
+  PageTranslation,
+  ChunkSummaryRequest,
+  SummaryRollupRequest,
+  TermAlignmentRequest,
+  TermAlignment,
+  UsageEvent,
+  UsageListener
+} from './types';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE } from '../i18n';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Override the API endpoint (used by the OpenAI-compatible provider) */
+  baseURL?: string;
+  /** Name reported in logs (defaults to 'openai') */
+  name?: string;
+  config: ProviderConfig;
+  /** Receives response.usage of every call (servers that omit usage report nothing) */
+  onUsage?: UsageListener;
+}
+
+export const DEFAULT_OPENAI_CONFIG: ProviderConfig = {
+  model: 'gpt-4o',
+  temperature: 0.3,
+  maxTokens: 4096,
+  summaryMaxTokens: 2000,
+  responseFormat: 'json_schema',
+  sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+  targetLanguage: DEFAULT_TARGET_LANGUAGE
+};
+
+/**
+ * Encode image or PDF to base64
+ */
+const encodeFileToBase64 = async (filePath: string): Promise<string> => {
+  const fileBuffer = await fs.readFile(filePath);
+  return fileBuffer.toString('base64');
+};
+
+/**
+ * Get file MIME type from file extension (supports images and PDFs)
+ */
+const getFileMimeType = (filePath: string): string => {
+  const ext = path.extname(filePath).toLowerCase();
+  const mimeTypes: { [key: string]: string } = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.pdf': 'application/pdf'
+  };
+  return mimeTypes[ext] || 'image/jpeg';
+};
+
+/**
+ * Create a provider backed by the OpenAI chat completions API (GPT-4o by default).
+ * Image pages use vision; text-layer pages are sent as plain text.
+ */
+export const createOpenAIProvider = (options: OpenAIProviderOptions): TranslationProvider => {
+  const { config } = options;
+  // No SDK retries: 429s must reach the rate limiter (withRateLimit), which backs off and retries
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    maxRetries: 0
+  });
+
+  /**
+   * Report usage before the response is parsed, so rejected attempts are counted too
+   */
+  const reportUsage = (
+    response: OpenAI.Chat.ChatCompletion,
+    target: Pick<UsageEvent, 'operation' | 'pageNumber' | 'chunkIndex'>
+  ): void => {
+    if (!options.onUsage || !response.usage) return;
+    options.onUsage({
+      ...target,
+      model: config.model,
+      inputTokens: response.usage.prompt_tokens,
+      outputTokens: response.usage.completion_tokens
+    });
+  };
+
+  /**
+   * response_format for a call: the page schema in strict mode, or JSON mode.
+   * Term alignment has one key per term, so it never gets a fixed schema.
+   */
+  const getResponseFormat = (
+    schema?: { name: string; schema: Record<string, unknown> }
+  ): OpenAI.Chat.ChatCompletionCreateParams['response_format'] => {
+    if (config.responseFormat === 'none') return undefined;
+    if (config.responseFormat === 'json_schema' && schema) {
+      return { type: 'json_schema', json_schema: { name: schema.name, schema: schema.schema, strict: true } };
+    }
+    return { type: 'json_object' };
+  };
+
+  /**
+   * Text of the first choice; a structured-output refusal is an error like an empty reply
+   */
+  const getResponseContent = (response: OpenAI.Chat.ChatCompletion): string => {
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new Error(`Model refused: ${message.refusal}`);
+    }
+    if (!message?.content) {
+      throw new Error('No response from OpenAI');
+    }
+    return message.content;
+  };
+
+  /**
+   * Message content for a page: plain text for text-layer pages, text + image for vision
+   */
+  const buildPageMessageContent = async (
+    request: PageTranslationRequest
+  ): Promise<OpenAI.Chat.ChatCompletionContentPart[]> => {
+    const prompt: OpenAI.Chat.ChatCompletionContentPart = {
+      type: 'text',
+      text: buildPagePrompt(request, config)
+    };
+
+    if (request.content.kind === 'text') {
+      return [prompt];
+    }
+
+    const base64File = await encodeFileToBase64(request.content.imagePath);
+    const mimeType = getFileMimeType(request.content.imagePath);
+
+    return [
+      prompt,
+      {
+        type: 'image_url',
+        image_url: {
+          url: `data:${mimeType};base64,${base64File}`,
+          detail: 'high'
+        }
+      }
+    ];
+  };
+
+  const translatePage = async (request: PageTranslationRequest): Promise<PageTranslation> => {
+    const response = await client.chat.completions.create({
+      model: config.model,
+      messages: [
+        {
+          role: 'user',
+          content: await buildPageMessageContent(request)
+        }
+      ],
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      response_format: getResponseFormat({ name: 'page_translation', schema: PAGE_TRANSLATION_SCHEMA })
+    });
+    reportUsage(response, { operation: 'page', pageNumber: request.pageNumber });
+
+    // A cut-off response is incomplete JSON at best; say so instead of failing to parse it
+    if (response.choices[0]?.finish_reason === 'length') {
+      throw new ResponseTruncatedError(config.maxTokens, response.choices[0].message?.content || '');
+    }
+
+    return parsePageTranslation(getResponseContent(response));
+  };
+
+  const summarizeChunk = async (request: ChunkSummaryRequest): Promise<string> => {
+    const response = await client.chat.completions.create({
+      model: config.model,
+      messages: [{ role: 'user', content: buildChunkSummaryPrompt(request, config) }],
+      max_tokens: config.summaryMaxTokens,
+      temperature: config.temperature
+    });
+    reportUsage(response, { operation: 'chunk', chunkIndex: request.chunkIndex });
+
+    return response.choices[0]?.message?.content?.trim() || '';
+  };
+
+  const summarizeRollup = async (request: SummaryRollupRequest): Promise<string> => {
+    const response = await client.chat.completions.create({
+      model: config.model,
+      messages: [{ role: 'user', content: buildSummaryRollupPrompt(request, config) }],
+      max_tokens: config.summaryMaxTokens,
+      temperature: config.temperature
+    });
+    reportUsage(response, { operation: 'rollup' });
+
+    return response.choices[0]?.message?.content?.trim() || '';
+  };
+
+  const alignTerms = async (request: TermAlignmentRequest): Promise<TermAlignment> => {
+    const response = await client.chat.completions.create({
+      model: config.model,
+      messages: [{ role: 'user', content: buildTermAlignmentPrompt(request, config) }],
+      max_tokens: config.summaryMaxTokens,
+      temperature: 0,
+      response_format: getResponseFormat()
+    });
+    reportUsage(response, { operation: 'alignment', pageNumber: request.pageNumber });
+
+    const { value } = parseJsonObject(getResponseContent(response));
+    const parsed = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+    const alignment: TermAlignment = {};
+    for (const term of request.terms) {
+      const rendering = parsed[term];
+      alignment[term] = typeof rendering === 'string' ? rendering.trim() : '';
+    }
+    return alignment;
+  };
+
+  return {
+    name: options.name || 'openai',
+    config,
+    translatePage,
+    summarizeChunk,
+    summarizeRollup,
+    alignTerms
+  };
+};
@@ -0,0 +1,122 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+
+/**
+ * Prompt templates
+ * The prompts live in versioned files under prompts/ (one per prompt) instead of in code, so
+ * they can be reviewed and tuned without touching the builders in prompts.ts. A directory
+ * given with --prompts / PROMPT_TEMPLATES_DIR overrides them file by file.
+ *
+ * Syntax (a small Mustache subset):
+ *   {{name}}                  value of a variable (unknown names are an error)
+ *   {{#name}} ... {{/name}}   kept when the variable is set (non-empty, non-zero, true)
+ *   {{^name}} ... {{/name}}   kept when it is not
+ *   {{! comment }}            dropped; "{{! version: N }}" versions the template
+ * A line holding only a section tag or a comment disappears with its line break.
+ */
+
+export type PromptName = 'page' | 'chunk-summary' | 'summary-rollup' | 'term-alignment';
+
+export type TemplateValue = string | number | boolean | undefined;
+
+export type TemplateVariables = Record<string, TemplateValue>;
+
+export interface PromptTemplate {
+  name: PromptName;
+  text: string;
+  /** From the "{{! version: N }}" comment (0 when missing) */
+  version: number;
+  /** Short SHA-256 of the file, so an edit without a version bump still changes cache keys */
+  hash: string;
+  /** Loaded from a custom directory rather than the bundled prompts/ */
+  custom: boolean;
+}
+
+export const BUNDLED_PROMPTS_DIR = path.resolve(__dirname, '..', '..', 'prompts');
+
+const VERSION_PATTERN = /\{\{!\s*version:\s*(\d+)\s*\}\}/;
+const STANDALONE_TAG_PATTERN = /^[ \t]*(\{\{[#^/!][^}]*\}\})[ \t]*\r?\n/gm;
+const COMMENT_PATTERN = /\{\{![\s\S]*?\}\}/g;
+const SECTION_PATTERN = /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const loaded = new Map<string, PromptTemplate>();
+
+/**
+ * Load a prompt template (read once per process)
+ * @param dir - Directory of custom templates; names missing there come from prompts/
+ */
+export const loadPromptTemplate = (name: PromptName, dir?: string): PromptTemplate => {
+  const customPath = dir ? path.resolve(dir, `${name}.md`) : undefined;
+  const custom = customPath !== undefined && fs.pathExistsSync(customPath);
+  const filePath = custom ? customPath! : path.join(BUNDLED_PROMPTS_DIR, `${name}.md`);
+
+  const cached = loaded.get(filePath);
+  if (cached) return cached;
+
+  if (!fs.pathExistsSync(filePath)) {
+    throw new Error(`Prompt template not found: ${filePath}`);
+  }
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const template: PromptTemplate = {
+    name,
+    text,
+    version: Number(text.match(VERSION_PATTERN)?.[1] || 0),
+    hash: crypto.createHash('sha256').update(text).digest('hex').slice(0, 12),
+    custom
+  };
+  loaded.set(filePath, template);
+  return template;
+};
+
+/**
+ * Version of the page prompt, part of every translation cache key.
+ * Bump the version comment in prompts/page.md whenever a change should invalidate cached pages.
+ */
+export const getPromptVersion = (dir?: string): number => loadPromptTemplate('page', dir).version;
+
+const isSet = (value: TemplateValue): boolean => value !== undefined && value !== '' && value !== 0 && value !== false;
+
+const expandSections = (text: string, variables: TemplateVariables, name: PromptName): string => {
+  return text.replace(SECTION_PATTERN, (_match, type: string, variable: string, body: string) => {
+    if (!(variable in variables)) {
+      throw new Error(`Prompt template "${name}" uses unknown variable "${variable}"`);
+    }
+    const show = type === '#' ? isSet(variables[variable]) : !isSet(variables[variable]);
+    return show ? expandSections(body, variables, name) : '';
+  });
+};
+
+/**
+ * Fill in a template. Sections are resolved before variables, so a value that happens to
+ * contain "{{" (e.g. page text) is inserted as is and never parsed.
+ */
+export const renderTemplate = (template: PromptTemplate, variables: TemplateVariables): string => {
+  const { name } = template;
+  const text = expandSections(
+    template.text.replace(STANDALONE_TAG_PATTERN, '$1').replace(COMMENT_PATTERN, ''),
+    variables,
+    name
+  );
+
+  const unclosed = text.match(/\{\{[#^/]\s*\w+\s*\}\}/);
+  if (unclosed) {
+    throw new Error(`Prompt template "${name}" has an unmatched section tag ${unclosed[0]}`);
+  }
+
+  return text.replace(VARIABLE_PATTERN, (_match, variable: string) => {
+    if (!(variable in variables)) {
+      throw new Error(`Prompt template "${name}" uses unknown variable "${variable}"`);
+    }
+    const value = variables[variable];
+    return value === undefined || value === false ? '' : String(value);
+  }).trim();
+};
+
+/**
+ * Load and fill in a template
+ */
+export const renderPrompt = (name: PromptName, variables: TemplateVariables, dir?: string): string => {
+  return renderTemplate(loadPromptTemplate(name, dir), variables);
+};
@@ -0,0 +1,155 @@
+import type {
+  ProviderConfig,
+  PageTranslationRequest,
+  ChunkSummaryRequest,
+  SummaryRollupRequest,
+  SummaryLength,
+  TermAlignmentRequest
+} from './types';
+import type { HeadingHint } from '../utils/pdfTextExtractor';
+import type { GlossaryEntry } from '../utils/glossary';
+import type { OutlineHeading } from '../utils/pdfOutline';
+import { LANGUAGES } from '../i18n';
+import { renderPrompt, TemplateVariables } from './promptTemplates';
+
+/**
+ * Prompt builders shared by all chat-completion based providers
+ * The wording lives in the templates under prompts/ (see promptTemplates.ts); the builders
+ * only turn a request into template variables.
+ */
+
+export { getPromptVersion } from './promptTemplates';
+
+/**
+ * Page text with heading lines marked [H1]/[H2]
+ */
+const markHeadings = (text: string, headings: HeadingHint[]): string => {
+  const headingLevels = new Map(headings.map(heading => [heading.text, heading.level]));
+  return text
+    .split('\n')
+    .map(line => {
+      const level = headingLevels.get(line.trim());
+      return level ? `[H${level}] ${line}` : line;
+    })
+    .join('\n');
+};
+
+/**
+ * Glossary lines: every listed term must be rendered exactly as given
+ */
+const formatGlossary = (entries: GlossaryEntry[] = [], sourceLanguage: string): string => {
+  return entries.map(entry => {
+    const rendering = entry.keepEnglish
+      ? `keep in ${sourceLanguage}: "${entry.source}"`
+      : `"${entry.target}"`;
+    return `- "${entry.source}" → ${rendering}${entry.note ? ` (${entry.note})` : ''}`;
+  }).join('\n');
+};
+
+/**
+ * Outline lines: the PDF's own bookmarks for this page, to be used instead of guessing
+ */
+const formatOutline = (headings: OutlineHeading[] = []): string => {
+  return headings.map(heading => `- Level ${heading.level}: "${heading.title}"`).join('\n');
+};
+
+/**
+ * Variables every template gets
+ */
+const getLanguageVariables = (config: ProviderConfig): TemplateVariables => ({
+  sourceLanguage: LANGUAGES[config.sourceLanguage].name,
+  targetLanguage: LANGUAGES[config.targetLanguage].name
+});
+
+/**
+ * Build the page translation prompt (structure detection + translation + summary)
+ */
+export const buildPagePrompt = (request: PageTranslationRequest, config: ProviderConfig): string => {
+  const { content } = request;
+  const languages = getLanguageVariables(config);
+
+  return renderPrompt('page', {
+    ...languages,
+    pageNumber: request.pageNumber,
+    // A part of a page: the whole page did not fit in one response
+    part: Boolean(request.part),
+    partIndex: request.part?.index,
+    partCount: request.part?.count,
+    chapterContext: request.chapterContext,
+    previousContext: request.previousContext,
+    previousFromSource: request.previousContextSource === 'source',
+    textLayer: content.kind === 'text',
+    pageText: content.kind === 'text' ? markHeadings(content.text, content.headings) : undefined,
+    // Only the page image shows where a figure is
+    image: content.kind === 'image',
+    outline: formatOutline(request.outlineHeadings),
+    reviewerNote: request.reviewerNote,
+    glossary: formatGlossary(request.glossary, String(languages.sourceLanguage))
+  }, config.promptsDir);
+};
+
+/**
+ * Sentence count asked for at each summary length
+ */
+export const SUMMARY_LENGTH_SENTENCES: Record<SummaryLength, string> = {
+  abstract: '3-5',
+  brief: '8-10',
+  detailed: '15-20'
+};
+
+const formatPages = (pages: number[]): string => `${pages[0]} to ${pages[pages.length - 1]}`;
+
+/**
+ * Build the chunk summarization prompt
+ */
+export const buildChunkSummaryPrompt = (request: ChunkSummaryRequest, config: ProviderConfig): string => {
+  const languages = getLanguageVariables(config);
+
+  return renderPrompt('chunk-summary', {
+    ...languages,
+    title: request.title,
+    pages: formatPages(request.pages),
+    chunkNumber: request.chunkIndex + 1,
+    totalChunks: request.totalChunks,
+    text: request.text,
+    sentences: SUMMARY_LENGTH_SENTENCES[request.length || 'detailed'],
+    glossary: formatGlossary(request.glossary, String(languages.sourceLanguage))
+  }, config.promptsDir);
+};
+
+/**
+ * Build the prompt that combines section summaries into a chapter summary,
+ * or chapter summaries into the document's executive summary
+ */
+export const buildSummaryRollupPrompt = (request: SummaryRollupRequest, config: ProviderConfig): string => {
+  const { parts } = request;
+  const languages = getLanguageVariables(config);
+  const partList = parts
+    .map((part, i) => `### ${i + 1}. ${part.title} (pages ${formatPages(part.pages)})\n${part.summary}`)
+    .join('\n\n');
+
+  return renderPrompt('summary-rollup', {
+    ...languages,
+    chapter: request.level === 'chapter',
+    title: request.title,
+    pages: formatPages(request.pages),
+    partCount: parts.length,
+    parts: partList,
+    sentences: SUMMARY_LENGTH_SENTENCES[request.length],
+    glossary: formatGlossary(request.glossary, String(languages.sourceLanguage))
+  }, config.promptsDir);
+};
+
+/**
+ * Build the term alignment prompt (which rendering was used for each source term)
+ */
+export const buildTermAlignmentPrompt = (request: TermAlignmentRequest, config: ProviderConfig): string => {
+  return renderPrompt('term-alignment', {
+    ...getLanguageVariables(config),
+    pageNumber: request.pageNumber,
+    sourceText: request.sourceText,
+    translation: request.translation,
+    terms: request.terms.map(term => `- ${term}`).join('\n'),
+    alignmentNote: LANGUAGES[config.targetLanguage].alignmentNote
+  }, config.promptsDir);
+};
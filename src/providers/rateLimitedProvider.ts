@@ -0,0 +1,102 @@
+import type { RateLimiter } from '../utils/rateLimiter';
+import { CHARS_PER_TOKEN, PAGE_PROMPT_TOKENS, HIGH_DETAIL_IMAGE_TOKENS } from '../utils/costEstimate';
+import type {
+  TranslationProvider,
+  PageTranslationRequest,
+  PageTranslation,
+  ChunkSummaryRequest,
+  SummaryRollupRequest,
+  TermAlignmentRequest,
+  TermAlignment
+} from './types';
+
+/**
+ * Estimate tokens for a page call (prompt + content + the full completion budget)
+ */
+const estimatePageTokens = (request: PageTranslationRequest, maxTokens: number): number => {
+  const contextTokens = Math.ceil((request.previousContext.length + request.chapterContext.length) / CHARS_PER_TOKEN);
+  const contentTokens = request.content.kind === 'text'
+    ? Math.ceil(request.content.text.length / CHARS_PER_TOKEN)
+    : HIGH_DETAIL_IMAGE_TOKENS;
+  return PAGE_PROMPT_TOKENS + contextTokens + contentTokens + maxTokens;
+};
+
+const estimateChunkTokens = (request: ChunkSummaryRequest, maxTokens: number): number => {
+  return Math.ceil(request.text.length / CHARS_PER_TOKEN) + maxTokens;
+};
+
+const estimateRollupTokens = (request: SummaryRollupRequest, maxTokens: number): number => {
+  const chars = request.parts.reduce((sum, part) => sum + part.title.length + part.summary.length, 0);
+  return Math.ceil(chars / CHARS_PER_TOKEN) + maxTokens;
+};
+
+const estimateAlignmentTokens = (request: TermAlignmentRequest, maxTokens: number): number => {
+  return Math.ceil((request.sourceText.length + request.translation.length) / CHARS_PER_TOKEN) + maxTokens;
+};
+
+/**
+ * HTTP details carried by an API error (OpenAI SDK errors have both)
+ */
+interface HttpErrorLike {
+  status?: unknown;
+  headers?: unknown;
+}
+
+const asHttpError = (error: unknown): HttpErrorLike => {
+  return typeof error === 'object' && error !== null ? error as HttpErrorLike : {};
+};
+
+/**
+ * Pull the Retry-After delay (ms) out of an OpenAI SDK error, if any
+ */
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  const { headers } = asHttpError(error);
+  let value: unknown;
+  if (typeof headers === 'object' && headers !== null) {
+    // A fetch Headers object, or a plain record of header values
+    const { get } = headers as { get?: unknown };
+    value = typeof get === 'function' ? get.call(headers, 'retry-after') : (headers as Record<string, unknown>)['retry-after'];
+  }
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+const isRateLimitError = (error: unknown): boolean => asHttpError(error).status === 429;
+
+// Rate-limited attempts retried after the limiter's pause, before the 429 reaches the caller
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Wrap a provider so every call goes through the shared rate limiter.
+ * A 429 pauses the limiter and the call is retried once the pause is over; other errors
+ * are re-thrown unchanged and the caller's retry loop decides what happens next.
+ */
+export const withRateLimit = (provider: TranslationProvider, limiter: RateLimiter): TranslationProvider => {
+  const limited = async <R>(estimatedTokens: number, call: () => Promise<R>): Promise<R> => {
+    for (let attempt = 0; ; attempt++) {
+      await limiter.acquire(estimatedTokens);
+      try {
+        const result = await call();
+        limiter.reportSuccess();
+        return result;
+      } catch (error) {
+        if (!isRateLimitError(error)) throw error;
+        limiter.reportRateLimited(getRetryAfterMs(error));
+        if (attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+      }
+    }
+  };
+
+  return {
+    name: provider.name,
+    config: provider.config,
+    translatePage: (request: PageTranslationRequest): Promise<PageTranslation> =>
+      limited(estimatePageTokens(request, provider.config.maxTokens), () => provider.translatePage(request)),
+    summarizeChunk: (request: ChunkSummaryRequest): Promise<string> =>
+      limited(estimateChunkTokens(request, provider.config.summaryMaxTokens), () => provider.summarizeChunk(request)),
+    summarizeRollup: (request: SummaryRollupRequest): Promise<string> =>
+      limited(estimateRollupTokens(request, provider.config.summaryMaxTokens), () => provider.summarizeRollup(request)),
+    alignTerms: (request: TermAlignmentRequest): Promise<TermAlignment> =>
+      limited(estimateAlignmentTokens(request, provider.config.summaryMaxTokens), () => provider.alignTerms(request))
+  };
+};
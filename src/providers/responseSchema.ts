@@ -0,0 +1,409 @@
+import type { PageTranslation, PageHeading, PageFootnote, PageTable, PageFigure, PageRegion } from './types';
+
+/**
+ * Page response schema
+ * The shape of a page translation is defined once here: as a JSON Schema sent to the API
+ * (structured outputs), and as a runtime validator with field-level errors for backends
+ * that only support JSON mode or plain text. Near-valid JSON is repaired before a response
+ * is given up on, so a stray quote does not cost a full retry.
+ */
+
+/**
+ * One problem with one field, e.g. { field: 'headings[2].level', message: 'expected 1, 2 or 3' }
+ */
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * The response was not JSON, even after repair
+ */
+export class ResponseParseError extends Error {
+  constructor(message: string, public readonly content: string) {
+    super(message);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/**
+ * The response was JSON but did not match the schema
+ */
+export class ResponseValidationError extends Error {
+  constructor(public readonly issues: FieldIssue[]) {
+    super(`Invalid response: ${issues.map(issue => `${issue.field}: ${issue.message}`).join('; ')}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * The response stopped at the max_tokens limit (finish_reason "length"), so it is incomplete.
+ * Retrying the same request would stop at the same place; the page has to be split instead.
+ */
+export class ResponseTruncatedError extends Error {
+  constructor(public readonly maxTokens: number, public readonly content: string) {
+    super(`Response cut off at max tokens (${maxTokens})`);
+    this.name = 'ResponseTruncatedError';
+  }
+}
+
+/**
+ * JSON Schema for structured outputs (strict mode: every property required, no extras)
+ */
+export const PAGE_TRANSLATION_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['translation', 'summary', 'articleTitle', 'chapterTitle', 'sectionTitle', 'headings', 'footnotes', 'bibliography', 'tables', 'figures'],
+  properties: {
+    translation: { type: 'string', description: 'Full translation of the page' },
+    summary: { type: 'string', description: '4-6 sentence summary of the page, in the target language' },
+    articleTitle: { type: 'string', description: 'Short title of the article, in the target language' },
+    chapterTitle: { type: 'string', description: 'Translated chapter heading on this page, or empty' },
+    sectionTitle: { type: 'string', description: 'Translated section heading on this page, or empty' },
+    headings: {
+      type: 'array',
+      description: 'Every heading on the page in reading order, translated',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['level', 'text'],
+        properties: {
+          level: { type: 'integer', enum: [1, 2, 3], description: '1 = chapter, 2 = section, 3 = subsection' },
+          text: { type: 'string' }
+        }
+      }
+    },
+    footnotes: {
+      type: 'array',
+      description: 'Footnotes printed on the page, translated',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['marker', 'text'],
+        properties: {
+          marker: { type: 'string', description: 'Footnote number or symbol as printed' },
+          text: { type: 'string' }
+        }
+      }
+    },
+    bibliography: { type: 'boolean', description: 'True when the page is mainly a reference list (entries kept in the source language)' },
+    tables: {
+      type: 'array',
+      description: 'Tables on the page, in order, translated cell by cell; [[TABLE n]] in the translation marks where table n goes',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['caption', 'header', 'rows'],
+        properties: {
+          caption: { type: 'string', description: 'Translated caption, or empty' },
+          header: { type: 'boolean', description: 'True when the first row is a header row' },
+          rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+        }
+      }
+    },
+    figures: {
+      type: 'array',
+      description: 'Figures on the page, in order; [[FIGURE n]] in the translation marks where figure n goes',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['caption', 'region'],
+        properties: {
+          caption: { type: 'string', description: 'Translated caption, or empty' },
+          region: {
+            description: 'Figure area as fractions (0-1) of the page width/height from the top-left corner, or null if unknown',
+            anyOf: [
+              {
+                type: 'object',
+                additionalProperties: false,
+                required: ['x', 'y', 'width', 'height'],
+                properties: {
+                  x: { type: 'number' },
+                  y: { type: 'number' },
+                  width: { type: 'number' },
+                  height: { type: 'number' }
+                }
+              },
+              { type: 'null' }
+            ]
+          }
+        }
+      }
+    }
+  }
+} as const;
+
+/**
+ * Drop ```json fences and anything before the first "{"
+ */
+const stripWrapper = (content: string): string => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf('{');
+  return start === -1 ? text.trim() : text.slice(start).trim();
+};
+
+/**
+ * Is the quote at `index` the end of the string? It is when the next thing is a
+ * structural character (or a comma followed by the next key/value), not more text.
+ */
+const isClosingQuote = (text: string, index: number): boolean => {
+  const rest = text.slice(index + 1);
+  const next = rest.match(/^\s*(\S)/)?.[1];
+  if (next === undefined || next === '}' || next === ']' || next === ':') return true;
+  if (next !== ',') return false;
+
+  const afterComma = rest.slice(rest.indexOf(',') + 1).match(/^\s*(\S)/)?.[1];
+  return afterComma === undefined || afterComma === '"' || afterComma === '{' || afterComma === '[' || afterComma === '}' || afterComma === ']';
+};
+
+/**
+ * Best-effort repair of near-valid JSON: unescaped quotes and raw newlines inside strings,
+ * trailing commas, and output cut off mid-string or mid-object (closed where it stops)
+ */
+export const repairJson = (content: string): string => {
+  const text = stripWrapper(content);
+  const stack: string[] = [];
+  let output = '';
+  let inString = false;
+  let escaped = false;
+
+  const dropTrailingComma = (): void => {
+    output = output.replace(/,\s*$/, '');
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        output += char;
+        escaped = false;
+      } else if (char === '\\') {
+        output += char;
+        escaped = true;
+      } else if (char === '"') {
+        if (isClosingQuote(text, i)) {
+          output += char;
+          inString = false;
+        } else {
+          output += '\\"';
+        }
+      } else if (char === '\n') {
+        output += '\\n';
+      } else if (char === '\r') {
+        output += '\\r';
+      } else if (char === '\t') {
+        output += '\\t';
+      } else {
+        output += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      output += char;
+    } else if (char === '}' || char === ']') {
+      dropTrailingComma();
+      if (stack[stack.length - 1] === char) stack.pop();
+      output += char;
+      // Ignore anything after the outermost object
+      if (stack.length === 0) return output;
+    } else {
+      output += char;
+    }
+  }
+
+  // Truncated: close the open string, then every open object/array
+  if (inString) {
+    if (escaped) output = output.slice(0, -1);
+    output += '"';
+  }
+  output = output.replace(/\s+$/, '');
+  if (output.endsWith(':')) output += '""';
+  dropTrailingComma();
+  while (stack.length > 0) {
+    output += stack.pop();
+  }
+  return output;
+};
+
+/**
+ * Parse a JSON object out of a model response, repairing it if needed
+ * @throws ResponseParseError when even the repaired text is not JSON
+ */
+export const parseJsonObject = (content: string): { value: unknown; repaired: boolean } => {
+  try {
+    return { value: JSON.parse(stripWrapper(content)), repaired: false };
+  } catch {
+    // Fall through to repair
+  }
+
+  try {
+    return { value: JSON.parse(repairJson(content)), repaired: true };
+  } catch (error) {
+    throw new ResponseParseError(
+      `Response is not valid JSON (${error instanceof Error ? error.message : error})`,
+      content
+    );
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Figure region with every coordinate a fraction of the page; null when missing or unusable
+ */
+const toRegion = (value: unknown): PageRegion | null => {
+  if (!isRecord(value)) return null;
+  const { x, y, width, height } = value;
+  if (![x, y, width, height].every(n => typeof n === 'number' && n >= 0 && n <= 1)) return null;
+  const region = { x, y, width, height } as PageRegion;
+  // Clip to the page; a sliver is not worth cropping
+  region.width = Math.min(region.width, 1 - region.x);
+  region.height = Math.min(region.height, 1 - region.y);
+  return region.width >= 0.02 && region.height >= 0.02 ? region : null;
+};
+
+/**
+ * Check a parsed page response against the schema
+ * Translation, summary and article title are required; missing headings, footnotes,
+ * tables, figures, chapter/section titles and the bibliography flag default to
+ * empty/false (JSON-mode backends often omit them). A figure region that is off the
+ * page is dropped rather than failing the page.
+ * @throws ResponseValidationError listing every invalid field
+ */
+export const validatePageTranslation = (value: unknown): PageTranslation => {
+  if (!isRecord(value)) {
+    throw new ResponseValidationError([{ field: '(root)', message: 'expected a JSON object' }]);
+  }
+
+  const issues: FieldIssue[] = [];
+
+  const requiredString = (field: string): string => {
+    const fieldValue = value[field];
+    if (typeof fieldValue !== 'string') {
+      issues.push({ field, message: fieldValue === undefined ? 'missing' : `expected a string, got ${typeof fieldValue}` });
+      return '';
+    }
+    if (!fieldValue.trim() && field !== 'articleTitle') {
+      issues.push({ field, message: 'empty' });
+    }
+    return fieldValue.trim();
+  };
+
+  const optionalString = (field: string): string => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return '';
+    if (typeof fieldValue !== 'string') {
+      issues.push({ field, message: `expected a string, got ${typeof fieldValue}` });
+      return '';
+    }
+    return fieldValue.trim();
+  };
+
+  const optionalBoolean = (field: string): boolean => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return false;
+    if (typeof fieldValue !== 'boolean') {
+      issues.push({ field, message: `expected a boolean, got ${typeof fieldValue}` });
+      return false;
+    }
+    return fieldValue;
+  };
+
+  const optionalArray = (field: string): unknown[] => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return [];
+    if (!Array.isArray(fieldValue)) {
+      issues.push({ field, message: 'expected an array' });
+      return [];
+    }
+    return fieldValue;
+  };
+
+  const translation = requiredString('translation');
+  const summary = requiredString('summary');
+  const articleTitle = requiredString('articleTitle');
+  const chapterTitle = optionalString('chapterTitle');
+  const sectionTitle = optionalString('sectionTitle');
+
+  const headings: PageHeading[] = [];
+  optionalArray('headings').forEach((item, i) => {
+    const field = `headings[${i}]`;
+    if (!isRecord(item)) {
+      issues.push({ field, message: 'expected an object' });
+    } else if (item.level !== 1 && item.level !== 2 && item.level !== 3) {
+      issues.push({ field: `${field}.level`, message: `expected 1, 2 or 3, got ${JSON.stringify(item.level)}` });
+    } else if (typeof item.text !== 'string' || !item.text.trim()) {
+      issues.push({ field: `${field}.text`, message: 'expected a non-empty string' });
+    } else {
+      headings.push({ level: item.level, text: item.text.trim() });
+    }
+  });
+
+  const footnotes: PageFootnote[] = [];
+  optionalArray('footnotes').forEach((item, i) => {
+    const field = `footnotes[${i}]`;
+    if (!isRecord(item)) {
+      issues.push({ field, message: 'expected an object' });
+    } else if (typeof item.text !== 'string' || !item.text.trim()) {
+      issues.push({ field: `${field}.text`, message: 'expected a non-empty string' });
+    } else {
+      footnotes.push({ marker: typeof item.marker === 'string' ? item.marker.trim() : String(item.marker ?? ''), text: item.text.trim() });
+    }
+  });
+
+  const bibliography = optionalBoolean('bibliography');
+
+  const tables: PageTable[] = [];
+  optionalArray('tables').forEach((item, i) => {
+    const field = `tables[${i}]`;
+    if (!isRecord(item)) {
+      issues.push({ field, message: 'expected an object' });
+    } else if (!Array.isArray(item.rows) || !item.rows.every(row => Array.isArray(row))) {
+      issues.push({ field: `${field}.rows`, message: 'expected an array of rows (arrays of cells)' });
+    } else {
+      const rows = (item.rows as unknown[][])
+        .map(row => row.map(cell => (typeof cell === 'string' ? cell.trim() : String(cell ?? ''))))
+        .filter(row => row.length > 0);
+      if (rows.length === 0) {
+        issues.push({ field: `${field}.rows`, message: 'empty' });
+      } else {
+        tables.push({ caption: typeof item.caption === 'string' ? item.caption.trim() : '', header: item.header === true, rows });
+      }
+    }
+  });
+
+  const figures: PageFigure[] = [];
+  optionalArray('figures').forEach((item, i) => {
+    if (!isRecord(item)) {
+      issues.push({ field: `figures[${i}]`, message: 'expected an object' });
+    } else {
+      figures.push({ caption: typeof item.caption === 'string' ? item.caption.trim() : '', region: toRegion(item.region) });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError(issues);
+  }
+  return { translation, summary, articleTitle, chapterTitle, sectionTitle, headings, footnotes, bibliography, tables, figures };
+};
+
+/**
+ * Parse (repairing if needed) and validate a page response
+ */
+export const parsePageTranslation = (content: string): PageTranslation => {
+  const { value, repaired } = parseJsonObject(content);
+  const translation = validatePageTranslation(value);
+  if (repaired) {
+    console.warn('🩹 Repaired malformed JSON in the page response');
+  }
+  return translation;
+};
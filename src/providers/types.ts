@@ -0,0 +1,214 @@
+import type { HeadingHint } from '../utils/pdfTextExtractor';
+import type { GlossaryEntry } from '../utils/glossary';
+import type { OutlineHeading } from '../utils/pdfOutline';
+import type { LanguageCode } from '../i18n';
+
+/**
+ * Translation backend abstraction
+ * Every backend (OpenAI, an OpenAI-compatible server, the offline fake) implements
+ * TranslationProvider, so the page loop and the summarizer never talk to an SDK directly.
+ */
+
+/**
+ * Model settings owned by the provider instead of literals in the call sites
+ */
+export interface ProviderConfig {
+  model: string;
+  temperature: number;
+  /** Max tokens for a page translation response */
+  maxTokens: number;
+  /** Max tokens for a chunk summary response */
+  summaryMaxTokens: number;
+  /**
+   * How the page response format is requested: 'json_schema' (structured outputs, strict),
+   * 'json_object' (JSON mode, for servers without schema support) or 'none' (prompt only).
+   * The response is validated against the same schema either way.
+   */
+  responseFormat: ResponseFormatMode;
+  /** Language of the PDF */
+  sourceLanguage: LanguageCode;
+  /** Language of the translation and summaries */
+  targetLanguage: LanguageCode;
+  /** Directory of custom prompt templates, overriding prompts/ file by file */
+  promptsDir?: string;
+}
+
+export type ResponseFormatMode = 'json_schema' | 'json_object' | 'none';
+
+/**
+ * Page input: a rendered image (vision) or the PDF's own text layer
+ */
+export type PageContent =
+  | { kind: 'image'; imagePath: string }
+  | { kind: 'text'; text: string; headings: HeadingHint[] };
+
+export interface PageTranslationRequest {
+  pageNumber: number;
+  content: PageContent;
+  /** End of the previous page, for continuity */
+  previousContext: string;
+  /**
+   * Where previousContext comes from: the previous page's translation, or
+   * its source text when that page is still being translated in parallel
+   */
+  previousContextSource?: 'translation' | 'source';
+  chapterContext: string;
+  /**
+   * Where chapterContext comes from: the PDF outline, or the headings of the earlier pages
+   * finished so far (which pages those are depends on timing when pages run in parallel)
+   */
+  chapterContextSource?: 'outline' | 'pages';
+  /** Mandatory terminology relevant to this page */
+  glossary?: GlossaryEntry[];
+  /** Headings the PDF outline places on this page (source language), in order */
+  outlineHeadings?: OutlineHeading[];
+  /**
+   * Set when the content is one part of a page, from top to bottom (1-based index):
+   * the whole page did not fit in one response (see pageSplitter.ts)
+   */
+  part?: { index: number; count: number };
+  /** Reviewer's instruction for a re-translation (--retranslate --note) */
+  reviewerNote?: string;
+}
+
+export interface PageHeading {
+  /** 1 = chapter, 2 = section, 3 = subsection */
+  level: 1 | 2 | 3;
+  text: string;
+}
+
+export interface PageFootnote {
+  /** Footnote number or symbol as printed on the page */
+  marker: string;
+  text: string;
+}
+
+/** A table on the page, translated cell by cell */
+export interface PageTable {
+  /** Translated caption as printed ("טבלה 1: ..."), or empty */
+  caption: string;
+  /** The first row is a header row */
+  header: boolean;
+  rows: string[][];
+}
+
+/** Part of a page as fractions (0-1) of its width and height, from the top-left corner */
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A figure (chart, photo, diagram) on the page */
+export interface PageFigure {
+  /** Translated caption as printed ("איור 1: ..."), or empty */
+  caption: string;
+  /** Where the figure is on the page; null when the model could not see it (text-layer pages) */
+  region: PageRegion | null;
+}
+
+/**
+ * Structured page result returned by every provider (schema: responseSchema.ts)
+ */
+export interface PageTranslation {
+  translation: string;
+  summary: string;
+  articleTitle: string;
+  chapterTitle?: string;
+  sectionTitle?: string;
+  /** Every heading on the page in reading order */
+  headings?: PageHeading[];
+  /** Footnotes printed on the page; the translation marks where each is referenced as [^marker] */
+  footnotes?: PageFootnote[];
+  /** The page is a reference list, copied in the source language rather than translated */
+  bibliography?: boolean;
+  /** Tables and figures; the translation marks where each one goes as [[TABLE n]] / [[FIGURE n]] (1-based) */
+  tables?: PageTable[];
+  figures?: PageFigure[];
+}
+
+/**
+ * Levels of the summary tree: chunk (section) summaries roll up into chapter summaries,
+ * and those into one summary of the whole document
+ */
+export type SummaryLevel = 'section' | 'chapter' | 'document';
+
+/** Target length of one summary (sentence counts: prompts.ts) */
+export type SummaryLength = 'abstract' | 'brief' | 'detailed';
+
+export interface ChunkSummaryRequest {
+  title: string;
+  text: string;
+  pages: number[];
+  chunkIndex: number;
+  totalChunks: number;
+  /** Default: detailed */
+  length?: SummaryLength;
+  /** Mandatory terminology for the whole document */
+  glossary?: GlossaryEntry[];
+}
+
+/**
+ * Combine lower-level summaries into one chapter or document summary
+ */
+export interface SummaryRollupRequest {
+  level: Exclude<SummaryLevel, 'section'>;
+  /** Chapter title, or the document title */
+  title: string;
+  /** Every page the combined summaries cover */
+  pages: number[];
+  /** The summaries being combined, in document order */
+  parts: { title: string; pages: number[]; summary: string }[];
+  length: SummaryLength;
+  glossary?: GlossaryEntry[];
+}
+
+/**
+ * Ask how specific source terms were rendered in a page's translation
+ */
+export interface TermAlignmentRequest {
+  pageNumber: number;
+  sourceText: string;
+  translation: string;
+  terms: string[];
+}
+
+/** Source term -> rendering used in the translation ('' when the term was not found) */
+export type TermAlignment = Record<string, string>;
+
+/**
+ * Tokens billed for one API call, as reported by the API (`response.usage`)
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageEvent extends TokenUsage {
+  operation: 'page' | 'chunk' | 'rollup' | 'alignment';
+  model: string;
+  /** Page the call was for (page translation and term alignment) */
+  pageNumber?: number;
+  /** Summary chunk the call was for */
+  chunkIndex?: number;
+}
+
+/**
+ * Called once per completed API call, including calls whose response is later rejected
+ */
+export type UsageListener = (event: UsageEvent) => void;
+
+export interface TranslationProvider {
+  /** Short identifier used in logs, e.g. 'openai' */
+  readonly name: string;
+  readonly config: ProviderConfig;
+  /** Translate one page; throws on API or parse errors so the caller can retry */
+  translatePage(request: PageTranslationRequest): Promise<PageTranslation>;
+  /** Summarize one chunk of translated text; returns the summary text */
+  summarizeChunk(request: ChunkSummaryRequest): Promise<string>;
+  /** Summarize chapter or document summaries into one; returns the summary text */
+  summarizeRollup(request: SummaryRollupRequest): Promise<string>;
+  /** Find how each source term was rendered in the translation (glossary mining) */
+  alignTerms(request: TermAlignmentRequest): Promise<TermAlignment>;
+}
@@ -0,0 +1,138 @@
+/**
+ * Minimal bidirectional reordering for drawing Hebrew lines
+ * PDF text is drawn left to right glyph by glyph, so every line has to be turned
+ * from logical order (as stored) into visual order first. This is a simplified
+ * form of the Unicode Bidi Algorithm for a right-to-left paragraph:
+ * Hebrew runs are reversed, English words and numbers keep their own order
+ * ("DSM-5", "3.14", "20%"), and brackets inside Hebrew runs are mirrored.
+ */
+
+type BidiClass = 'R' | 'L' | 'EN' | 'N';
+
+const HEBREW_PATTERN = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const LETTER_PATTERN = /\p{L}/u;
+const DIGIT_PATTERN = /[0-9]/;
+// Separators inside a number ("3.14", "1,000", "12:30", "1/2")
+const NUMBER_SEPARATORS = new Set(['.', ',', ':', '/']);
+// Signs that stick to an adjacent number ("20%", "$5", "-3", "+2")
+const NUMBER_AFFIXES = new Set(['%', '$', '€', '₪', '#', '°', '+', '-']);
+
+const MIRRORED: Record<string, string> = {
+  '(': ')', ')': '(',
+  '[': ']', ']': '[',
+  '{': '}', '}': '{',
+  '<': '>', '>': '<',
+  '«': '»', '»': '«'
+};
+
+const classify = (char: string): BidiClass => {
+  if (HEBREW_PATTERN.test(char)) return 'R';
+  if (DIGIT_PATTERN.test(char)) return 'EN';
+  if (LETTER_PATTERN.test(char)) return 'L';
+  return 'N';
+};
+
+/**
+ * Resolve each character to a display direction: 'R', or 'L' for anything drawn left to right
+ */
+const resolveClasses = (chars: string[]): BidiClass[] => {
+  const classes = chars.map(classify);
+
+  // Separators between digits and affixes next to digits become part of the number
+  for (let i = 0; i < chars.length; i++) {
+    if (classes[i] !== 'N') continue;
+    const isSeparator = NUMBER_SEPARATORS.has(chars[i]) && classes[i - 1] === 'EN' && classes[i + 1] === 'EN';
+    const isAffix = NUMBER_AFFIXES.has(chars[i]) && (classes[i - 1] === 'EN' || classes[i + 1] === 'EN');
+    if (isSeparator || isAffix) classes[i] = 'EN';
+  }
+
+  // A number after English text belongs to it ("DSM-5", "Figure 3")
+  let lastStrong: BidiClass = 'R';
+  for (let i = 0; i < classes.length; i++) {
+    if (classes[i] === 'R' || classes[i] === 'L') lastStrong = classes[i];
+    else if (classes[i] === 'EN' && lastStrong === 'L') classes[i] = 'L';
+  }
+
+  // Neutrals take the direction of their surroundings when both sides agree,
+  // otherwise the paragraph direction (numbers count as right-to-left here)
+  const strongAt = (index: number): BidiClass => {
+    const value = classes[index];
+    return value === 'EN' ? 'R' : value;
+  };
+  for (let i = 0; i < classes.length; i++) {
+    if (classes[i] !== 'N') continue;
+    let end = i;
+    while (end < classes.length && classes[end] === 'N') end++;
+    const before = i > 0 ? strongAt(i - 1) : 'R';
+    const after = end < classes.length ? strongAt(end) : 'R';
+    const direction: BidiClass = before === after ? before : 'R';
+    for (let j = i; j < end; j++) classes[j] = direction;
+    i = end - 1;
+  }
+
+  return classes;
+};
+
+/**
+ * Whether a string contains any right-to-left characters
+ */
+export const hasRtl = (text: string): boolean => HEBREW_PATTERN.test(text);
+
+export interface VisualRun {
+  /** Characters in visual (left-to-right drawing) order */
+  text: string;
+  /** Run comes from right-to-left text */
+  rtl: boolean;
+}
+
+/**
+ * Reorder one line (no line breaks) from logical to visual order for a right-to-left
+ * paragraph, split into runs of the same direction
+ */
+export const toVisualRuns = (line: string): VisualRun[] => {
+  const chars = Array.from(line);
+  if (chars.length === 0) return [];
+
+  const classes = resolveClasses(chars);
+  // Embedding levels: right-to-left text is 1, left-to-right text and numbers are 2
+  const levels = classes.map(value => (value === 'R' ? 1 : 2));
+
+  const reverseRuns = (minLevel: number): void => {
+    let i = 0;
+    while (i < chars.length) {
+      if (levels[i] < minLevel) {
+        i++;
+        continue;
+      }
+      let end = i;
+      while (end < chars.length && levels[end] >= minLevel) end++;
+      chars.splice(i, end - i, ...chars.slice(i, end).reverse());
+      levels.splice(i, end - i, ...levels.slice(i, end).reverse());
+      i = end;
+    }
+  };
+
+  // Mirror brackets that end up in right-to-left runs
+  for (let i = 0; i < chars.length; i++) {
+    if (levels[i] === 1 && MIRRORED[chars[i]]) chars[i] = MIRRORED[chars[i]];
+  }
+
+  reverseRuns(2);
+  reverseRuns(1);
+
+  const runs: VisualRun[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const rtl = levels[i] === 1;
+    const last = runs[runs.length - 1];
+    if (last && last.rtl === rtl) last.text += chars[i];
+    else runs.push({ text: chars[i], rtl });
+  }
+  return runs;
+};
+
+/**
+ * Reorder one line from logical to visual order (see toVisualRuns)
+ */
+export const toVisualOrder = (line: string): string => {
+  return toVisualRuns(line).map(run => run.text).join('');
+};
@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import { Packer, Paragraph, TextRun, ImageRun, Table, TableRow, TableCell, WidthType, HeadingLevel, AlignmentType, ShadingType } from 'docx';
+import { escapeHtml, wrapHtmlPage } from './htmlRenderer';
+import { textParagraph, createDocument, getImageInfo } from './docxRenderer';
+import type { BilingualDocument, BilingualRow } from './types';
+import type { Language, UiStrings } from '../i18n';
+
+/**
+ * Bilingual side-by-side output
+ * One table row per source page: the translation first in the target's reading direction
+ * (on the right for Hebrew), the source (text layer, or the page image for scans) next to
+ * it. Failed pages keep their row with a "not translated" marker next to the source.
+ */
+// Page image width inside a DOCX cell, in pixels
+const DOCX_IMAGE_WIDTH = 300;
+
+const STYLES = `
+    body { max-width: 80em; }
+    table.bilingual { width: 100%; border-collapse: collapse; table-layout: fixed; }
+    table.bilingual td, table.bilingual th { border: 1px solid #ccc; padding: .6em .8em; vertical-align: top; }
+    table.bilingual td.source { font-family: "Georgia", serif; text-align: start; }
+    table.bilingual tr.page-label th { background: #f0f0f0; text-align: start; font-weight: normal; }
+    table.bilingual td.failed { background: #fff3f3; color: #a00; }
+    table.bilingual img { max-width: 100%; }
+    @media print { table.bilingual tr { page-break-inside: avoid; } }`;
+
+/**
+ * "עמוד 12 · chapter · section"
+ */
+const getRowLabel = (row: BilingualRow, strings: UiStrings): string => {
+  return [strings.page(row.pageNumber), row.chapterTitle, row.sectionTitle].filter(Boolean).join(' · ');
+};
+
+const renderSourceHtml = async (row: BilingualRow, strings: UiStrings): Promise<string> => {
+  if (row.source.kind === 'text' && row.source.text.trim()) {
+    return escapeHtml(row.source.text.trim()).replace(/\n/g, '<br>');
+  }
+  if (row.source.kind === 'image' && (await fs.pathExists(row.source.imagePath))) {
+    const data = await fs.readFile(row.source.imagePath);
+    return `<img src="data:${getImageInfo(data).mimeType};base64,${data.toString('base64')}" alt="${escapeHtml(strings.page(row.pageNumber))}">`;
+  }
+  return `<em>${strings.noSource}</em>`;
+};
+
+/**
+ * Standalone HTML with a two-column table (translation | source)
+ */
+export const renderBilingualHtml = async (document: BilingualDocument): Promise<string> => {
+  const { source, target } = document.languages;
+  const { strings } = target;
+  const sourceAttributes = `lang="${source.code}" dir="${source.direction}"`;
+  const parts: string[] = [];
+
+  if (document.title) {
+    parts.push(`<h1>${escapeHtml(document.title)}</h1>`);
+  }
+
+  parts.push('<table class="bilingual">');
+  parts.push(`<thead><tr><th>${target.nativeName}</th><th ${sourceAttributes}>${source.nativeName}</th></tr></thead>`);
+  parts.push('<tbody>');
+
+  for (const row of document.rows) {
+    const translationCell = row.translation === null
+      ? `<td class="translation failed"><strong>${strings.notTranslated}</strong></td>`
+      : `<td class="translation">${escapeHtml(row.translation).replace(/\n/g, '<br>')}</td>`;
+
+    parts.push(`<tr class="page-label" id="page-${row.pageNumber}"><th colspan="2">${escapeHtml(getRowLabel(row, strings))}</th></tr>`);
+    parts.push(`<tr>${translationCell}<td class="source" ${sourceAttributes}>${await renderSourceHtml(row, strings)}</td></tr>`);
+  }
+
+  parts.push('</tbody>', '</table>');
+
+  const title = document.title ? `${strings.bilingualTitle} - ${document.title}` : strings.bilingualTitle;
+  return wrapHtmlPage(title, parts.join('\n'), target, STYLES);
+};
+
+const renderSourceDocx = async (row: BilingualRow, source: Language, strings: UiStrings): Promise<Paragraph[]> => {
+  if (row.source.kind === 'text' && row.source.text.trim()) {
+    // Runs default to the target's direction; source lines set their own
+    return row.source.text.trim().split('\n').map(line => textParagraph(line, source.direction));
+  }
+  if (row.source.kind === 'image' && (await fs.pathExists(row.source.imagePath))) {
+    const data = await fs.readFile(row.source.imagePath);
+    const image = getImageInfo(data);
+    return [new Paragraph({
+      children: [new ImageRun({
+        type: image.type,
+        data,
+        transformation: { width: DOCX_IMAGE_WIDTH, height: Math.round(image.height * DOCX_IMAGE_WIDTH / image.width) }
+      })]
+    })];
+  }
+  return [new Paragraph({ children: [new TextRun({ text: strings.noSource, italics: true })] })];
+};
+
+const renderTranslationDocx = (row: BilingualRow, target: Language): Paragraph[] => {
+  if (row.translation === null) {
+    const rightToLeft = target.direction === 'rtl';
+    return [new Paragraph({
+      bidirectional: rightToLeft,
+      alignment: rightToLeft ? AlignmentType.RIGHT : AlignmentType.LEFT,
+      children: [new TextRun({ text: target.strings.notTranslated, bold: true, color: 'AA0000', rightToLeft })]
+    })];
+  }
+  return row.translation.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean)
+    .map(paragraph => textParagraph(paragraph, target.direction));
+};
+
+/**
+ * DOCX with a two-column table in the target's direction, so a right-to-left translation is on the right
+ */
+export const renderBilingualDocx = async (document: BilingualDocument): Promise<Buffer> => {
+  const { source, target } = document.languages;
+  const { strings } = target;
+  const rows: TableRow[] = [
+    new TableRow({
+      tableHeader: true,
+      children: [
+        new TableCell({ children: [textParagraph(target.nativeName, target.direction)] }),
+        new TableCell({ children: [textParagraph(source.nativeName, source.direction)] })
+      ]
+    })
+  ];
+
+  for (const row of document.rows) {
+    rows.push(new TableRow({
+      children: [new TableCell({
+        columnSpan: 2,
+        shading: { type: ShadingType.CLEAR, fill: 'F0F0F0', color: 'auto' },
+        children: [textParagraph(getRowLabel(row, strings), target.direction)]
+      })]
+    }));
+    rows.push(new TableRow({
+      children: [
+        new TableCell({
+          children: renderTranslationDocx(row, target),
+          shading: row.translation === null ? { type: ShadingType.CLEAR, fill: 'FFF3F3', color: 'auto' } : undefined
+        }),
+        new TableCell({ children: await renderSourceDocx(row, source, strings) })
+      ]
+    }));
+  }
+
+  const children = [
+    ...(document.title ? [textParagraph(document.title, target.direction, HeadingLevel.TITLE)] : []),
+    new Table({
+      rows,
+      visuallyRightToLeft: target.direction === 'rtl',
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      columnWidths: [4680, 4680]
+    })
+  ];
+
+  return Packer.toBuffer(createDocument(document.title || strings.bilingualTitle, children, target));
+};
@@ -0,0 +1,349 @@
+import type { TranslationResult } from '../utils/pageProcessor';
+import { getResultHeadings } from '../utils/pdfOutline';
+import { findRunningLines, stripRunningLines, endsMidSentence, removeOverlap } from './stitching';
+import type { StitchingStats } from './stitching';
+import { DEFAULT_LANGUAGES } from '../i18n';
+import type { LanguagePair, UiStrings } from '../i18n';
+import type {
+  TranslationDocument,
+  DocumentBlock,
+  DocumentNote,
+  HeadingBlock,
+  TableBlock,
+  SummaryDocument,
+  SummarySection,
+  SummaryChapter,
+  SummaryEntry,
+  BilingualDocument,
+  BilingualRow,
+  BilingualSource
+} from './types';
+
+/**
+ * Split a page translation into paragraphs on blank lines
+ */
+const splitParagraphs = (text: string): string[] => {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Most common article title among successful pages (the model repeats it per page)
+ */
+const getDocumentTitle = (results: TranslationResult[]): string => {
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    if (result.status !== 'OK' || !result.articleTitle) continue;
+    counts.set(result.articleTitle, (counts.get(result.articleTitle) || 0) + 1);
+  }
+
+  let title = '';
+  let bestCount = 0;
+  for (const [candidate, count] of counts) {
+    if (count > bestCount) {
+      title = candidate;
+      bestCount = count;
+    }
+  }
+  return title;
+};
+
+/** Footnote marker as the model writes it in the translation, e.g. "[^1]" or "[^*]" */
+const PAGE_MARKER_PATTERN = /\[\^([^\]\s]{1,8})\]/g;
+
+/** Note reference in document paragraphs: "[^n]", n = number of the note within the chapter */
+const NOTE_REFERENCE_PATTERN = /\[\^(\d+)\]/g;
+
+/** Where the model placed table/figure n in the translation: "[[TABLE n]]" / "[[FIGURE n]]" */
+const PLACEHOLDER_PATTERN = /\[\[(TABLE|FIGURE) (\d+)\]\]/g;
+
+/**
+ * Table as plain text: the caption, then one line per row with cells separated by " | "
+ */
+export const formatTableText = (table: Pick<TableBlock, 'caption' | 'rows'>, strings: UiStrings): string => {
+  return [table.caption || `[${strings.table}]`, ...table.rows.map(row => row.join(' | '))].join('\n');
+};
+
+/**
+ * Figure as plain text: "[caption]" (captions are translated as printed, "איור 1: ..."), or "[איור]"
+ */
+export const formatFigureText = (caption: string, strings: UiStrings): string => `[${caption || strings.figure}]`;
+
+/**
+ * Page translation with its table/figure placeholders replaced by their text, for
+ * consumers that only take plain text (summaries, the bilingual view)
+ * @param strings - Labels of tables and figures without a caption
+ */
+export const getPageText = (result: TranslationResult, strings: UiStrings = DEFAULT_LANGUAGES.target.strings): string => {
+  return result.translation.replace(PLACEHOLDER_PATTERN, (placeholder, kind: string, n: string) => {
+    if (kind === 'TABLE') {
+      const table = result.tables?.[Number(n) - 1];
+      return table ? formatTableText(table, strings) : '';
+    }
+    const figure = result.figures?.[Number(n) - 1];
+    return figure ? formatFigureText(figure.caption, strings) : '';
+  });
+};
+
+/**
+ * Build the translation document: chapter, section and subsection headings and paragraphs.
+ * A heading is emitted only when it differs from the current heading of its level
+ * (the model may repeat a running title); FAILED pages are skipped.
+ * Footnotes are renumbered from 1 in every chapter and listed at the chapter's end;
+ * markers without a footnote on their page are dropped.
+ * Tables and figures go where the translation's placeholders put them, or after the
+ * page's text when it has none.
+ * Pages are stitched together (see stitching.ts): running headers, footers and page numbers
+ * are removed, a page start that repeats the previous page's end is dropped, and a
+ * paragraph cut by the page break is joined with its continuation.
+ * Reference lists (kept in the source language) are marked with the source direction when
+ * it differs from the target's.
+ * @param figureImages - Cropped figure PNGs per page number, by figure index (see cropFigures)
+ */
+export const buildTranslationDocument = (
+  results: TranslationResult[],
+  figureImages: Map<number, (string | undefined)[]> = new Map(),
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): TranslationDocument => {
+  const blocks: DocumentBlock[] = [];
+  // Current heading per level; a new heading closes every deeper level
+  const current: string[] = [];
+  let headingCount = 0;
+  let notes: DocumentNote[] = [];
+  let noteGroup = 1;
+  const stitching: StitchingStats = { joined: 0, overlaps: 0, runningLines: 0 };
+  // Page the last paragraph ends on (a joined paragraph ends past its own page)
+  let lastParagraphEnd = 0;
+  const runningLines = findRunningLines(results.filter(result => result.status === 'OK').map(result => result.translation));
+
+  const flushNotes = (): void => {
+    if (notes.length === 0) return;
+    blocks.push({ type: 'notes', group: noteGroup++, notes });
+    notes = [];
+  };
+
+  for (const result of results) {
+    if (result.status !== 'OK') continue;
+
+    for (const heading of getResultHeadings(result)) {
+      if (current[heading.level - 1] === heading.text) continue;
+      if (heading.level === 1) flushNotes();
+      blocks.push({ type: 'heading', level: heading.level, text: heading.text, id: `h${++headingCount}`, pageNumber: result.pageNumber });
+      current[heading.level - 1] = heading.text;
+      current.length = heading.level;
+    }
+
+    // Page markers -> chapter note numbers
+    const numbers = new Map<string, number>();
+    for (const footnote of result.footnotes || []) {
+      const note = { number: notes.length + 1, text: footnote.text, pageNumber: result.pageNumber };
+      notes.push(note);
+      if (footnote.marker && !numbers.has(footnote.marker)) numbers.set(footnote.marker, note.number);
+    }
+
+    // Only the page's first block can continue the previous page
+    let pageStart = true;
+    const direction = result.bibliography && languages.source.direction !== languages.target.direction
+      ? languages.source.direction
+      : undefined;
+
+    const pushParagraph = (paragraph: string): void => {
+      let text = paragraph.replace(PAGE_MARKER_PATTERN, (_, marker: string) => {
+        const number = numbers.get(marker);
+        return number === undefined ? '' : `[^${number}]`;
+      }).trim();
+      if (!text) return;
+
+      const continues = pageStart;
+      pageStart = false;
+      const previous = blocks[blocks.length - 1];
+      if (continues && previous?.type === 'paragraph' && lastParagraphEnd === result.pageNumber - 1 && previous.direction === direction) {
+        const overlap = removeOverlap(previous.text, text);
+        if (overlap.removedWords > 0) {
+          stitching.overlaps++;
+          text = overlap.text;
+          if (!text) return;
+        }
+        if (!direction && endsMidSentence(previous.text)) {
+          previous.text = `${previous.text} ${text}`;
+          if (text.search(NOTE_REFERENCE_PATTERN) >= 0) previous.noteGroup = noteGroup;
+          stitching.joined++;
+          lastParagraphEnd = result.pageNumber;
+          return;
+        }
+      }
+
+      lastParagraphEnd = result.pageNumber;
+
+      blocks.push({
+        type: 'paragraph',
+        text,
+        pageNumber: result.pageNumber,
+        noteGroup: text.search(NOTE_REFERENCE_PATTERN) >= 0 ? noteGroup : undefined,
+        direction
+      });
+    };
+
+    // Each table/figure is placed once, at its first placeholder
+    const tables = result.tables || [];
+    const figures = result.figures || [];
+    const placed = new Set<string>();
+    const pushItem = (kind: string, index: number): void => {
+      const key = `${kind}${index}`;
+      if (placed.has(key)) return;
+      pageStart = false;
+      if (kind === 'TABLE' && tables[index]) {
+        blocks.push({ type: 'table', ...tables[index], pageNumber: result.pageNumber });
+      } else if (kind === 'FIGURE' && figures[index]) {
+        const imagePath = figureImages.get(result.pageNumber)?.[index];
+        blocks.push({ type: 'figure', caption: figures[index].caption, imagePath, pageNumber: result.pageNumber });
+      }
+      placed.add(key);
+    };
+
+    const page = stripRunningLines(result.translation, runningLines);
+    stitching.runningLines += page.removed;
+
+    for (const paragraph of splitParagraphs(page.text)) {
+      let last = 0;
+      for (const match of paragraph.matchAll(PLACEHOLDER_PATTERN)) {
+        pushParagraph(paragraph.slice(last, match.index));
+        pushItem(match[1], Number(match[2]) - 1);
+        last = match.index! + match[0].length;
+      }
+      pushParagraph(paragraph.slice(last));
+    }
+    tables.forEach((_, index) => pushItem('TABLE', index));
+    figures.forEach((_, index) => pushItem('FIGURE', index));
+  }
+  flushNotes();
+
+  return { title: getDocumentTitle(results), blocks, stitching, languages };
+};
+
+/**
+ * Split paragraph text into plain text and note numbers, in order
+ */
+export const splitNoteReferences = (text: string): (string | number)[] => {
+  const parts: (string | number)[] = [];
+  let last = 0;
+  for (const match of text.matchAll(NOTE_REFERENCE_PATTERN)) {
+    if (match.index! > last) parts.push(text.slice(last, match.index));
+    parts.push(Number(match[1]));
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+};
+
+/**
+ * Replace the note references in paragraph text, e.g. with "[n]" for plain text
+ */
+export const formatNoteReferences = (text: string, format: (number: number) => string): string => {
+  return text.replace(NOTE_REFERENCE_PATTERN, (_, number: string) => format(Number(number)));
+};
+
+/**
+ * Build the summary document from chunk titles/pages and their summaries.
+ * Consecutive chunks of the same chapter are grouped; chapter and document summaries
+ * are filled in by the summary pipeline.
+ */
+export const buildSummaryDocument = (
+  results: TranslationResult[],
+  chunks: { title: string; chapter: string; pages: number[] }[],
+  chunkSummaries: string[],
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): SummaryDocument => {
+  const chapters: SummaryChapter[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const section: SummarySection = { title: chunk.title, pages: chunk.pages, summary: chunkSummaries[i] || '' };
+    const last = chapters[chapters.length - 1];
+    if (last && last.title === chunk.chapter) {
+      last.sections.push(section);
+      last.pages = [...last.pages, ...chunk.pages];
+    } else {
+      chapters.push({ title: chunk.chapter, pages: [...chunk.pages], summary: '', sections: [section] });
+    }
+  });
+
+  return { title: getDocumentTitle(results), chapters, languages };
+};
+
+/**
+ * The summary tree in reading order: executive summary, then each chapter (with its
+ * summary, if any) followed by its sections. Sections of the untitled chapter are top-level.
+ */
+export const getSummaryEntries = (document: SummaryDocument): SummaryEntry[] => {
+  const entries: SummaryEntry[] = [];
+  if (document.overview) {
+    entries.push({ level: 1, ...document.overview });
+  }
+
+  for (const chapter of document.chapters) {
+    if (chapter.title) {
+      entries.push({ level: 1, title: chapter.title, pages: chapter.pages, summary: chapter.summary });
+    }
+    for (const section of chapter.sections) {
+      entries.push({ level: chapter.title ? 2 : 1, ...section });
+    }
+  }
+  return entries;
+};
+
+/**
+ * Pair every page's source with its translation, one row per page.
+ * Failed pages keep their row (with translation null); chapter/section labels
+ * carry over from the last translated page so failed pages still show where they belong.
+ * @param sources - Source text or page image per page number
+ */
+export const buildBilingualDocument = (
+  results: TranslationResult[],
+  sources: Map<number, BilingualSource>,
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): BilingualDocument => {
+  let chapterTitle: string | undefined;
+  let sectionTitle: string | undefined;
+
+  const rows: BilingualRow[] = results.map(result => {
+    if (result.status === 'OK') {
+      if (result.chapterTitle && result.chapterTitle !== chapterTitle) sectionTitle = undefined;
+      chapterTitle = result.chapterTitle || chapterTitle;
+      sectionTitle = result.sectionTitle || sectionTitle;
+    }
+
+    // Footnotes follow the page text, with their markers as "[1]"
+    const footnotes = result.footnotes || [];
+    const translation = [
+      getPageText(result, languages.target.strings).replace(PAGE_MARKER_PATTERN, '[$1]'),
+      ...footnotes.map(footnote => `${footnote.marker ? `[${footnote.marker}] ` : ''}${footnote.text}`)
+    ].join('\n\n');
+
+    return {
+      pageNumber: result.pageNumber,
+      status: result.status,
+      chapterTitle,
+      sectionTitle,
+      source: sources.get(result.pageNumber) || { kind: 'none' },
+      translation: result.status === 'OK' ? translation : null
+    };
+  });
+
+  return { title: getDocumentTitle(results), rows, languages };
+};
+
+/**
+ * Table of contents: every heading with the page of the original it is on
+ */
+export const getTableOfContents = (document: TranslationDocument): HeadingBlock[] => {
+  return document.blocks.filter((block): block is HeadingBlock => block.type === 'heading');
+};
+
+/**
+ * "first-last" page range label
+ */
+export const formatPageRange = (pages: number[]): string => {
+  return `${pages[0]}-${pages[pages.length - 1]}`;
+};
@@ -0,0 +1,269 @@
+import fs from 'fs-extra';
+import { Document, Packer, Paragraph, Table, TableRow, TableCell, TextRun, ImageRun, HeadingLevel, AlignmentType, WidthType } from 'docx';
+import { formatPageRange, getSummaryEntries, getTableOfContents, splitNoteReferences } from './documentModel';
+import type { Renderer, TranslationDocument, SummaryDocument, DocumentBlock, TableBlock, FigureBlock } from './types';
+import type { Language, TextDirection, UiStrings } from '../i18n';
+
+// Widest figure image, in pixels (about the text width of an A4/Letter page)
+const FIGURE_MAX_WIDTH = 560;
+
+/**
+ * Paragraph direction and alignment for text in a language's direction
+ */
+const directionOptions = (direction: TextDirection) => ({
+  bidirectional: direction === 'rtl',
+  alignment: direction === 'rtl' ? AlignmentType.RIGHT : AlignmentType.LEFT
+});
+
+/**
+ * Paragraph in the given direction; heading paragraphs use Word's built-in Heading styles
+ */
+export const textParagraph = (
+  text: string,
+  direction: TextDirection,
+  heading?: (typeof HeadingLevel)[keyof typeof HeadingLevel]
+): Paragraph => {
+  return new Paragraph({
+    heading,
+    ...directionOptions(direction),
+    children: [new TextRun({ text, rightToLeft: direction === 'rtl' })]
+  });
+};
+
+/**
+ * Multi-line text as one paragraph with line breaks
+ */
+const multilineParagraph = (text: string, direction: TextDirection): Paragraph => {
+  return new Paragraph({
+    ...directionOptions(direction),
+    children: text.split('\n').map((line, i) => new TextRun({ text: line, rightToLeft: direction === 'rtl', break: i > 0 ? 1 : undefined }))
+  });
+};
+
+/**
+ * Body paragraph with superscript note numbers; reference lists keep the source direction
+ */
+const bodyParagraph = (block: Extract<DocumentBlock, { type: 'paragraph' }>, documentDirection: TextDirection): Paragraph => {
+  const direction = block.direction || documentDirection;
+  const rightToLeft = direction === 'rtl';
+  const children: TextRun[] = [];
+  block.text.split('\n').forEach((line, i) => {
+    splitNoteReferences(line).forEach((part, j) => {
+      const text = typeof part === 'number' ? String(part) : part;
+      children.push(new TextRun({ text, rightToLeft, superScript: typeof part === 'number', break: i > 0 && j === 0 ? 1 : undefined }));
+    });
+  });
+
+  return new Paragraph({ ...directionOptions(direction), children });
+};
+
+/**
+ * Chapter footnote: superscript number, then the note in a smaller size
+ */
+const noteParagraph = (number: number, text: string, direction: TextDirection): Paragraph => {
+  const rightToLeft = direction === 'rtl';
+  return new Paragraph({
+    ...directionOptions(direction),
+    children: [
+      new TextRun({ text: String(number), rightToLeft, superScript: true, size: 20 }),
+      new TextRun({ text: ` ${text}`, rightToLeft, size: 20 })
+    ]
+  });
+};
+
+/**
+ * Table in the document's direction: the caption paragraph, then the table with a repeating header row
+ */
+const tableBlock = (block: TableBlock, direction: TextDirection): (Paragraph | Table)[] => {
+  const rightToLeft = direction === 'rtl';
+  const columns = Math.max(...block.rows.map(row => row.length));
+  const rows = block.rows.map((row, i) => {
+    const header = block.header && i === 0;
+    return new TableRow({
+      tableHeader: header,
+      children: Array.from({ length: columns }, (_, j) => new TableCell({
+        children: [new Paragraph({
+          ...directionOptions(direction),
+          children: [new TextRun({ text: row[j] || '', rightToLeft, bold: header })]
+        })]
+      }))
+    });
+  });
+
+  return [
+    ...(block.caption ? [new Paragraph({
+      ...directionOptions(direction),
+      keepNext: true,
+      children: [new TextRun({ text: block.caption, rightToLeft, bold: true })]
+    })] : []),
+    new Table({ rows, visuallyRightToLeft: rightToLeft, width: { size: 100, type: WidthType.PERCENTAGE } }),
+    new Paragraph({ children: [] })
+  ];
+};
+
+export interface ImageInfo {
+  /** ImageRun type */
+  type: 'png' | 'jpg';
+  mimeType: 'image/png' | 'image/jpeg';
+  width: number;
+  height: number;
+}
+
+/**
+ * JPEG width/height from the first start-of-frame marker
+ */
+const getJpegSize = (data: Buffer): { width: number; height: number } => {
+  let offset = 2;
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  throw new Error('JPEG image without a frame header');
+};
+
+/**
+ * Format (from the magic bytes) and size of a rendered page or figure image: PNG, or JPEG
+ * with --image-format jpeg
+ */
+export const getImageInfo = (data: Buffer): ImageInfo => {
+  if (data.length > 3 && data[0] === 0xff && data[1] === 0xd8) {
+    return { type: 'jpg', mimeType: 'image/jpeg', ...getJpegSize(data) };
+  }
+  // PNG: width/height from the IHDR chunk
+  return { type: 'png', mimeType: 'image/png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+};
+
+/**
+ * Centered figure image (when cropped) followed by its caption
+ */
+const figureBlock = async (block: FigureBlock, strings: UiStrings, direction: TextDirection): Promise<Paragraph[]> => {
+  const paragraphs: Paragraph[] = [];
+  if (block.imagePath && (await fs.pathExists(block.imagePath))) {
+    const data = await fs.readFile(block.imagePath);
+    const image = getImageInfo(data);
+    const width = Math.min(image.width, FIGURE_MAX_WIDTH);
+    paragraphs.push(new Paragraph({
+      alignment: AlignmentType.CENTER,
+      keepNext: true,
+      children: [new ImageRun({ type: image.type, data, transformation: { width, height: Math.round(image.height * width / image.width) } })]
+    }));
+  }
+  paragraphs.push(new Paragraph({
+    bidirectional: direction === 'rtl',
+    alignment: AlignmentType.CENTER,
+    children: [new TextRun({ text: block.caption || strings.figure, rightToLeft: direction === 'rtl', italics: true, size: 20 })]
+  }));
+  return paragraphs;
+};
+
+const HEADING_STYLES = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3
+} as const;
+
+/**
+ * Table of contents line, indented by heading level (0.5" per level)
+ */
+const tocParagraph = (text: string, level: number, direction: TextDirection): Paragraph => {
+  return new Paragraph({
+    ...directionOptions(direction),
+    indent: { start: (level - 1) * 720 },
+    children: [new TextRun({ text, rightToLeft: direction === 'rtl' })]
+  });
+};
+
+/**
+ * Word document with the target language's font, language and direction as defaults for every run
+ */
+export const createDocument = (title: string, children: (Paragraph | Table)[], language: Language): Document => {
+  const rightToLeft = language.direction === 'rtl';
+  return new Document({
+    title,
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: language.font,
+            size: 24,
+            rightToLeft,
+            language: rightToLeft
+              ? { value: language.locale, bidirectional: language.locale }
+              : { value: language.locale }
+          }
+        }
+      }
+    },
+    sections: [{ children }]
+  });
+};
+
+/**
+ * DOCX with paragraphs in the target language's direction, a table of contents, real
+ * Heading 1-3 styles, superscript footnote numbers with the notes at the end of each chapter,
+ * Word tables and embedded figure images
+ */
+export const docxRenderer: Renderer = {
+  format: 'docx',
+  extension: 'docx',
+
+  renderTranslation: async (document: TranslationDocument): Promise<Buffer> => {
+    const { target } = document.languages;
+    const { strings, direction } = target;
+    const children: (Paragraph | Table)[] = [];
+
+    if (document.title) {
+      children.push(textParagraph(document.title, direction, HeadingLevel.TITLE));
+    }
+
+    // Static table of contents: references are pages of the original, which stay valid after editing
+    const toc = getTableOfContents(document);
+    if (toc.length > 0) {
+      children.push(textParagraph(strings.tableOfContents, direction, HeadingLevel.HEADING_1));
+      for (const heading of toc) {
+        children.push(tocParagraph(`${heading.text} (${strings.pageReference(heading.pageNumber)})`, heading.level, direction));
+      }
+    }
+
+    for (const block of document.blocks) {
+      if (block.type === 'heading') {
+        children.push(textParagraph(block.text, direction, HEADING_STYLES[block.level]));
+      } else if (block.type === 'notes') {
+        children.push(textParagraph(strings.notes, direction, HeadingLevel.HEADING_4));
+        children.push(...block.notes.map(note => noteParagraph(note.number, note.text, direction)));
+      } else if (block.type === 'table') {
+        children.push(...tableBlock(block, direction));
+      } else if (block.type === 'figure') {
+        children.push(...await figureBlock(block, strings, direction));
+      } else {
+        children.push(bodyParagraph(block, direction));
+      }
+    }
+
+    return Packer.toBuffer(createDocument(document.title || strings.translationTitle, children, target));
+  },
+
+  renderSummary: async (document: SummaryDocument): Promise<Buffer> => {
+    const { target } = document.languages;
+    const { strings, direction } = target;
+    const children: Paragraph[] = [];
+
+    if (document.title) {
+      children.push(textParagraph(document.title, direction, HeadingLevel.TITLE));
+    }
+
+    for (const entry of getSummaryEntries(document)) {
+      children.push(textParagraph(entry.title, direction, HEADING_STYLES[entry.level]));
+      children.push(textParagraph(`(${strings.pageRange(formatPageRange(entry.pages))})`, direction));
+      if (entry.summary) {
+        children.push(multilineParagraph(entry.summary, direction));
+      }
+    }
+
+    return Packer.toBuffer(createDocument(document.title || strings.summaryTitle, children, target));
+  }
+};
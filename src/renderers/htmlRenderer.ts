@@ -0,0 +1,164 @@
+import fs from 'fs-extra';
+import { formatNoteReferences, formatPageRange, getSummaryEntries, getTableOfContents } from './documentModel';
+import type { Renderer, TranslationDocument, SummaryDocument, TableBlock, FigureBlock } from './types';
+import type { Language, UiStrings } from '../i18n';
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const STYLES = `
+    body { line-height: 1.7; max-width: 48em; margin: 2em auto; padding: 0 1em; }
+    h1 { border-bottom: 2px solid #444; padding-bottom: .2em; }
+    h2 { margin-top: 2em; }
+    h3 { margin-top: 1.5em; }
+    nav.toc { background: #f5f5f5; padding: 1em 2em; margin-bottom: 2em; }
+    nav.toc ul { list-style: none; padding-inline-start: 0; }
+    nav.toc li.level-2 { padding-inline-start: 1.5em; }
+    nav.toc li.level-3 { padding-inline-start: 3em; }
+    .pages { color: #666; font-size: .9em; }
+    section.notes { border-top: 1px solid #ccc; margin-top: 1.5em; font-size: .9em; }
+    section.notes h4 { margin: .5em 0; }
+    table.content { border-collapse: collapse; margin: 1em 0; }
+    table.content caption { font-weight: bold; padding-bottom: .4em; }
+    table.content td, table.content th { border: 1px solid #bbb; padding: .3em .6em; vertical-align: top; }
+    table.content th { background: #f0f0f0; }
+    figure { margin: 1.5em 0; text-align: center; }
+    figure img { max-width: 100%; }
+    figcaption { color: #444; font-size: .9em; margin-top: .4em; }
+    @media print { nav.toc { page-break-after: always; } }`;
+
+/**
+ * Standalone HTML page in the language (and text direction) of the translation
+ */
+export const wrapHtmlPage = (title: string, body: string, language: Language, extraStyles: string = ''): string => {
+  return `<!DOCTYPE html>
+<html lang="${language.code}" dir="${language.direction}">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: "${language.font}", "Arial", sans-serif; }${STYLES}${extraStyles}
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+const renderTable = (block: TableBlock): string => {
+  const parts = ['<table class="content">'];
+  if (block.caption) parts.push(`<caption>${escapeHtml(block.caption)}</caption>`);
+  block.rows.forEach((row, i) => {
+    const tag = block.header && i === 0 ? 'th' : 'td';
+    parts.push(`  <tr>${row.map(cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`);
+  });
+  parts.push('</table>');
+  return parts.join('\n');
+};
+
+/**
+ * Figure with its cropped image embedded as a data URI, so the page stays standalone
+ */
+const renderFigure = async (block: FigureBlock, strings: UiStrings): Promise<string> => {
+  const parts = ['<figure>'];
+  if (block.imagePath && (await fs.pathExists(block.imagePath))) {
+    const base64 = (await fs.readFile(block.imagePath)).toString('base64');
+    parts.push(`  <img src="data:image/png;base64,${base64}" alt="${escapeHtml(block.caption || strings.figure)}">`);
+  }
+  parts.push(`  <figcaption>${escapeHtml(block.caption || strings.figure)}</figcaption>`, '</figure>');
+  return parts.join('\n');
+};
+
+/**
+ * Standalone HTML (dir from the target language) with a generated table of contents; footnote references link
+ * to the notes listed at the end of their chapter, tables are real tables and figures
+ * are embedded images
+ */
+export const htmlRenderer: Renderer = {
+  format: 'html',
+  extension: 'html',
+
+  renderTranslation: async (document: TranslationDocument): Promise<string> => {
+    const { source, target } = document.languages;
+    const { strings } = target;
+    const parts: string[] = [];
+
+    if (document.title) {
+      parts.push(`<h1>${escapeHtml(document.title)}</h1>`);
+    }
+
+    // Table of contents from the headings, with the page of the original
+    const toc = getTableOfContents(document);
+    if (toc.length > 0) {
+      parts.push('<nav class="toc">', `<h2>${strings.tableOfContents}</h2>`, '<ul>');
+      for (const heading of toc) {
+        parts.push(`  <li class="level-${heading.level}"><a href="#${heading.id}">${escapeHtml(heading.text)}</a> <span class="pages">(${strings.pageReference(heading.pageNumber)})</span></li>`);
+      }
+      parts.push('</ul>', '</nav>');
+    }
+
+    for (const block of document.blocks) {
+      if (block.type === 'heading') {
+        // Document title takes <h1>, so chapters start at <h2>
+        const tag = `h${block.level + 1}`;
+        parts.push(`<${tag} id="${block.id}">${escapeHtml(block.text)}</${tag}>`);
+      } else if (block.type === 'notes') {
+        parts.push('<section class="notes">', `<h4>${strings.notes}</h4>`, '<ol>');
+        for (const note of block.notes) {
+          parts.push(`  <li id="fn${block.group}-${note.number}" value="${note.number}">${escapeHtml(note.text)}</li>`);
+        }
+        parts.push('</ol>', '</section>');
+      } else if (block.type === 'table') {
+        parts.push(renderTable(block));
+      } else if (block.type === 'figure') {
+        parts.push(await renderFigure(block, strings));
+      } else {
+        const text = formatNoteReferences(escapeHtml(block.text).replace(/\n/g, '<br>'), number => {
+          return `<sup><a href="#fn${block.noteGroup}-${number}">${number}</a></sup>`;
+        });
+        const dir = block.direction ? ` dir="${block.direction}" lang="${source.code}"` : '';
+        parts.push(`<p data-page="${block.pageNumber}"${dir}>${text}</p>`);
+      }
+    }
+
+    return wrapHtmlPage(document.title || strings.translationTitle, parts.join('\n'), target);
+  },
+
+  renderSummary: async (document: SummaryDocument): Promise<string> => {
+    const { target } = document.languages;
+    const { strings } = target;
+    const parts: string[] = [];
+
+    if (document.title) {
+      parts.push(`<h1>${escapeHtml(document.title)}</h1>`);
+    }
+
+    const entries = getSummaryEntries(document);
+    if (entries.length > 0) {
+      parts.push('<nav class="toc">', `<h2>${strings.tableOfContents}</h2>`, '<ul>');
+      entries.forEach((entry, i) => {
+        parts.push(`  <li class="level-${entry.level}"><a href="#s${i + 1}">${escapeHtml(entry.title)}</a> <span class="pages">(${strings.pageRange(formatPageRange(entry.pages))})</span></li>`);
+      });
+      parts.push('</ul>', '</nav>');
+    }
+
+    entries.forEach((entry, i) => {
+      const tag = `h${entry.level + 1}`;
+      parts.push(`<${tag} id="s${i + 1}">${escapeHtml(entry.title)}</${tag}>`);
+      parts.push(`<p class="pages">(${strings.pageRange(formatPageRange(entry.pages))})</p>`);
+      if (entry.summary) {
+        parts.push(`<p>${escapeHtml(entry.summary).replace(/\n/g, '<br>')}</p>`);
+      }
+    });
+
+    const title = document.title ? `${strings.summaryTitle} - ${document.title}` : strings.summaryTitle;
+    return wrapHtmlPage(title, parts.join('\n'), target);
+  }
+};
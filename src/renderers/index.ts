@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { txtRenderer } from './txtRenderer';
+import { markdownRenderer } from './markdownRenderer';
+import { htmlRenderer } from './htmlRenderer';
+import { docxRenderer } from './docxRenderer';
+import { pdfRenderer } from './pdfRenderer';
+import { renderBilingualHtml, renderBilingualDocx } from './bilingualRenderer';
+import type { Renderer, OutputFormat, TranslationDocument, SummaryDocument, BilingualDocument } from './types';
+
+export type {
+  Renderer,
+  OutputFormat,
+  TranslationDocument,
+  SummaryDocument,
+  DocumentBlock,
+  HeadingBlock,
+  TableBlock,
+  FigureBlock,
+  HeadingLevel,
+  DocumentNote,
+  SummarySection,
+  SummaryChapter,
+  SummaryEntry,
+  BilingualDocument,
+  BilingualRow,
+  BilingualSource
+} from './types';
+export type { StitchingStats } from './stitching';
+export { buildTranslationDocument, buildSummaryDocument, buildBilingualDocument, getPageText } from './documentModel';
+
+const RENDERERS: Record<OutputFormat, Renderer> = {
+  txt: txtRenderer,
+  md: markdownRenderer,
+  html: htmlRenderer,
+  docx: docxRenderer,
+  pdf: pdfRenderer
+};
+
+export const OUTPUT_FORMATS = Object.keys(RENDERERS) as OutputFormat[];
+
+/**
+ * Parse a comma-separated --format value, e.g. "txt,docx"
+ */
+export const parseOutputFormats = (value: string): OutputFormat[] => {
+  const formats = value.split(',').map(format => format.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter(format => !OUTPUT_FORMATS.includes(format as OutputFormat));
+
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new Error(`Invalid --format "${value}" (expected a comma-separated list of: ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return [...new Set(formats)] as OutputFormat[];
+};
+
+export interface WrittenOutput {
+  kind: 'translation' | 'summary' | 'bilingual';
+  format: OutputFormat;
+  path: string;
+  bytes: number;
+}
+
+/**
+ * Render and write one file per requested format and kind (null documents are skipped)
+ * @returns Written files, translation first
+ */
+export const writeOutputs = async (
+  formats: OutputFormat[],
+  outputDir: string,
+  timestamp: string,
+  translation: TranslationDocument | null,
+  summary: SummaryDocument | null
+): Promise<WrittenOutput[]> => {
+  const written: WrittenOutput[] = [];
+
+  const write = async (kind: WrittenOutput['kind'], format: OutputFormat, content: string | Buffer): Promise<void> => {
+    const filePath = path.join(outputDir, `${kind}_${timestamp}.${RENDERERS[format].extension}`);
+    await fs.writeFile(filePath, content, typeof content === 'string' ? 'utf-8' : undefined);
+    written.push({ kind, format, path: filePath, bytes: Buffer.byteLength(content) });
+  };
+
+  if (translation) {
+    for (const format of formats) {
+      await write('translation', format, await RENDERERS[format].renderTranslation(translation));
+    }
+  }
+  if (summary) {
+    for (const format of formats) {
+      await write('summary', format, await RENDERERS[format].renderSummary(summary));
+    }
+  }
+
+  return written;
+};
+
+/**
+ * Write the side-by-side HTML and DOCX files
+ */
+export const writeBilingualOutputs = async (
+  outputDir: string,
+  timestamp: string,
+  document: BilingualDocument
+): Promise<WrittenOutput[]> => {
+  const htmlPath = path.join(outputDir, `bilingual_${timestamp}.html`);
+  const docxPath = path.join(outputDir, `bilingual_${timestamp}.docx`);
+
+  const html = await renderBilingualHtml(document);
+  await fs.writeFile(htmlPath, html, 'utf-8');
+  const docx = await renderBilingualDocx(document);
+  await fs.writeFile(docxPath, docx);
+
+  return [
+    { kind: 'bilingual', format: 'html', path: htmlPath, bytes: Buffer.byteLength(html) },
+    { kind: 'bilingual', format: 'docx', path: docxPath, bytes: docx.length }
+  ];
+};
@@ -0,0 +1,112 @@
+import path from 'path';
+import { formatNoteReferences, formatPageRange, getSummaryEntries, getTableOfContents } from './documentModel';
+import type { Renderer, TranslationDocument, SummaryDocument, TableBlock } from './types';
+import type { TextDirection } from '../i18n';
+
+/**
+ * Escape characters that would otherwise start Markdown syntax at line start
+ */
+const escapeMarkdown = (text: string): string => {
+  return text.replace(/^([#>*+\-]|\d+\.)(\s)/gm, '\\$1$2');
+};
+
+/**
+ * GFM table; a table without a header row gets an empty one (GFM requires it)
+ */
+const renderTable = (block: TableBlock): string[] => {
+  const columns = Math.max(...block.rows.map(row => row.length));
+  const formatRow = (row: string[]): string => {
+    const cells = Array.from({ length: columns }, (_, i) => (row[i] || '').replace(/\|/g, '\\|').replace(/\n/g, ' '));
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const [head, ...body] = block.header ? block.rows : [[], ...block.rows];
+  return [
+    ...(block.caption ? [`**${block.caption}**`, ''] : []),
+    formatRow(head),
+    `|${' --- |'.repeat(columns)}`,
+    ...body.map(formatRow)
+  ];
+};
+
+/**
+ * Wrap right-to-left output in a dir="rtl" block so viewers that allow HTML render it right to left
+ */
+const wrapDirection = (lines: string[], direction: TextDirection): string => {
+  return (direction === 'rtl' ? ['<div dir="rtl">', '', ...lines, '</div>'] : lines).join('\n');
+};
+
+/**
+ * Markdown output, wrapped in a dir="rtl" block for right-to-left target languages.
+ * Footnotes are Markdown footnotes ("[^2-1]" = note 1 of the second notes block), defined at the chapter's end.
+ * Figures link their cropped image, which is written to a folder next to the Markdown file.
+ */
+export const markdownRenderer: Renderer = {
+  format: 'md',
+  extension: 'md',
+
+  renderTranslation: async (document: TranslationDocument): Promise<string> => {
+    const { strings, direction } = document.languages.target;
+    const lines: string[] = [];
+
+    if (document.title) {
+      lines.push(`# ${document.title}`, '');
+    }
+
+    const toc = getTableOfContents(document);
+    if (toc.length > 0) {
+      lines.push(`## ${strings.tableOfContents}`, '');
+      for (const heading of toc) {
+        lines.push(`${'  '.repeat(heading.level - 1)}- ${heading.text} _(${strings.pageReference(heading.pageNumber)})_`);
+      }
+      lines.push('');
+    }
+
+    for (const block of document.blocks) {
+      if (block.type === 'heading') {
+        // Document title takes '#', so chapters start at '##'
+        lines.push(`${'#'.repeat(block.level + 1)} ${block.text}`, '');
+      } else if (block.type === 'notes') {
+        lines.push(`**${strings.notes}**`, '');
+        for (const note of block.notes) {
+          lines.push(`[^${block.group}-${note.number}]: ${note.text}`);
+        }
+        lines.push('');
+      } else if (block.type === 'table') {
+        lines.push(...renderTable(block), '');
+      } else if (block.type === 'figure') {
+        if (block.imagePath) {
+          // Relative to the output directory: <figures folder>/<file>
+          const relativePath = [path.basename(path.dirname(block.imagePath)), path.basename(block.imagePath)].join('/');
+          lines.push(`![${block.caption || strings.figure}](${relativePath})`, '');
+        }
+        if (block.caption) lines.push(`_${block.caption}_`, '');
+      } else {
+        const text = escapeMarkdown(formatNoteReferences(block.text, number => `[^${block.noteGroup}-${number}]`));
+        // Reference lists stay in the source language and its direction
+        lines.push(...(block.direction ? [`<div dir="${block.direction}">`, '', text, '', '</div>'] : [text]), '');
+      }
+    }
+
+    return wrapDirection(lines, direction);
+  },
+
+  renderSummary: async (document: SummaryDocument): Promise<string> => {
+    const { strings, direction } = document.languages.target;
+    const lines: string[] = [];
+
+    if (document.title) {
+      lines.push(`# ${document.title}`, '');
+    }
+
+    for (const entry of getSummaryEntries(document)) {
+      lines.push(`${'#'.repeat(entry.level + 1)} ${entry.title}`, '');
+      lines.push(`_(${strings.pageRange(formatPageRange(entry.pages))})_`, '');
+      if (entry.summary) {
+        lines.push(escapeMarkdown(entry.summary), '');
+      }
+    }
+
+    return wrapDirection(lines, direction);
+  }
+};
@@ -0,0 +1,509 @@
+import fs from 'fs-extra';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, PDFName, PDFNumber, PDFNull, PDFHexString, PDFRef, StandardFonts, rgb } from 'pdf-lib';
+import type { RGB } from 'pdf-lib';
+import { toVisualRuns } from './bidi';
+import { formatNoteReferences, formatPageRange, getSummaryEntries, getTableOfContents } from './documentModel';
+import type { Renderer, TranslationDocument, SummaryDocument, HeadingLevel } from './types';
+import type { Language, TextDirection } from '../i18n';
+
+/**
+ * PDF renderer
+ * Lays the document out with pdf-lib: an embedded font, lines aligned to the target
+ * language's direction (right-to-left lines reordered for display, see bidi.ts), running
+ * page numbers, a table of contents, a bookmark per chapter/section/subsection and a margin
+ * note wherever a new page of the original starts. Footnotes are "[n]" in the text, listed
+ * at the end of their chapter; tables are drawn as ruled grids (first column on the reading
+ * side) and figures as embedded images.
+ *
+ * The font comes from PDF_FONT_PATH (and optionally PDF_BOLD_FONT_PATH); otherwise
+ * the first common system font with Hebrew glyphs is used (these cover Latin text too).
+ */
+
+const FONT_CANDIDATES = [
+  '/usr/share/fonts/truetype/culmus/DavidCLM-Medium.otf',
+  '/usr/share/fonts/opentype/noto/NotoSansHebrew-Regular.ttf',
+  '/usr/share/fonts/truetype/noto/NotoSansHebrew-Regular.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+  '/usr/share/fonts/truetype/freefont/FreeSans.ttf',
+  '/Library/Fonts/Arial Unicode.ttf',
+  '/System/Library/Fonts/Supplemental/Arial.ttf',
+  'C:\\Windows\\Fonts\\david.ttf',
+  'C:\\Windows\\Fonts\\arial.ttf'
+];
+
+const BOLD_FONT_CANDIDATES = [
+  '/usr/share/fonts/truetype/culmus/DavidCLM-Bold.otf',
+  '/usr/share/fonts/opentype/noto/NotoSansHebrew-Bold.ttf',
+  '/usr/share/fonts/truetype/noto/NotoSansHebrew-Bold.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+  '/usr/share/fonts/truetype/freefont/FreeSansBold.ttf',
+  '/System/Library/Fonts/Supplemental/Arial Bold.ttf',
+  'C:\\Windows\\Fonts\\davidbd.ttf',
+  'C:\\Windows\\Fonts\\arialbd.ttf'
+];
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_RIGHT = 56;
+// Wider left margin holds the original page notes
+const MARGIN_LEFT = 76;
+const MARGIN_TOP = 64;
+const MARGIN_BOTTOM = 64;
+const LINE_SPACING = 1.5;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+
+interface FontSet {
+  /** Embedded font; used for everything it has glyphs for */
+  primary: PDFFont;
+  /** Standard font for Latin characters missing from the primary font */
+  fallback: PDFFont;
+  primaryChars: Set<number>;
+  fallbackChars: Set<number>;
+}
+
+interface TextStyle {
+  fonts: FontSet;
+  size: number;
+  color: RGB;
+}
+
+interface OutlineEntry {
+  title: string;
+  level: HeadingLevel;
+  page: PDFPage;
+  y: number;
+}
+
+/** Table of contents entries are indented by this much per level */
+const TOC_INDENT = 18;
+
+/** Table cell padding */
+const CELL_PADDING = 4;
+
+/** Figures are cropped from pages rendered at 2x, so half their pixel size is their size in the original */
+const FIGURE_PIXELS_PER_POINT = 2;
+/** Tallest figure, as a share of the text height */
+const FIGURE_MAX_HEIGHT_RATIO = 0.6;
+
+type LayoutItem =
+  | { type: 'title'; text: string }
+  | { type: 'heading'; level: HeadingLevel; text: string }
+  /** Unbookmarked heading, e.g. above the table of contents (level 1 unless given) */
+  | { type: 'label'; text: string; level?: HeadingLevel }
+  | { type: 'tocEntry'; level: HeadingLevel; text: string }
+  /** direction = source-language text kept as-is (reference lists) running the other way */
+  | { type: 'paragraph'; text: string; sourcePage?: number; direction?: TextDirection }
+  | { type: 'footnote'; text: string }
+  | { type: 'table'; caption: string; header: boolean; rows: string[][] }
+  | { type: 'figure'; caption: string; imagePath?: string }
+  | { type: 'note'; text: string };
+
+const findFont = async (envKey: string, candidates: string[]): Promise<string | undefined> => {
+  const configured = process.env[envKey];
+  if (configured) {
+    if (!(await fs.pathExists(configured))) {
+      throw new Error(`${envKey} points to a missing file: ${configured}`);
+    }
+    return configured;
+  }
+
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+const embedFontSet = async (pdf: PDFDocument, fontPath: string, fallbackName: StandardFonts): Promise<FontSet> => {
+  const primary = await pdf.embedFont(await fs.readFile(fontPath), { subset: true });
+  const fallback = await pdf.embedFont(fallbackName);
+  return {
+    primary,
+    fallback,
+    primaryChars: new Set(primary.getCharacterSet()),
+    fallbackChars: new Set(fallback.getCharacterSet())
+  };
+};
+
+/**
+ * Embed the regular and bold fonts (bold falls back to the regular font)
+ */
+const embedFonts = async (pdf: PDFDocument, language: Language): Promise<{ regular: FontSet; bold: FontSet }> => {
+  const regularPath = await findFont('PDF_FONT_PATH', FONT_CANDIDATES);
+  if (!regularPath) {
+    throw new Error(`No font found for PDF output - set PDF_FONT_PATH to a .ttf/.otf font with ${language.name} glyphs`);
+  }
+  const boldPath = (await findFont('PDF_BOLD_FONT_PATH', BOLD_FONT_CANDIDATES)) || regularPath;
+
+  pdf.registerFontkit(fontkit);
+  const regular = await embedFontSet(pdf, regularPath, StandardFonts.Helvetica);
+  const bold = boldPath === regularPath
+    ? regular
+    : await embedFontSet(pdf, boldPath, StandardFonts.HelveticaBold);
+  return { regular, bold };
+};
+
+/**
+ * Split text into pieces drawn with the same font; characters neither font has become "?"
+ */
+const splitByFont = (text: string, fonts: FontSet): { font: PDFFont; text: string }[] => {
+  const pieces: { font: PDFFont; text: string }[] = [];
+
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0)!;
+    let font = fonts.primary;
+    let drawn = char;
+    if (!fonts.primaryChars.has(code)) {
+      font = fonts.fallback;
+      if (!fonts.fallbackChars.has(code)) drawn = '?';
+    }
+
+    const last = pieces[pieces.length - 1];
+    if (last && last.font === font) last.text += drawn;
+    else pieces.push({ font, text: drawn });
+  }
+  return pieces;
+};
+
+const measureText = (text: string, style: TextStyle): number => {
+  return splitByFont(text, style.fonts)
+    .reduce((width, piece) => width + piece.font.widthOfTextAtSize(piece.text, style.size), 0);
+};
+
+/**
+ * Break a paragraph into lines no wider than maxWidth (logical order).
+ * Words longer than a full line are split by characters.
+ */
+const wrapText = (text: string, style: TextStyle, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraphLine of text.split('\n')) {
+    let current = '';
+    for (const word of paragraphLine.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measureText(candidate, style) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+
+      current = '';
+      for (const char of Array.from(word)) {
+        if (current && measureText(current + char, style) > maxWidth) {
+          lines.push(current);
+          current = '';
+        }
+        current += char;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+};
+
+/**
+ * Draw one logical line right-aligned at `right`, in visual order
+ */
+const drawRtlLine = (page: PDFPage, line: string, right: number, y: number, style: TextStyle): void => {
+  let x = right - measureText(line, style);
+
+  for (const run of toVisualRuns(line)) {
+    for (const piece of splitByFont(run.text, style.fonts)) {
+      // Embedded fonts are shaped by fontkit, which reverses Hebrew runs itself:
+      // hand those over in logical order so they come out visual
+      const text = run.rtl && piece.font !== style.fonts.fallback && /[\u0590-\u05FF]/.test(piece.text)
+        ? Array.from(piece.text).reverse().join('')
+        : piece.text;
+      page.drawText(text, { x, y, size: style.size, font: piece.font, color: style.color });
+      x += piece.font.widthOfTextAtSize(piece.text, style.size);
+    }
+  }
+};
+
+/**
+ * Draw one left-to-right line starting at `left` (no reordering)
+ */
+const drawLtrLine = (page: PDFPage, line: string, left: number, y: number, style: TextStyle): void => {
+  let x = left;
+  for (const piece of splitByFont(line, style.fonts)) {
+    page.drawText(piece.text, { x, y, size: style.size, font: piece.font, color: style.color });
+    x += piece.font.widthOfTextAtSize(piece.text, style.size);
+  }
+};
+
+/**
+ * Build the /Outlines tree (sections nested under their chapter, subsections under their section)
+ */
+const addOutline = (pdf: PDFDocument, entries: OutlineEntry[]): void => {
+  if (entries.length === 0) return;
+
+  const context = pdf.context;
+  const outlineRef = context.nextRef();
+
+  interface Node { entry: OutlineEntry; ref: PDFRef; children: Node[] }
+  const roots: Node[] = [];
+  // Open ancestors, shallowest first
+  const stack: Node[] = [];
+  for (const entry of entries) {
+    const node: Node = { entry, ref: context.nextRef(), children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].entry.level >= entry.level) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+    stack.push(node);
+  }
+
+  // Positive count = shown expanded, counting every open descendant
+  const countDescendants = (node: Node): number => {
+    return node.children.reduce((count, child) => count + 1 + countDescendants(child), 0);
+  };
+
+  const writeLevel = (nodes: Node[], parentRef: PDFRef): void => {
+    nodes.forEach((node, i) => {
+      const dict = context.obj({
+        Title: PDFHexString.fromText(node.entry.title),
+        Parent: parentRef,
+        Dest: [node.entry.page.ref, PDFName.of('XYZ'), PDFNull, PDFNumber.of(node.entry.y), PDFNull]
+      });
+      if (i > 0) dict.set(PDFName.of('Prev'), nodes[i - 1].ref);
+      if (i < nodes.length - 1) dict.set(PDFName.of('Next'), nodes[i + 1].ref);
+      if (node.children.length > 0) {
+        dict.set(PDFName.of('First'), node.children[0].ref);
+        dict.set(PDFName.of('Last'), node.children[node.children.length - 1].ref);
+        dict.set(PDFName.of('Count'), PDFNumber.of(countDescendants(node)));
+        writeLevel(node.children, node.ref);
+      }
+      context.assign(node.ref, dict);
+    });
+  };
+  writeLevel(roots, outlineRef);
+
+  context.assign(outlineRef, context.obj({
+    Type: 'Outlines',
+    First: roots[0].ref,
+    Last: roots[roots.length - 1].ref,
+    Count: PDFNumber.of(entries.length)
+  }));
+  pdf.catalog.set(PDFName.of('Outlines'), outlineRef);
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+/**
+ * Lay out the items on A4 pages in the language's direction and return the finished PDF
+ */
+const renderPdf = async (title: string, items: LayoutItem[], language: Language): Promise<Buffer> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title, { showInWindowTitleBar: true });
+  pdf.setLanguage(language.locale);
+  pdf.setCreator('EnglishToHebrew');
+
+  const { regular, bold } = await embedFonts(pdf, language);
+  const styles = {
+    title: { fonts: bold, size: 20, color: TEXT_COLOR },
+    h1: { fonts: bold, size: 16, color: TEXT_COLOR },
+    h2: { fonts: bold, size: 13.5, color: TEXT_COLOR },
+    h3: { fonts: bold, size: 12, color: TEXT_COLOR },
+    body: { fonts: regular, size: 11.5, color: TEXT_COLOR },
+    footnote: { fonts: regular, size: 9.5, color: TEXT_COLOR },
+    cell: { fonts: regular, size: 9.5, color: TEXT_COLOR },
+    headerCell: { fonts: bold, size: 9.5, color: TEXT_COLOR },
+    note: { fonts: regular, size: 8, color: MUTED_COLOR }
+  };
+
+  const right = PAGE_WIDTH - MARGIN_RIGHT;
+  const maxWidth = right - MARGIN_LEFT;
+  const outline: OutlineEntry[] = [];
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN_TOP;
+
+  const ensureSpace = (height: number): void => {
+    if (y - height < MARGIN_BOTTOM) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN_TOP;
+    }
+  };
+
+  /**
+   * Draw wrapped text; returns where its first line landed
+   */
+  const drawBlock = (
+    text: string,
+    style: TextStyle,
+    spaceBefore: number,
+    spaceAfter: number,
+    keepWithNext = 0,
+    indent = 0,
+    direction: TextDirection = language.direction
+  ): { page: PDFPage; y: number } => {
+    const lineHeight = style.size * LINE_SPACING;
+    const lines = wrapText(text, style, maxWidth - indent);
+    if (y < PAGE_HEIGHT - MARGIN_TOP) y -= spaceBefore;
+    // Headings keep a few body lines on the same page
+    ensureSpace(lineHeight + keepWithNext);
+
+    const first = { page, y: y - style.size };
+    for (const line of lines) {
+      ensureSpace(lineHeight);
+      if (direction === 'ltr') drawLtrLine(page, line, MARGIN_LEFT + indent, y - style.size, style);
+      else drawRtlLine(page, line, right - indent, y - style.size, style);
+      y -= lineHeight;
+    }
+    y -= spaceAfter;
+    return first;
+  };
+
+  /**
+   * Ruled grid of equal-width columns, the first column on the right for right-to-left
+   * text; a row starts a new page when it does not fit
+   */
+  const drawTable = (rows: string[][], header: boolean): void => {
+    const columns = Math.max(...rows.map(row => row.length));
+    const columnWidth = maxWidth / columns;
+
+    rows.forEach((row, r) => {
+      const style = header && r === 0 ? styles.headerCell : styles.cell;
+      const lineHeight = style.size * LINE_SPACING;
+      const cells = Array.from({ length: columns }, (_, c) => wrapText(row[c] || '', style, columnWidth - 2 * CELL_PADDING));
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + 2 * CELL_PADDING;
+      ensureSpace(height);
+
+      cells.forEach((lines, c) => {
+        const cellLeft = language.direction === 'rtl' ? right - (c + 1) * columnWidth : MARGIN_LEFT + c * columnWidth;
+        page.drawRectangle({ x: cellLeft, y: y - height, width: columnWidth, height, borderColor: MUTED_COLOR, borderWidth: 0.5 });
+        lines.forEach((line, k) => {
+          const lineY = y - CELL_PADDING - style.size - k * lineHeight;
+          if (language.direction === 'rtl') drawRtlLine(page, line, cellLeft + columnWidth - CELL_PADDING, lineY, style);
+          else drawLtrLine(page, line, cellLeft + CELL_PADDING, lineY, style);
+        });
+      });
+      y -= height;
+    });
+    y -= 10;
+  };
+
+  /**
+   * Centered figure image at its original size, shrunk to fit the text width and height
+   */
+  const drawFigure = async (imagePath: string): Promise<void> => {
+    const image = await pdf.embedPng(await fs.readFile(imagePath));
+    const maxHeight = (PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM) * FIGURE_MAX_HEIGHT_RATIO;
+    const { width, height } = image.scale(Math.min(1 / FIGURE_PIXELS_PER_POINT, maxWidth / image.width, maxHeight / image.height));
+    if (y < PAGE_HEIGHT - MARGIN_TOP) y -= 6;
+    ensureSpace(height + 4);
+    page.drawImage(image, { x: MARGIN_LEFT + (maxWidth - width) / 2, y: y - height, width, height });
+    y -= height + 4;
+  };
+
+  let lastSourcePage: number | undefined;
+  for (const item of items) {
+    if (item.type === 'title') {
+      drawBlock(item.text, styles.title, 0, 18);
+    } else if (item.type === 'heading') {
+      const style = item.level === 1 ? styles.h1 : item.level === 2 ? styles.h2 : styles.h3;
+      const bodyLines = styles.body.size * LINE_SPACING * 3;
+      const first = drawBlock(item.text, style, item.level === 1 ? 18 : 12, 6, bodyLines);
+      outline.push({ title: item.text, level: item.level, page: first.page, y: first.y + style.size });
+    } else if (item.type === 'label') {
+      const style = !item.level || item.level === 1 ? styles.h1 : item.level === 2 ? styles.h2 : styles.h3;
+      drawBlock(item.text, style, 18, 6);
+    } else if (item.type === 'tocEntry') {
+      drawBlock(item.text, styles.body, 0, 2, 0, (item.level - 1) * TOC_INDENT);
+    } else if (item.type === 'footnote') {
+      drawBlock(item.text, styles.footnote, 0, 3);
+    } else if (item.type === 'table') {
+      if (item.caption) drawBlock(item.caption, styles.h3, 6, 4, styles.cell.size * LINE_SPACING * 2);
+      drawTable(item.rows, item.header);
+    } else if (item.type === 'figure') {
+      if (item.imagePath && (await fs.pathExists(item.imagePath))) await drawFigure(item.imagePath);
+      drawBlock(item.caption || language.strings.figure, styles.footnote, 0, 10);
+    } else if (item.type === 'note') {
+      drawBlock(item.text, styles.note, 0, 4);
+    } else {
+      const first = drawBlock(item.text, styles.body, 0, 8, 0, 0, item.direction);
+      // Margin note where a new page of the original starts
+      if (item.sourcePage !== undefined && item.sourcePage !== lastSourcePage) {
+        drawRtlLine(first.page, language.strings.pageReference(item.sourcePage), MARGIN_LEFT - 10, first.y, styles.note);
+        lastSourcePage = item.sourcePage;
+      }
+    }
+  }
+
+  // Running page numbers
+  const pages = pdf.getPages();
+  pages.forEach((pdfPage, i) => {
+    const label = `${i + 1} / ${pages.length}`;
+    const width = regular.fallback.widthOfTextAtSize(label, 9);
+    pdfPage.drawText(label, { x: (PAGE_WIDTH - width) / 2, y: MARGIN_BOTTOM / 2, size: 9, font: regular.fallback, color: MUTED_COLOR });
+  });
+
+  addOutline(pdf, outline);
+  return Buffer.from(await pdf.save());
+};
+
+/**
+ * PDF with an embedded font, bookmarks and original page numbers in the margin
+ */
+export const pdfRenderer: Renderer = {
+  format: 'pdf',
+  extension: 'pdf',
+
+  renderTranslation: async (document: TranslationDocument): Promise<Buffer> => {
+    const { target } = document.languages;
+    const { strings } = target;
+    const items: LayoutItem[] = [];
+    if (document.title) items.push({ type: 'title', text: document.title });
+
+    // References are pages of the original (also noted in the margin next to the text)
+    const toc = getTableOfContents(document);
+    if (toc.length > 0) {
+      items.push({ type: 'label', text: strings.tableOfContents });
+      items.push(...toc.map((heading): LayoutItem => ({
+        type: 'tocEntry',
+        level: heading.level,
+        text: `${heading.text} (${strings.pageReference(heading.pageNumber)})`
+      })));
+    }
+
+    for (const block of document.blocks) {
+      if (block.type === 'heading') {
+        items.push({ type: 'heading', level: block.level, text: block.text });
+      } else if (block.type === 'notes') {
+        items.push({ type: 'label', level: 3, text: strings.notes });
+        items.push(...block.notes.map((note): LayoutItem => ({ type: 'footnote', text: `[${note.number}] ${note.text}` })));
+      } else if (block.type === 'table') {
+        items.push({ type: 'table', caption: block.caption, header: block.header, rows: block.rows });
+      } else if (block.type === 'figure') {
+        items.push({ type: 'figure', caption: block.caption, imagePath: block.imagePath });
+      } else {
+        items.push({
+          type: 'paragraph',
+          text: formatNoteReferences(block.text, number => `[${number}]`),
+          sourcePage: block.pageNumber,
+          direction: block.direction
+        });
+      }
+    }
+
+    return renderPdf(document.title || strings.translationTitle, items, target);
+  },
+
+  renderSummary: async (document: SummaryDocument): Promise<Buffer> => {
+    const { target } = document.languages;
+    const { strings } = target;
+    const items: LayoutItem[] = [];
+    if (document.title) items.push({ type: 'title', text: document.title });
+
+    for (const entry of getSummaryEntries(document)) {
+      items.push({ type: 'heading', level: entry.level, text: entry.title });
+      items.push({ type: 'note', text: `(${strings.pageRange(formatPageRange(entry.pages))})` });
+      if (entry.summary) {
+        items.push({ type: 'paragraph', text: entry.summary });
+      }
+    }
+
+    return renderPdf(document.title || strings.summaryTitle, items, target);
+  }
+};
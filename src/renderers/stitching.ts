@@ -0,0 +1,140 @@
+/**
+ * Cross-page stitching
+ * Pages are translated one at a time, so the joined translation inherits the page breaks:
+ * a sentence cut by a page break ends up as two paragraphs, the model sometimes translates
+ * the tail of the previous page (its context) again, and running headers, footers and page
+ * numbers become paragraphs of their own. buildTranslationDocument repairs all three with
+ * the helpers below.
+ */
+
+export interface StitchingStats {
+  /** Paragraphs joined with the last paragraph of the previous page */
+  joined: number;
+  /** Page starts that repeated the end of the previous page, removed */
+  overlaps: number;
+  /** Running header/footer and page number lines removed */
+  runningLines: number;
+}
+
+/** A line repeated at the top or bottom of at least this many pages is a running header/footer */
+const MIN_RUNNING_PAGES = 3;
+
+/** Longer lines are body text, never a header or footer */
+const MAX_RUNNING_LINE_LENGTH = 100;
+
+/** Header/footer lines looked at on each end of a page (e.g. a title and a page number) */
+const MAX_EDGE_LINES = 2;
+
+/** A bare page number: "12", "- 12 -", "עמוד 12", "Page 12", "Seite 12", "xii" */
+const PAGE_NUMBER_PATTERN = /^(?:(?:עמוד|עמ['׳]|page|p\.|seite|s\.|página|pág\.)\s*)?[-–—]?\s*(?:\d{1,4}|[ivxlc]{1,7})\s*[-–—]?$/i;
+
+/** Sentence end, possibly followed by closing quotes or brackets */
+const SENTENCE_END_PATTERN = /[.!?…:]["'”’״׳)\]]*$/;
+
+/** Footnote markers, which say nothing about where a sentence ends */
+const MARKER_PATTERN = /\[\^[^\]\s]{1,8}\]/g;
+
+/** The overlap must be this long to count as a repeat rather than a coincidence */
+const MIN_OVERLAP_WORDS = 4;
+const MAX_OVERLAP_WORDS = 60;
+
+/**
+ * Line as compared across pages: numbers (page and chapter numbers) and spacing ignored
+ */
+const normalizeLine = (line: string): string => {
+  return line.replace(MARKER_PATTERN, '').replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+};
+
+const isEdgeCandidate = (line: string): boolean => {
+  const text = line.trim();
+  return text.length > 0 && text.length <= MAX_RUNNING_LINE_LENGTH && !text.startsWith('[[');
+};
+
+/**
+ * First and last lines of a page that could be a header or footer
+ */
+const getEdgeLines = (text: string): string[] => {
+  const lines = text.split('\n').filter(line => line.trim());
+  const edges = lines.length > MAX_EDGE_LINES * 2
+    ? [...lines.slice(0, MAX_EDGE_LINES), ...lines.slice(-MAX_EDGE_LINES)]
+    : lines;
+  return edges.filter(isEdgeCandidate);
+};
+
+/**
+ * Lines (normalized) that open or close at least MIN_RUNNING_PAGES pages
+ * @param pageTexts - Translation of every page
+ */
+export const findRunningLines = (pageTexts: string[]): Set<string> => {
+  const pageCounts = new Map<string, number>();
+  for (const text of pageTexts) {
+    for (const line of new Set(getEdgeLines(text).map(normalizeLine))) {
+      pageCounts.set(line, (pageCounts.get(line) || 0) + 1);
+    }
+  }
+  return new Set([...pageCounts].filter(([, count]) => count >= MIN_RUNNING_PAGES).map(([line]) => line));
+};
+
+/**
+ * Remove running headers/footers and bare page numbers from the top and bottom of a page
+ * @returns The page text without them and how many lines were removed
+ */
+export const stripRunningLines = (text: string, runningLines: Set<string>): { text: string; removed: number } => {
+  const lines = text.split('\n');
+  const isRunning = (line: string): boolean => {
+    return isEdgeCandidate(line) && (PAGE_NUMBER_PATTERN.test(line.trim()) || runningLines.has(normalizeLine(line)));
+  };
+
+  let removed = 0;
+  const trim = (fromEnd: boolean): void => {
+    let stripped = 0;
+    while (lines.length > 0 && stripped < MAX_EDGE_LINES) {
+      const index = fromEnd ? lines.length - 1 : 0;
+      if (!lines[index].trim()) {
+        lines.splice(index, 1);
+        continue;
+      }
+      if (!isRunning(lines[index])) return;
+      lines.splice(index, 1);
+      stripped++;
+      removed++;
+    }
+  };
+  trim(false);
+  trim(true);
+
+  return { text: lines.join('\n'), removed };
+};
+
+/**
+ * Does the paragraph stop in the middle of a sentence?
+ */
+export const endsMidSentence = (text: string): boolean => {
+  const end = text.replace(MARKER_PATTERN, '').trim();
+  return end.length > 0 && !SENTENCE_END_PATTERN.test(end);
+};
+
+const normalizeWord = (word: string): string => {
+  return word.replace(MARKER_PATTERN, '').replace(/[.,;:!?…"'”“’״׳()[\]\-–—]/g, '').toLowerCase();
+};
+
+/**
+ * Remove the start of `next` that repeats the end of `previous` word for word
+ * (the model translated its previous-page context again)
+ * @returns `next` without the repeat and the number of words removed (0 = no overlap)
+ */
+export const removeOverlap = (previous: string, next: string): { text: string; removedWords: number } => {
+  const previousWords = previous.split(/\s+/).filter(Boolean).map(normalizeWord);
+  const nextWords = [...next.matchAll(/\S+/g)];
+  const normalizedNext = nextWords.map(match => normalizeWord(match[0]));
+  const longest = Math.min(MAX_OVERLAP_WORDS, previousWords.length, nextWords.length);
+
+  for (let length = longest; length >= MIN_OVERLAP_WORDS; length--) {
+    const tail = previousWords.slice(-length);
+    if (tail.every((word, i) => word === normalizedNext[i])) {
+      const lastWord = nextWords[length - 1];
+      return { text: next.slice(lastWord.index! + lastWord[0].length).trim(), removedWords: length };
+    }
+  }
+  return { text: next, removedWords: 0 };
+};
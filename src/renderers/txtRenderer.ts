@@ -0,0 +1,71 @@
+import { formatFigureText, formatNoteReferences, formatPageRange, formatTableText, getSummaryEntries, getTableOfContents } from './documentModel';
+import type { Renderer, TranslationDocument, SummaryDocument } from './types';
+
+const BANNER = '='.repeat(80);
+
+/**
+ * Plain text output: '=' banners for chapters, '---' for sections, '--' for subsections,
+ * after a table of contents indented by level. Footnotes are "[n]", listed at the chapter's end;
+ * table rows are lines of " | "-separated cells, figures show their caption.
+ */
+export const txtRenderer: Renderer = {
+  format: 'txt',
+  extension: 'txt',
+
+  renderTranslation: async (document: TranslationDocument): Promise<string> => {
+    const { strings } = document.languages.target;
+    let text = '';
+
+    const toc = getTableOfContents(document);
+    if (toc.length > 0) {
+      text += `${strings.tableOfContents}\n${'-'.repeat(strings.tableOfContents.length)}\n`;
+      for (const heading of toc) {
+        text += `${'    '.repeat(heading.level - 1)}${heading.text} (${strings.pageReference(heading.pageNumber)})\n`;
+      }
+      text += '\n';
+    }
+
+    for (const block of document.blocks) {
+      if (block.type === 'heading' && block.level === 1) {
+        text += `\n\n${BANNER}\n${block.text}\n${BANNER}\n\n`;
+      } else if (block.type === 'heading' && block.level === 2) {
+        text += `\n--- ${block.text} ---\n\n`;
+      } else if (block.type === 'heading') {
+        text += `\n-- ${block.text} --\n\n`;
+      } else if (block.type === 'notes') {
+        text += `${'_'.repeat(20)}\n${strings.notes}\n`;
+        text += block.notes.map(note => `[${note.number}] ${note.text}`).join('\n') + '\n\n';
+      } else if (block.type === 'table') {
+        text += formatTableText(block, strings) + '\n\n';
+      } else if (block.type === 'figure') {
+        text += formatFigureText(block.caption, strings) + '\n\n';
+      } else {
+        text += formatNoteReferences(block.text, number => `[${number}]`) + '\n\n';
+      }
+    }
+
+    return text.trim();
+  },
+
+  renderSummary: async (document: SummaryDocument): Promise<string> => {
+    const { strings } = document.languages.target;
+    let text = '';
+
+    for (const entry of getSummaryEntries(document)) {
+      if (entry.level === 1) {
+        text += `${BANNER}\n`;
+        text += `${entry.title}\n`;
+        text += `(${strings.pageRange(formatPageRange(entry.pages))})\n`;
+        text += `${BANNER}\n\n`;
+      } else {
+        text += `--- ${entry.title} ---\n`;
+        text += `(${strings.pageRange(formatPageRange(entry.pages))})\n\n`;
+      }
+      if (entry.summary) {
+        text += entry.summary + '\n\n';
+      }
+    }
+
+    return text.trim();
+  }
+};
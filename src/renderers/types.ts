@@ -0,0 +1,108 @@
+import type { StitchingStats } from './stitching';
+import type { LanguagePair, TextDirection } from '../i18n';
+
+/**
+ * Renderer layer
+ * The page results are first turned into a format-neutral document model
+ * (see documentModel.ts); each renderer turns that model into one output format.
+ */
+
+export type OutputFormat = 'txt' | 'md' | 'html' | 'docx' | 'pdf';
+
+/** 1 = chapter, 2 = section, 3 = subsection */
+export type HeadingLevel = 1 | 2 | 3;
+
+/** A footnote, numbered from 1 within its chapter */
+export interface DocumentNote {
+  number: number;
+  text: string;
+  /** Page of the original the footnote is on */
+  pageNumber: number;
+}
+
+export type DocumentBlock =
+  /** pageNumber = page of the original the heading is on (for table of contents references) */
+  | { type: 'heading'; level: HeadingLevel; text: string; id: string; pageNumber: number }
+  /**
+   * Note references in text are "[^n]" (see splitNoteReferences); noteGroup is the notes block
+   * they point to. direction marks source-language text kept as-is (reference lists) when it
+   * runs the other way than the translation.
+   */
+  | { type: 'paragraph'; text: string; pageNumber: number; noteGroup?: number; direction?: TextDirection }
+  /** Footnotes of one chapter, after its last paragraph; group is unique within the document */
+  | { type: 'notes'; group: number; notes: DocumentNote[] }
+  /** A table of the original, translated cell by cell (header = the first row is a header row) */
+  | { type: 'table'; caption: string; header: boolean; rows: string[][]; pageNumber: number }
+  /** imagePath = PNG crop of the figure; without one only the caption is shown */
+  | { type: 'figure'; caption: string; imagePath?: string; pageNumber: number };
+
+export type HeadingBlock = Extract<DocumentBlock, { type: 'heading' }>;
+export type TableBlock = Extract<DocumentBlock, { type: 'table' }>;
+export type FigureBlock = Extract<DocumentBlock, { type: 'figure' }>;
+
+export interface TranslationDocument {
+  title: string;
+  blocks: DocumentBlock[];
+  /** What joining the pages repaired (see stitching.ts) */
+  stitching?: StitchingStats;
+  /** Source and target language; the target sets the labels and text direction */
+  languages: LanguagePair;
+}
+
+export interface SummarySection {
+  title: string;
+  pages: number[];
+  summary: string;
+}
+
+/**
+ * A chapter of the summary tree: its section (chunk) summaries and their roll-up.
+ * summary is '' when chapter summaries are off, and for the untitled pages before the first chapter.
+ */
+export interface SummaryChapter extends SummarySection {
+  sections: SummarySection[];
+}
+
+export interface SummaryDocument {
+  title: string;
+  /** Executive summary of the whole document (undefined when turned off) */
+  overview?: SummarySection;
+  /** In document order; a document without chapter headings has one untitled chapter */
+  chapters: SummaryChapter[];
+  languages: LanguagePair;
+}
+
+/** One heading + summary of the flattened summary tree, for rendering (level 1 = overview/chapter, 2 = section) */
+export interface SummaryEntry extends SummarySection {
+  level: 1 | 2;
+}
+
+/** Source side of a bilingual row: the source text layer, or the page image for scans */
+export type BilingualSource =
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; imagePath: string }
+  | { kind: 'none' };
+
+export interface BilingualRow {
+  pageNumber: number;
+  status: 'OK' | 'FAILED' | 'RETRY';
+  chapterTitle?: string;
+  sectionTitle?: string;
+  source: BilingualSource;
+  /** null when the page was not translated */
+  translation: string | null;
+}
+
+export interface BilingualDocument {
+  title: string;
+  rows: BilingualRow[];
+  languages: LanguagePair;
+}
+
+export interface Renderer {
+  format: OutputFormat;
+  /** File extension without the dot */
+  extension: string;
+  renderTranslation(document: TranslationDocument): Promise<string | Buffer>;
+  renderSummary(document: SummaryDocument): Promise<string | Buffer>;
+}
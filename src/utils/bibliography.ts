@@ -0,0 +1,103 @@
+import type { PageHeading } from '../providers';
+import type { PageText } from './pdfTextExtractor';
+import type { TranslationResult } from './pageProcessor';
+import { DEFAULT_LANGUAGES } from '../i18n';
+import type { UiStrings } from '../i18n';
+
+/**
+ * Bibliography pages
+ * Reference lists are kept in the source language: translating them costs a page call and
+ * makes the entries harder to look up. Text-layer pages that look like a reference list are copied
+ * through without calling the API; scanned pages are flagged by the model (`bibliography`).
+ */
+
+/** "References", "2. Bibliography", "Works Cited", ... */
+const HEADING_PATTERN = /^(?:\d+(?:\.\d+)*\.?\s+)?(?:references?|bibliography|works cited|literature cited|reference list|sources)$/i;
+
+/** Start of a reference entry: "Moon, C. H.", "Moon, Catherine", "[12]" or "12. Moon" */
+const ENTRY_START_PATTERN = /^(?:[A-Z][\p{L}'’-]+,\s+(?:[A-Z]\.|[A-Z][\p{L}'’-]+)|\[\d+\]\s|\d+\.\s+[A-Z][\p{L}'’-]+,)/u;
+
+/** Publication year: "(2010)", "(2010a)", "2010." or "(n.d.)" */
+const YEAR_PATTERN = /\((?:19|20)\d{2}[a-z]?\)|\b(?:19|20)\d{2}[a-z]?\.|\(n\.d\.\)/;
+
+/** Without a heading, at least this many entries and this share of the lines must be entry starts */
+const MIN_ENTRIES = 5;
+const MIN_ENTRY_LINE_RATIO = 0.25;
+
+interface ReferenceList {
+  /** The "References" heading line, if the page starts with one */
+  heading?: string;
+  /** Entries with wrapped lines joined; text continued from the previous page comes first */
+  entries: string[];
+  /** Lines that start an entry and carry a year (on the line or the one after) */
+  entryCount: number;
+}
+
+/**
+ * Join wrapped lines into entries, rejoining words hyphenated at the line break
+ */
+const parseReferenceList = (pageText: PageText): ReferenceList => {
+  const lines = pageText.lines.map(line => line.text);
+  const heading = lines.length > 0 && HEADING_PATTERN.test(lines[0]) ? lines[0] : undefined;
+  const body = heading ? lines.slice(1) : lines;
+
+  const entries: string[] = [];
+  let entryCount = 0;
+  body.forEach((line, i) => {
+    const startsEntry = ENTRY_START_PATTERN.test(line);
+    if (startsEntry && (YEAR_PATTERN.test(line) || YEAR_PATTERN.test(body[i + 1] || ''))) {
+      entryCount++;
+    }
+
+    const last = entries.length - 1;
+    if (startsEntry || last < 0) {
+      entries.push(line);
+    } else if (/\p{L}-$/u.test(entries[last]) && /^\p{Ll}/u.test(line)) {
+      entries[last] = entries[last].slice(0, -1) + line;
+    } else {
+      entries[last] += ` ${line}`;
+    }
+  });
+
+  return { heading, entries, entryCount };
+};
+
+/**
+ * Does this text-layer page look like (part of) a reference list?
+ * With a "References" heading two dated entries are enough; continuation pages need
+ * MIN_ENTRIES entries making up MIN_ENTRY_LINE_RATIO of the lines.
+ */
+export const isBibliographyPage = (pageText: PageText): boolean => {
+  const { heading, entryCount } = parseReferenceList(pageText);
+  if (heading) return entryCount >= 2;
+  return entryCount >= MIN_ENTRIES && entryCount / Math.max(1, pageText.lines.length) >= MIN_ENTRY_LINE_RATIO;
+};
+
+/**
+ * Page result for a reference list: the entries as printed, one per paragraph, under a
+ * target-language heading if the page starts the list
+ */
+export const createBibliographyResult = (
+  pageNumber: number,
+  pageText: PageText,
+  strings: UiStrings = DEFAULT_LANGUAGES.target.strings
+): TranslationResult => {
+  const { heading, entries } = parseReferenceList(pageText);
+  // The heading keeps the level its size suggested; a reference list is usually a section
+  const level = pageText.headings.find(hint => hint.text === heading)?.level ?? 2;
+  const headings: PageHeading[] = heading ? [{ level, text: strings.bibliography }] : [];
+
+  return {
+    pageNumber,
+    translation: entries.join('\n\n'),
+    summary: strings.bibliographySummary(entries.length),
+    articleTitle: '',
+    chapterTitle: level === 1 && heading ? strings.bibliography : '',
+    sectionTitle: level === 2 && heading ? strings.bibliography : '',
+    headings,
+    footnotes: [],
+    bibliography: true,
+    status: 'OK',
+    retryCount: 0
+  };
+};
@@ -0,0 +1,175 @@
+import fs from 'fs-extra';
+import type { ProviderConfig, TokenUsage } from '../providers';
+import { LANGUAGES } from '../i18n';
+
+/**
+ * Token and cost estimates
+ * Rough numbers used before any API call: to reserve rate-limit budget and
+ * to tell the user what a run will cost (--dry-run).
+ */
+
+export const CHARS_PER_TOKEN = 4;
+/** System prompt + instructions sent with every page */
+export const PAGE_PROMPT_TOKENS = 900;
+/** One high-detail page image (gpt-4o tiling of a ~1700x2200 render) */
+export const HIGH_DETAIL_IMAGE_TOKENS = 1105;
+/** JSON wrapper, titles and per-page summary around the translation */
+const PAGE_RESPONSE_OVERHEAD_TOKENS = 150;
+/** Assumed amount of text on a scanned page */
+const TYPICAL_PAGE_CHARS = 2500;
+/** Assumed summary chunks per chapter (one chapter roll-up call each) */
+const ROLLUP_CHUNKS_PER_CHAPTER = 3;
+
+export interface ModelPricing {
+  /** USD per million input tokens */
+  inputPerMillion: number;
+  /** USD per million output tokens */
+  outputPerMillion: number;
+}
+
+/** Model name -> price; dated snapshots ("gpt-4o-2024-08-06") match by prefix */
+export type PriceTable = Record<string, ModelPricing>;
+
+// List prices, overridable with a JSON price table (--prices / MODEL_PRICES_PATH)
+const MODEL_PRICING: PriceTable = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 }
+};
+
+/**
+ * Built-in prices merged with a JSON file of the same shape:
+ *   { "gpt-4o": { "inputPerMillion": 2.5, "outputPerMillion": 10 } }
+ */
+export const loadPriceTable = async (filePath?: string): Promise<PriceTable> => {
+  if (!filePath) return { ...MODEL_PRICING };
+
+  const data: unknown = await fs.readJson(filePath);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`Price table ${filePath} must be a JSON object of model prices`);
+  }
+  const table: PriceTable = { ...MODEL_PRICING };
+  for (const [model, value] of Object.entries(data as Record<string, unknown>)) {
+    const pricing = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof ModelPricing, unknown>>;
+    const { inputPerMillion, outputPerMillion } = pricing;
+    if (typeof inputPerMillion !== 'number' || typeof outputPerMillion !== 'number') {
+      throw new Error(`Price table ${filePath}: "${model}" needs numeric inputPerMillion and outputPerMillion`);
+    }
+    table[model.toLowerCase()] = { inputPerMillion, outputPerMillion };
+  }
+  return table;
+};
+
+/**
+ * Pricing for a model, or undefined for unknown (e.g. local) models
+ */
+export const getModelPricing = (model: string, priceTable: PriceTable = MODEL_PRICING): ModelPricing | undefined => {
+  const name = model.toLowerCase();
+  const match = Object.keys(priceTable)
+    .filter(key => name === key || name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? priceTable[match] : undefined;
+};
+
+/**
+ * USD cost of token usage, or null when the model's price is unknown
+ */
+export const getUsageCost = (usage: TokenUsage, model: string, priceTable: PriceTable = MODEL_PRICING): number | null => {
+  const pricing = getModelPricing(model, priceTable);
+  if (!pricing) return null;
+  return (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export interface PageEstimateInput {
+  kind: 'text' | 'image';
+  /** Characters of extracted text (0 for scans) */
+  textLength: number;
+}
+
+export interface CostEstimate {
+  pages: number;
+  textPages: number;
+  imagePages: number;
+  summaryChunks: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** null when the model's price is unknown */
+  costUsd: number | null;
+}
+
+/**
+ * Summary calls for a translation of `chars` characters, chunked by chunkSize
+ */
+const estimateSummaryTokens = (chars: number, config: ProviderConfig, chunkSize: number): TokenUsage & { chunks: number } => {
+  const chunks = chars > 0 ? Math.ceil(chars / chunkSize) : 0;
+  // Chapter roll-ups plus the document summary; together they read about one summary budget per chunk
+  const rollups = chunks > 0 ? Math.ceil(chunks / ROLLUP_CHUNKS_PER_CHAPTER) + 1 : 0;
+  const { tokenRatio } = LANGUAGES[config.targetLanguage];
+  return {
+    chunks,
+    inputTokens: chunks > 0
+      ? Math.ceil(chars / CHARS_PER_TOKEN * tokenRatio) + (chunks + rollups) * PAGE_PROMPT_TOKENS + chunks * config.summaryMaxTokens
+      : 0,
+    outputTokens: (chunks + rollups) * config.summaryMaxTokens
+  };
+};
+
+/**
+ * Estimated cost of summarizing an existing translation (null when the price is unknown)
+ */
+export const estimateSummaryCost = (
+  translationChars: number,
+  config: ProviderConfig,
+  options: { chunkSize: number; priceTable?: PriceTable }
+): number | null => {
+  return getUsageCost(estimateSummaryTokens(translationChars, config, options.chunkSize), config.model, options.priceTable);
+};
+
+/**
+ * Estimate tokens and cost of translating (and optionally summarizing) pages
+ */
+export const estimateRunCost = (
+  pages: PageEstimateInput[],
+  config: ProviderConfig,
+  options: { chunkSize: number; summary: boolean; priceTable?: PriceTable }
+): CostEstimate => {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let translatedChars = 0;
+  // The translation takes more tokens than the English it comes from in some languages (Hebrew)
+  const { tokenRatio } = LANGUAGES[config.targetLanguage];
+
+  for (const page of pages) {
+    const chars = page.kind === 'text' ? page.textLength : TYPICAL_PAGE_CHARS;
+    // Previous-page context is ~200 chars
+    inputTokens += PAGE_PROMPT_TOKENS + Math.ceil(200 / CHARS_PER_TOKEN)
+      + (page.kind === 'text' ? Math.ceil(chars / CHARS_PER_TOKEN) : HIGH_DETAIL_IMAGE_TOKENS);
+    outputTokens += Math.min(
+      config.maxTokens,
+      Math.ceil(chars / CHARS_PER_TOKEN * tokenRatio) + PAGE_RESPONSE_OVERHEAD_TOKENS
+    );
+    translatedChars += chars;
+  }
+
+  const summary = options.summary ? estimateSummaryTokens(translatedChars, config, options.chunkSize) : undefined;
+  const summaryChunks = summary?.chunks ?? 0;
+  inputTokens += summary?.inputTokens ?? 0;
+  outputTokens += summary?.outputTokens ?? 0;
+
+  const costUsd = getUsageCost({ inputTokens, outputTokens }, config.model, options.priceTable);
+
+  return {
+    pages: pages.length,
+    textPages: pages.filter(page => page.kind === 'text').length,
+    imagePages: pages.filter(page => page.kind === 'image').length,
+    summaryChunks,
+    inputTokens,
+    outputTokens,
+    costUsd
+  };
+};
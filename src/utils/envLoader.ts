@@ -1,11 +1,14 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
+import { getProviderName, getRequiredEnvVars } from '../providers';
 
 /**
  * Load environment variables from .env.local
+ * @param requireProviderVars - Fail when the selected provider's variables are missing
+ *   (off for commands that never call the API, e.g. --dry-run)
  */
-export const loadEnvVariables = (): void => {
+export const loadEnvVariables = (requireProviderVars: boolean = true): void => {
   // Try multiple possible locations for .env.local
   const possiblePaths = [
     path.resolve(process.cwd(), '.env.local'),
@@ -27,7 +30,11 @@ export const loadEnvVariables = (): void => {
     }
   }
 
-  if (result.error || !loadedPath) {
+  // Validate required environment variables (they depend on the selected provider)
+  const requiredVars = requireProviderVars ? getRequiredEnvVars(getProviderName()) : [];
+  const missingVars = requiredVars.filter(varName => !process.env[varName]);
+
+  if ((result.error || !loadedPath) && missingVars.length > 0) {
     console.error('❌ Could not find .env.local file in any of these locations:');
     possiblePaths.forEach(p => console.error(`   - ${p}`));
     console.error('\n💡 Please ensure .env.local exists in the project root directory:');
@@ -35,22 +42,15 @@ export const loadEnvVariables = (): void => {
     throw new Error('Failed to load environment variables - .env.local file not found');
   }
 
-  // Validate required environment variables
-  const requiredVars = [
-    'OPENAI_API_KEY'
-  ];
-
-  const missingVars = requiredVars.filter(varName => !process.env[varName]);
-
   if (missingVars.length > 0) {
     console.error('❌ Missing required environment variables:', missingVars);
     console.error('\n💡 Your .env.local file should contain:');
-    console.error('OPENAI_API_KEY=your_openai_api_key_here');
+    missingVars.forEach(varName => console.error(`${varName}=...`));
     throw new Error(`Missing environment variables: ${missingVars.join(', ')}`);
   }
 
   console.log('✅ Environment variables loaded successfully');
-  console.log(`✅ Loaded from: ${loadedPath}`);
+  console.log(loadedPath ? `✅ Loaded from: ${loadedPath}` : '✅ Using process environment (no .env.local)');
 };
 
 /**
@@ -0,0 +1,92 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Minimal glob matching for batch inputs ("readers/*.pdf", "course/**\/*.pdf")
+ * Supports *, ?, [abc] and ** (any number of directories). Paths use "/" internally.
+ */
+
+export const hasGlobPattern = (value: string): boolean => /[*?[]/.test(value);
+
+/**
+ * Convert a glob pattern (relative, "/"-separated) into an anchored RegExp
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more whole directories, a trailing "**" matches everything
+      if (pattern[i + 2] === '/') {
+        source += '(?:[^/]+/)*';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * All files below a directory, as "/"-separated paths relative to it
+ */
+const listFilesRecursive = async (dir: string, recursive: boolean, prefix = ''): Promise<string[]> => {
+  const files: string[] = [];
+
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (recursive) files.push(...await listFilesRecursive(path.join(dir, entry.name), recursive, relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Files matching a glob pattern, sorted by path
+ * @param pattern - Absolute or relative to the current directory
+ */
+export const findFilesByGlob = async (pattern: string): Promise<string[]> => {
+  const segments = pattern.split(/[\\/]/);
+  const firstMagic = segments.findIndex(hasGlobPattern);
+  if (firstMagic === -1) {
+    return (await fs.pathExists(pattern)) ? [path.resolve(pattern)] : [];
+  }
+
+  // Walk from the deepest directory without wildcards
+  const baseDir = path.resolve(segments.slice(0, firstMagic).join('/') || '.');
+  if (!(await fs.pathExists(baseDir))) {
+    return [];
+  }
+
+  const relativePattern = segments.slice(firstMagic).join('/');
+  const recursive = relativePattern.includes('/');
+  const matcher = globToRegExp(relativePattern);
+
+  return (await listFilesRecursive(baseDir, recursive))
+    .filter(file => matcher.test(file))
+    .sort()
+    .map(file => path.join(baseDir, file));
+};
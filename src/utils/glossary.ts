@@ -0,0 +1,157 @@
+import fs from 'fs-extra';
+import type { TranslationResult } from './pageProcessor';
+
+/**
+ * Terminology glossary
+ * A JSON file mapping English terms to their mandatory Hebrew rendering:
+ *
+ * {
+ *   "entries": [
+ *     { "source": "art therapy", "target": "טיפול באמנות" },
+ *     { "source": "Kinetic Family Drawing", "keepEnglish": true }
+ *   ]
+ * }
+ *
+ * Entries are injected into the page and summary prompts, and every translated
+ * page is checked afterwards for terms that were rendered differently.
+ */
+
+export interface GlossaryEntry {
+  /** English term as it appears in the source */
+  source: string;
+  /** Required Hebrew rendering (omit when keepEnglish is set) */
+  target?: string;
+  /** Leave the term in English inside the Hebrew text */
+  keepEnglish?: boolean;
+  /** Optional guidance for the translator */
+  note?: string;
+}
+
+export interface Glossary {
+  entries: GlossaryEntry[];
+}
+
+export interface GlossaryViolation {
+  pageNumber: number;
+  source: string;
+  expected: string;
+}
+
+/**
+ * Rendering the translation must contain for an entry
+ */
+export const getExpectedRendering = (entry: GlossaryEntry): string => {
+  return entry.keepEnglish ? entry.source : entry.target || '';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Load and validate a glossary file
+ * @param glossaryPath - JSON file with an `entries` array (a bare array is accepted too)
+ */
+export const loadGlossary = async (glossaryPath: string): Promise<Glossary> => {
+  const raw: unknown = await fs.readJson(glossaryPath);
+  const entries = Array.isArray(raw) ? raw : isRecord(raw) ? raw.entries : undefined;
+
+  if (!Array.isArray(entries)) {
+    throw new Error(`Glossary ${glossaryPath} must contain an "entries" array`);
+  }
+
+  return {
+    entries: entries.map((entry: unknown, index): GlossaryEntry => {
+      if (!isRecord(entry) || typeof entry.source !== 'string' || !entry.source.trim()) {
+        throw new Error(`Glossary entry ${index + 1} is missing "source"`);
+      }
+      const keepEnglish = Boolean(entry.keepEnglish);
+      const target = typeof entry.target === 'string' ? entry.target.trim() : '';
+      if (!keepEnglish && !target) {
+        throw new Error(`Glossary entry "${entry.source}" needs a "target" or "keepEnglish": true`);
+      }
+      return {
+        source: entry.source.trim(),
+        target: keepEnglish ? undefined : target,
+        keepEnglish,
+        note: typeof entry.note === 'string' ? entry.note : undefined
+      };
+    })
+  };
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether an English term occurs in source text (case-insensitive, whole words, simple plurals)
+ */
+export const containsTerm = (text: string, term: string): boolean => {
+  const pattern = new RegExp(`\\b${escapeRegExp(term)}(?:s|es)?\\b`, 'i');
+  return pattern.test(text);
+};
+
+/**
+ * Entries relevant to a page: those whose term occurs in its source text.
+ * Without a text layer (scanned page) every entry is relevant.
+ */
+export const selectEntriesForText = (glossary: Glossary, sourceText: string): GlossaryEntry[] => {
+  if (!sourceText.trim()) {
+    return glossary.entries;
+  }
+  return glossary.entries.filter(entry => containsTerm(sourceText, entry.source));
+};
+
+/**
+ * Pages where a glossary term appears in the source but its mandated rendering
+ * is missing from the translation. Pages without a text layer cannot be checked.
+ * @param glossary - Loaded glossary
+ * @param results - Translation results
+ * @param sourceTexts - Source text per page number
+ */
+export const findGlossaryViolations = (
+  glossary: Glossary,
+  results: TranslationResult[],
+  sourceTexts: Map<number, string>
+): GlossaryViolation[] => {
+  const violations: GlossaryViolation[] = [];
+
+  for (const result of results) {
+    // Reference lists are kept in English on purpose
+    if (result.status !== 'OK' || result.bibliography) continue;
+
+    const sourceText = sourceTexts.get(result.pageNumber) || '';
+    if (!sourceText.trim()) continue;
+
+    for (const entry of glossary.entries) {
+      const expected = getExpectedRendering(entry);
+      if (containsTerm(sourceText, entry.source) && !result.translation.includes(expected)) {
+        violations.push({ pageNumber: result.pageNumber, source: entry.source, expected });
+      }
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Human-readable violation report, grouped by page
+ */
+export const formatViolationReport = (violations: GlossaryViolation[]): string => {
+  if (violations.length === 0) {
+    return 'No glossary violations found.';
+  }
+
+  const byPage = new Map<number, GlossaryViolation[]>();
+  for (const violation of violations) {
+    byPage.set(violation.pageNumber, [...(byPage.get(violation.pageNumber) || []), violation]);
+  }
+
+  const lines: string[] = [];
+  for (const [pageNumber, pageViolations] of [...byPage].sort((a, b) => a[0] - b[0])) {
+    lines.push(`Page ${pageNumber}:`);
+    for (const violation of pageViolations) {
+      lines.push(`  - "${violation.source}" should be rendered as "${violation.expected}"`);
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,301 @@
+import { containsTerm, getExpectedRendering } from './glossary';
+import { runWithConcurrency } from './workerPool';
+import type { Glossary, GlossaryEntry } from './glossary';
+import type { TranslationResult } from './pageProcessor';
+import type { TranslationProvider } from '../providers';
+
+/**
+ * Automatic glossary mining
+ * 1. Collect recurring English terms (proper names, technical phrases) from the source pages
+ * 2. Ask the provider how each page rendered them
+ * 3. Flag terms with more than one Hebrew rendering and pick a canonical one
+ * The result is written as a glossary file that can be reused for the next document.
+ */
+
+export interface TermRendering {
+  rendering: string;
+  pages: number[];
+}
+
+export interface MinedTerm {
+  source: string;
+  /** Pages whose source text contains the term */
+  pages: number[];
+  renderings: TermRendering[];
+  canonical: string;
+  /** true when the canonical rendering comes from the user glossary */
+  fromGlossary: boolean;
+}
+
+export interface MiningOptions {
+  /** A term must occur on at least this many pages (default 3) */
+  minPages?: number;
+  /** Keep at most this many candidate terms (default 40) */
+  maxTerms?: number;
+  concurrency?: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'with', 'by', 'from',
+  'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'this', 'that', 'these', 'those', 'it',
+  'its', 'their', 'they', 'them', 'he', 'she', 'his', 'her', 'we', 'our', 'you', 'your', 'i', 'my',
+  'not', 'no', 'can', 'could', 'may', 'might', 'will', 'would', 'should', 'has', 'have', 'had',
+  'do', 'does', 'did', 'which', 'who', 'whom', 'what', 'when', 'where', 'how', 'also', 'such',
+  'than', 'then', 'there', 'into', 'about', 'more', 'most', 'other', 'some', 'any', 'each', 'all',
+  'one', 'two', 'both', 'many', 'much', 'very', 'often', 'only', 'through', 'between', 'within'
+]);
+
+// Capitalized multi-word names ("Edith Kramer", "Expressive Therapies Continuum")
+const PROPER_NAME_PATTERN = /\b[A-Z][a-z]+(?:[ \-](?:of|and|for|de|van|von)?[ \-]?[A-Z][a-z]+){1,3}\b/g;
+// Single capitalized words that are not sentence-initial ("... as Kramer noted")
+const MID_SENTENCE_NAME_PATTERN = /(?<=[a-z,;:] )[A-Z][a-z]{2,}\b/g;
+
+/**
+ * Lowercase word n-grams without stopwords (only "of" is allowed inside)
+ */
+const collectPhrases = (text: string, sizes: number[]): string[] => {
+  const words = text.toLowerCase().match(/[a-z][a-z\-]+/g) || [];
+  const phrases: string[] = [];
+
+  for (const size of sizes) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const gram = words.slice(i, i + size);
+      if (STOPWORDS.has(gram[0]) || STOPWORDS.has(gram[size - 1])) continue;
+      if (gram.some(word => word !== 'of' && STOPWORDS.has(word))) continue;
+      if (gram.some(word => word.length < 3)) continue;
+      phrases.push(gram.join(' '));
+    }
+  }
+  return phrases;
+};
+
+/**
+ * Recurring English terms and the pages they occur on
+ * @param sourceTexts - Source text per page number (pages without text layer are skipped)
+ */
+export const extractCandidateTerms = (
+  sourceTexts: Map<number, string>,
+  minPages: number = 3,
+  maxTerms: number = 40
+): Map<string, number[]> => {
+  // Keyed by lowercase form; the capitalized spelling wins for display
+  const termPages = new Map<string, Set<number>>();
+  const displayForms = new Map<string, string>();
+
+  const addTerm = (term: string, pageNumber: number): void => {
+    const words = term.trim().split(/\s+/);
+    // Drop a capitalized sentence opener ("The", "As", "In") in front of a name
+    while (words.length > 1 && STOPWORDS.has(words[0].toLowerCase())) words.shift();
+    const display = words.join(' ');
+    const key = display.toLowerCase();
+    if (!key || STOPWORDS.has(key)) return;
+
+    if (!termPages.has(key)) termPages.set(key, new Set());
+    termPages.get(key)!.add(pageNumber);
+    if (!displayForms.has(key) || /[A-Z]/.test(display)) displayForms.set(key, display);
+  };
+
+  for (const [pageNumber, text] of sourceTexts) {
+    if (!text.trim()) continue;
+    const flatText = text.replace(/\s+/g, ' ');
+
+    for (const match of flatText.match(PROPER_NAME_PATTERN) || []) addTerm(match, pageNumber);
+    for (const match of flatText.match(MID_SENTENCE_NAME_PATTERN) || []) addTerm(match, pageNumber);
+    // Phrases never span punctuation
+    for (const clause of flatText.split(/[.,;:!?()"“”\[\]]+/)) {
+      for (const phrase of collectPhrases(clause, [2, 3])) addTerm(phrase, pageNumber);
+    }
+  }
+
+  const recurring = [...termPages]
+    .filter(([, pages]) => pages.size >= minPages)
+    .sort((a, b) => b[1].size - a[1].size || b[0].split(' ').length - a[0].split(' ').length);
+
+  // Drop a term when a longer term containing it occurs on the same pages
+  const selected: [string, Set<number>][] = [];
+  for (const [term, pages] of recurring) {
+    const coveredByLonger = recurring.some(([other, otherPages]) =>
+      other.length > term.length &&
+      other.includes(term) &&
+      otherPages.size === pages.size
+    );
+    if (!coveredByLonger) selected.push([term, pages]);
+    if (selected.length >= maxTerms) break;
+  }
+
+  return new Map(selected.map(([key, pages]) => [displayForms.get(key)!, [...pages].sort((a, b) => a - b)]));
+};
+
+/**
+ * Mine terms, align them against every page's translation and pick canonical renderings
+ * @param provider - Used for the per-page term alignment calls
+ * @param results - Translation results
+ * @param sourceTexts - Source text per page number
+ * @param glossary - User glossary; its renderings win when choosing the canonical form
+ */
+export const mineGlossary = async (
+  provider: TranslationProvider,
+  results: TranslationResult[],
+  sourceTexts: Map<number, string>,
+  glossary: Glossary | undefined,
+  options: MiningOptions = {}
+): Promise<MinedTerm[]> => {
+  const candidates = extractCandidateTerms(sourceTexts, options.minPages ?? 3, options.maxTerms ?? 40);
+  console.log(`🔎 ${candidates.size} recurring term(s) found in the source text`);
+  if (candidates.size === 0) return [];
+
+  const renderingsByTerm = new Map<string, Map<string, number[]>>();
+  const okResults = results.filter(result => result.status === 'OK' && !result.bibliography);
+
+  await runWithConcurrency(okResults, options.concurrency ?? 3, async (result) => {
+    const sourceText = sourceTexts.get(result.pageNumber) || '';
+    const terms = [...candidates.keys()].filter(term => containsTerm(sourceText, term));
+    if (terms.length === 0) return;
+
+    try {
+      const alignment = await provider.alignTerms({
+        pageNumber: result.pageNumber,
+        sourceText,
+        translation: result.translation,
+        terms
+      });
+
+      for (const term of terms) {
+        const rendering = alignment[term];
+        // Ignore renderings the model made up: they must occur in the translation
+        if (!rendering || !result.translation.includes(rendering)) continue;
+
+        if (!renderingsByTerm.has(term)) renderingsByTerm.set(term, new Map());
+        const pages = renderingsByTerm.get(term)!;
+        pages.set(rendering, [...(pages.get(rendering) || []), result.pageNumber]);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Term alignment failed for page ${result.pageNumber}:`, error);
+    }
+  });
+
+  const glossaryEntries = new Map(
+    (glossary?.entries || []).map(entry => [entry.source.toLowerCase(), entry])
+  );
+
+  const mined: MinedTerm[] = [];
+  for (const [source, pages] of candidates) {
+    const renderingPages = renderingsByTerm.get(source);
+    if (!renderingPages) continue;
+
+    // Most pages first; ties go to the rendering seen earliest
+    const renderings = [...renderingPages]
+      .map(([rendering, renderingPagesList]) => ({ rendering, pages: renderingPagesList.sort((a, b) => a - b) }))
+      .sort((a, b) => b.pages.length - a.pages.length || a.pages[0] - b.pages[0]);
+
+    const glossaryEntry = glossaryEntries.get(source.toLowerCase());
+    mined.push({
+      source,
+      pages,
+      renderings,
+      canonical: glossaryEntry ? getExpectedRendering(glossaryEntry) : renderings[0].rendering,
+      fromGlossary: Boolean(glossaryEntry)
+    });
+  }
+
+  return mined;
+};
+
+/**
+ * Terms rendered in more than one way (or differently from the user glossary)
+ */
+export const getInconsistentTerms = (mined: MinedTerm[]): MinedTerm[] => {
+  return mined.filter(term =>
+    term.renderings.length > 1 ||
+    term.renderings.some(rendering => rendering.rendering !== term.canonical)
+  );
+};
+
+/**
+ * Pages that use a non-canonical rendering of any inconsistent term
+ */
+export const getAffectedPages = (inconsistent: MinedTerm[]): number[] => {
+  const pages = new Set<number>();
+  for (const term of inconsistent) {
+    for (const rendering of term.renderings) {
+      if (rendering.rendering !== term.canonical) {
+        rendering.pages.forEach(page => pages.add(page));
+      }
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+};
+
+/**
+ * Replace non-canonical renderings with the canonical one in place.
+ * Only touches pages recorded for that rendering.
+ * @returns Page numbers that changed
+ */
+export const patchInconsistentTerms = (
+  results: TranslationResult[],
+  inconsistent: MinedTerm[]
+): number[] => {
+  const changed = new Set<number>();
+  const byPage = new Map(results.map(result => [result.pageNumber, result]));
+
+  for (const term of inconsistent) {
+    for (const rendering of term.renderings) {
+      if (rendering.rendering === term.canonical) continue;
+      // Would re-match inside its own replacement ("אמנות" -> "טיפול באמנות")
+      if (term.canonical.includes(rendering.rendering)) {
+        console.warn(`⚠️ Not patching "${rendering.rendering}" → "${term.canonical}" (overlapping renderings)`);
+        continue;
+      }
+
+      for (const pageNumber of rendering.pages) {
+        const result = byPage.get(pageNumber);
+        if (!result || !result.translation.includes(rendering.rendering)) continue;
+        result.translation = result.translation.split(rendering.rendering).join(term.canonical);
+        changed.add(pageNumber);
+      }
+    }
+  }
+
+  return [...changed].sort((a, b) => a - b);
+};
+
+/**
+ * Mined terms as glossary entries (same format as --glossary, so the file can be reused)
+ */
+export const toGlossary = (mined: MinedTerm[], glossary?: Glossary): Glossary => {
+  const entries: GlossaryEntry[] = [...(glossary?.entries || [])];
+  const known = new Set(entries.map(entry => entry.source.toLowerCase()));
+
+  for (const term of mined) {
+    if (known.has(term.source.toLowerCase())) continue;
+
+    const keepEnglish = term.canonical === term.source;
+    entries.push({
+      source: term.source,
+      target: keepEnglish ? undefined : term.canonical,
+      keepEnglish: keepEnglish || undefined,
+      note: `mined from ${term.pages.length} pages`
+    });
+  }
+
+  return { entries };
+};
+
+/**
+ * Human-readable report of inconsistent terms
+ */
+export const formatInconsistencyReport = (inconsistent: MinedTerm[]): string => {
+  if (inconsistent.length === 0) {
+    return 'All recurring terms are rendered consistently.';
+  }
+
+  const lines: string[] = [];
+  for (const term of inconsistent) {
+    lines.push(`"${term.source}" → canonical "${term.canonical}"${term.fromGlossary ? ' (glossary)' : ''}`);
+    for (const rendering of term.renderings) {
+      const marker = rendering.rendering === term.canonical ? '✓' : '✗';
+      lines.push(`  ${marker} "${rendering.rendering}" on pages ${rendering.pages.join(', ')}`);
+    }
+  }
+  return lines.join('\n');
+};
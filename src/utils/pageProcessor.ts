@@ -0,0 +1,279 @@
+import { ResponseValidationError, ResponseTruncatedError, getProviderLanguages } from '../providers';
+import type { TranslationProvider, PageTranslationRequest, PageTranslation, PageHeading, PageFootnote, PageTable, PageFigure } from '../providers';
+import type { TranslationCache } from './translationCache';
+import { checkTranslationQuality, getCheckedTranslation, getFootnoteText, formatQualityIssues, DEFAULT_MIN_QUALITY } from './qualityCheck';
+import type { PageQuality } from './qualityCheck';
+import { splitPageContent, mergePageTranslations, SPLIT_COUNT, MAX_SPLIT_DEPTH } from './pageSplitter';
+
+/**
+ * A reviewer's change to a page after its run (see pipeline/review.ts)
+ */
+export interface PageReview {
+  action: 'retranslated' | 'overridden';
+  /** Reviewer note sent with a re-translation */
+  note?: string;
+  /** File an overridden page was read from */
+  file?: string;
+  reviewedAt: string;
+}
+
+export interface TranslationResult {
+  pageNumber: number;
+  translation: string;
+  summary: string;
+  articleTitle: string;
+  chapterTitle?: string;
+  sectionTitle?: string;
+  headings?: PageHeading[];
+  footnotes?: PageFootnote[];
+  /** Reference list copied in the source language (see bibliography.ts) */
+  bibliography?: boolean;
+  tables?: PageTable[];
+  figures?: PageFigure[];
+  /** Parts the page was translated in because a whole-page response hit max tokens (absent = 1) */
+  parts?: number;
+  status: 'OK' | 'FAILED' | 'RETRY';
+  retryCount?: number;
+  /** Set when a reviewer re-translated or overrode the page */
+  review?: PageReview;
+}
+
+/**
+ * Quality gate for processPage (see qualityCheck.ts)
+ */
+export interface PageQualityOptions {
+  /** Attempts scoring below this are retried; the best one is kept if none reaches it */
+  minScore: number;
+  /** Source text layer, for the length comparison (text-layer pages only) */
+  sourceText?: string;
+  /** Translation of the previous page, to catch a repeated page */
+  previousTranslation?: string;
+}
+
+const toResult = (pageNumber: number, response: PageTranslation, retryCount: number, parts: number = 1): TranslationResult => ({
+  pageNumber,
+  translation: response.translation,
+  summary: response.summary,
+  articleTitle: response.articleTitle,
+  chapterTitle: response.chapterTitle || '',
+  sectionTitle: response.sectionTitle || '',
+  headings: response.headings || [],
+  footnotes: response.footnotes || [],
+  bibliography: response.bibliography || false,
+  tables: response.tables || [],
+  figures: response.figures || [],
+  ...(parts > 1 ? { parts } : {}),
+  status: 'OK',
+  retryCount
+});
+
+interface PartialTranslation {
+  response: PageTranslation;
+  /** Provider calls the response was merged from */
+  parts: number;
+}
+
+/**
+ * Translate a page, or with `split` its top and bottom parts. A response cut off at max tokens
+ * is not retried as is: the content is split (again, up to MAX_SPLIT_DEPTH) and each part is
+ * translated after the one above it, continuing from the end of its translation.
+ */
+const translateContent = async (
+  provider: TranslationProvider,
+  request: PageTranslationRequest,
+  split: boolean,
+  depth: number = 0
+): Promise<PartialTranslation> => {
+  const label = request.part ? `page ${request.pageNumber} part ${request.part.index}/${request.part.count}` : `page ${request.pageNumber}`;
+  if (!split) {
+    try {
+      return { response: await provider.translatePage(request), parts: 1 };
+    } catch (error) {
+      if (!(error instanceof ResponseTruncatedError) || depth >= MAX_SPLIT_DEPTH) throw error;
+      console.warn(`   ✂️  ${label}: response cut off at ${error.maxTokens} tokens, translating it in ${SPLIT_COUNT} parts`);
+    }
+  }
+
+  const contents = await splitPageContent(request.content);
+  if (!contents) {
+    throw new ResponseTruncatedError(provider.config.maxTokens, '');
+  }
+
+  const results: PartialTranslation[] = [];
+  for (const [i, content] of contents.entries()) {
+    const previous = results[i - 1];
+    const part = {
+      index: ((request.part?.index ?? 1) - 1) * contents.length + i + 1,
+      count: (request.part?.count ?? 1) * contents.length
+    };
+    results.push(await translateContent(provider, {
+      ...request,
+      content,
+      part,
+      previousContext: previous ? previous.response.translation.slice(-200) : request.previousContext,
+      previousContextSource: previous ? 'translation' : request.previousContextSource,
+      // The outline is applied to the merged page (applyOutlineHeadings)
+      outlineHeadings: undefined
+    }, false, depth + 1));
+  }
+
+  return {
+    response: mergePageTranslations(results.map(result => result.response)),
+    parts: results.reduce((sum, result) => sum + result.parts, 0)
+  };
+};
+
+/**
+ * Process a single page: translate and summarize into the provider's target language
+ * @param provider - Translation backend
+ * @param request - Page number, content (image or text layer), previous-page and chapter context
+ * @param maxRetries - Maximum number of retry attempts (default: 3)
+ * @param cache - Translation cache consulted before the API and filled with results that pass the quality gate
+ * @param quality - Minimum quality score and the context the checks compare against
+ * @returns Translation result with translation, summary, and article title
+ */
+export const processPage = async (
+  provider: TranslationProvider,
+  request: PageTranslationRequest,
+  maxRetries: number = 3,
+  cache?: TranslationCache,
+  quality: PageQualityOptions = { minScore: DEFAULT_MIN_QUALITY }
+): Promise<TranslationResult> => {
+  const { pageNumber } = request;
+  const languages = getProviderLanguages(provider.config);
+  const { strings } = languages.target;
+
+  try {
+    const cached = cache ? await cache.get(provider, request) : undefined;
+    if (cached) {
+      console.log(`💾 Page ${pageNumber}: cache hit, no API call`);
+      return toResult(pageNumber, cached, 0);
+    }
+
+    console.log(`🔄 Processing page ${pageNumber}...`);
+
+    let retryCount = 0;
+    let lastError: any = null;
+    // Best usable attempt below the minimum score, kept if no retry does better
+    let best: { response: PageTranslation; quality: PageQuality; retryCount: number; parts: number } | null = null;
+    // Once the whole page has been cut off, retries go straight to the parts
+    let split = false;
+
+    // Retry loop
+    while (retryCount <= maxRetries) {
+      try {
+        console.log(retryCount > 0 ? `   🔄 Retry attempt ${retryCount}/${maxRetries}...` : '');
+
+        const { response: parsedResponse, parts } = await translateContent(provider, request, split);
+        split = parts > 1;
+
+        // Score the translation; low scores are retried
+        const pageQuality = checkTranslationQuality({
+          translation: getCheckedTranslation(parsedResponse),
+          footnotes: getFootnoteText(parsedResponse),
+          summary: parsedResponse.summary,
+          bibliography: parsedResponse.bibliography,
+          sourceText: quality.sourceText,
+          previousTranslation: quality.previousTranslation,
+          languages
+        });
+        if (!pageQuality.usable || pageQuality.score < quality.minScore) {
+          if (pageQuality.usable && (!best || pageQuality.score > best.quality.score)) {
+            best = { response: parsedResponse, quality: pageQuality, retryCount, parts };
+          }
+          throw new Error(`Quality score ${pageQuality.score}/100 (minimum ${quality.minScore}): ${formatQualityIssues(pageQuality)}`);
+        }
+        if (pageQuality.issues.length > 0) {
+          console.log(`   🔎 Quality ${pageQuality.score}/100: ${formatQualityIssues(pageQuality)}`);
+        }
+
+        // Log chapter/section if found
+        if (parsedResponse.chapterTitle) {
+          console.log(`   📚 Chapter found: ${parsedResponse.chapterTitle}`);
+        }
+        if (parsedResponse.sectionTitle) {
+          console.log(`   📑 Section found: ${parsedResponse.sectionTitle}`);
+        }
+
+        console.log(`✅ Page ${pageNumber} processed successfully${parts > 1 ? ` (${parts} parts)` : ''}`);
+
+        // A cache write error must not turn a good translation into a retry
+        if (cache) {
+          await cache.set(provider, request, parsedResponse)
+            .catch(error => console.warn(`⚠️ Could not cache page ${pageNumber}:`, error));
+        }
+
+        return toResult(pageNumber, parsedResponse, retryCount, parts);
+
+      } catch (attemptError) {
+        lastError = attemptError;
+        retryCount++;
+
+        // Still cut off after splitting: the same request would stop at the same place
+        if (attemptError instanceof ResponseTruncatedError) {
+          console.warn(`⚠️ Page ${pageNumber}: still cut off at ${attemptError.maxTokens} tokens after splitting (raise TRANSLATION_MAX_TOKENS)`);
+          break;
+        }
+
+        if (attemptError instanceof ResponseValidationError) {
+          console.warn(`⚠️ Page ${pageNumber}: response does not match the schema`);
+          for (const issue of attemptError.issues) {
+            console.warn(`   - ${issue.field}: ${issue.message}`);
+          }
+        } else {
+          console.warn(`⚠️ Page ${pageNumber}: ${attemptError instanceof Error ? attemptError.message : attemptError}`);
+        }
+
+        if (retryCount <= maxRetries) {
+          console.warn(`⚠️ Attempt failed, waiting 3 seconds before retry...`);
+          await delay(3000); // 3 second delay between retries
+        }
+      }
+    }
+
+    // All retries exhausted: a low-scoring but usable attempt beats no translation.
+    // It is not cached, and the QA report flags it for review.
+    if (best) {
+      console.warn(`⚠️ Page ${pageNumber}: no attempt reached quality ${quality.minScore}, keeping the best (${best.quality.score}/100) for review`);
+      return { ...toResult(pageNumber, best.response, best.retryCount, best.parts), retryCount: maxRetries + 1 };
+    }
+
+    // All retries exhausted (or the page is too long even in parts)
+    console.error(`❌ Page ${pageNumber} failed after ${retryCount} attempts`);
+    
+    return {
+      pageNumber,
+      translation: strings.pageFailed(pageNumber, retryCount),
+      summary: lastError instanceof ResponseTruncatedError
+        ? `FAILED - response cut off at ${lastError.maxTokens} tokens even after splitting - raise TRANSLATION_MAX_TOKENS`
+        : `FAILED - ${retryCount} attempts - manual review needed`,
+      articleTitle: strings.error,
+      chapterTitle: '',
+      sectionTitle: '',
+      status: 'FAILED',
+      retryCount
+    };
+  } catch (error) {
+    console.error(`❌ Fatal error processing page ${pageNumber}:`, error);
+    
+    return {
+      pageNumber,
+      translation: strings.pageCrashed(pageNumber),
+      summary: 'FAILED - Critical error',
+      articleTitle: strings.error,
+      chapterTitle: '',
+      sectionTitle: '',
+      status: 'FAILED',
+      retryCount: 0
+    };
+  }
+};
+
+/**
+ * Add delay between API calls to respect rate limits
+ * @param ms - Milliseconds to delay
+ */
+export const delay = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
@@ -0,0 +1,117 @@
+import type { PageContent, PageTranslation, PageFootnote, PageTable, PageFigure, PageRegion } from '../providers';
+import { splitPageImage } from './pdfProcessorJS';
+
+/**
+ * Page splitting
+ * A dense page can need more output than max_tokens allows, and its response is cut off
+ * (ResponseTruncatedError). Such a page is split from top to bottom into parts that are
+ * translated one after the other and merged back into one page result: text-layer pages
+ * by lines, rendered pages into image strips.
+ */
+
+/** Parts a page (or a part that is still too long) is split into */
+export const SPLIT_COUNT = 2;
+
+/** How many times a page may be split: 2 levels = at most 4 parts */
+export const MAX_SPLIT_DEPTH = 2;
+
+/** A line that ends a sentence; cutting after one keeps sentences whole */
+const SENTENCE_END_PATTERN = /[.!?:;]["”’)\]]?$/;
+
+const PLACEHOLDER_PATTERN = /\[\[(TABLE|FIGURE) (\d+)\]\]/g;
+
+/**
+ * Cut text in two near the middle line, after the closest line that ends a sentence
+ * (within a quarter of the lines), otherwise at the middle
+ */
+const splitTextLines = (text: string): string[] | null => {
+  const lines = text.split('\n');
+  if (lines.length < 2) return null;
+
+  const middle = Math.floor(lines.length / 2);
+  const endsSentence = (index: number): boolean => SENTENCE_END_PATTERN.test(lines[index]?.trim() || '');
+  let cut = middle;
+  for (let offset = 0; offset <= lines.length / 4; offset++) {
+    if (endsSentence(middle - 1 - offset)) {
+      cut = middle - offset;
+      break;
+    }
+    if (endsSentence(middle - 1 + offset)) {
+      cut = middle + offset;
+      break;
+    }
+  }
+  return [lines.slice(0, cut).join('\n'), lines.slice(cut).join('\n')];
+};
+
+/**
+ * Split page content into SPLIT_COUNT parts, top to bottom
+ * @returns null when the content cannot be split (a single line of text)
+ */
+export const splitPageContent = async (content: PageContent): Promise<PageContent[] | null> => {
+  if (content.kind === 'image') {
+    const imagePaths = await splitPageImage(content.imagePath, SPLIT_COUNT);
+    return imagePaths.map(imagePath => ({ kind: 'image', imagePath }));
+  }
+
+  const texts = splitTextLines(content.text);
+  if (!texts) return null;
+  return texts.map(text => {
+    const lines = new Set(text.split('\n').map(line => line.trim()));
+    return { kind: 'text', text, headings: content.headings.filter(heading => lines.has(heading.text)) };
+  });
+};
+
+/**
+ * Figure region on part `index` of `count` -> region on the whole (parts are horizontal strips)
+ */
+const toWholeRegion = (region: PageRegion, index: number, count: number): PageRegion => ({
+  x: region.x,
+  y: (index + region.y) / count,
+  width: region.width,
+  height: region.height / count
+});
+
+/**
+ * Merge the translations of a page's parts (in order) into one page translation:
+ * texts joined, table/figure placeholders renumbered, figure regions mapped back onto the
+ * page, and footnotes listed once per marker (a note can be cut across two parts)
+ */
+export const mergePageTranslations = (parts: PageTranslation[]): PageTranslation => {
+  const tables: PageTable[] = [];
+  const figures: PageFigure[] = [];
+  const footnotes: PageFootnote[] = [];
+
+  const translations = parts.map((part, i) => {
+    const tableOffset = tables.length;
+    const figureOffset = figures.length;
+    tables.push(...(part.tables || []));
+    figures.push(...(part.figures || []).map(figure => ({
+      ...figure,
+      region: figure.region ? toWholeRegion(figure.region, i, parts.length) : null
+    })));
+    for (const footnote of part.footnotes || []) {
+      if (!footnotes.some(existing => existing.marker === footnote.marker)) footnotes.push(footnote);
+    }
+
+    return part.translation.replace(PLACEHOLDER_PATTERN, (_placeholder, kind: string, n: string) =>
+      `[[${kind} ${Number(n) + (kind === 'TABLE' ? tableOffset : figureOffset)}]]`
+    );
+  });
+
+  const first = (field: 'articleTitle' | 'chapterTitle' | 'sectionTitle'): string =>
+    parts.map(part => part[field]).find(Boolean) || '';
+
+  return {
+    translation: translations.filter(text => text.trim()).join('\n\n'),
+    summary: parts.map(part => part.summary.trim()).filter(Boolean).join(' '),
+    articleTitle: first('articleTitle'),
+    chapterTitle: first('chapterTitle'),
+    sectionTitle: first('sectionTitle'),
+    headings: parts.flatMap(part => part.headings || []),
+    footnotes,
+    bibliography: parts.every(part => part.bibliography),
+    tables,
+    figures
+  };
+};
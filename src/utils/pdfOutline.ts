@@ -0,0 +1,141 @@
+import fs from 'fs-extra';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf';
+import type { PageHeading } from '../providers';
+import type { TranslationResult } from './pageProcessor';
+
+/**
+ * PDF outline (bookmarks)
+ * When a PDF carries an outline, it is the ground truth for the document structure:
+ * its entries are mapped to page numbers, handed to the page prompts, and override the
+ * headings the model reports for the levels the outline covers.
+ */
+
+export type HeadingLevel = PageHeading['level'];
+
+export const MAX_HEADING_LEVEL: HeadingLevel = 3;
+
+export interface OutlineHeading {
+  /** English title as stored in the PDF */
+  title: string;
+  level: HeadingLevel;
+  /** Page the bookmark points to (1-based) */
+  pageNumber: number;
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number];
+
+/**
+ * Page number a bookmark destination points to, or undefined for external links and broken destinations
+ */
+const resolveDestinationPage = async (pdfDoc: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | undefined> => {
+  try {
+    const explicit = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest;
+    const target = explicit?.[0];
+    if (typeof target === 'number') return target + 1;
+    if (target && typeof target === 'object') return (await pdfDoc.getPageIndex(target)) + 1;
+  } catch {
+    // Broken destinations are skipped
+  }
+  return undefined;
+};
+
+/**
+ * Read the outline tree as a flat list in document order (levels below 3 are dropped)
+ * @returns An empty list when the PDF has no outline
+ */
+export const readPdfOutline = async (pdfPath: string): Promise<OutlineHeading[]> => {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const pdfDoc = await getDocument({ data }).promise;
+  const headings: OutlineHeading[] = [];
+
+  const walk = async (nodes: OutlineNode[], level: number): Promise<void> => {
+    if (level > MAX_HEADING_LEVEL) return;
+    for (const node of nodes) {
+      const pageNumber = await resolveDestinationPage(pdfDoc, node.dest);
+      const title = node.title.replace(/\s+/g, ' ').trim();
+      if (pageNumber !== undefined && title) {
+        headings.push({ title, level: level as HeadingLevel, pageNumber });
+      }
+      await walk(node.items || [], level + 1);
+    }
+  };
+
+  try {
+    await walk((await pdfDoc.getOutline()) || [], 1);
+  } finally {
+    await pdfDoc.destroy();
+  }
+
+  // Document order; the sort is stable, so entries on the same page keep their outline order
+  return headings.sort((a, b) => a.pageNumber - b.pageNumber);
+};
+
+/**
+ * Deepest level the outline covers (0 without an outline)
+ */
+export const getOutlineDepth = (outline: OutlineHeading[]): number => {
+  return outline.reduce((depth, heading) => Math.max(depth, heading.level), 0);
+};
+
+export const getOutlineHeadingsForPage = (outline: OutlineHeading[], pageNumber: number): OutlineHeading[] => {
+  return outline.filter(heading => heading.pageNumber === pageNumber);
+};
+
+/**
+ * Chapter > section > subsection the page starts in, from the outline entries of earlier pages
+ */
+export const getOutlinePath = (outline: OutlineHeading[], pageNumber: number): string => {
+  const path: string[] = [];
+  for (const heading of outline) {
+    if (heading.pageNumber >= pageNumber) break;
+    path[heading.level - 1] = heading.title;
+    path.length = heading.level;
+  }
+  return path.filter(Boolean).join(' > ');
+};
+
+/**
+ * Headings of a result; results saved before the headings list have only chapter/section titles
+ */
+export const getResultHeadings = (result: TranslationResult): PageHeading[] => {
+  if (result.headings && result.headings.length > 0) return result.headings;
+
+  const headings: PageHeading[] = [];
+  if (result.chapterTitle) headings.push({ level: 1, text: result.chapterTitle });
+  if (result.sectionTitle) headings.push({ level: 2, text: result.sectionTitle });
+  return headings;
+};
+
+/**
+ * Make the outline authoritative for one page: its entries become the page's headings for
+ * every level the outline covers (Hebrew text from the model's headings of the same level,
+ * in order, the English title if the model gave none); deeper headings from the model are kept.
+ * Chapter/section titles are rederived from the result.
+ */
+export const applyOutlineHeadings = (
+  result: TranslationResult,
+  pageOutline: OutlineHeading[],
+  outlineDepth: number
+): TranslationResult => {
+  if (result.status !== 'OK' || outlineDepth === 0) return result;
+
+  const modelHeadings = getResultHeadings(result);
+  const translatedByLevel = new Map<HeadingLevel, string[]>();
+  for (const heading of modelHeadings) {
+    translatedByLevel.set(heading.level, [...(translatedByLevel.get(heading.level) || []), heading.text]);
+  }
+
+  const headings: PageHeading[] = pageOutline.map(entry => ({
+    level: entry.level,
+    text: translatedByLevel.get(entry.level)?.shift() || entry.title
+  }));
+  headings.push(...modelHeadings.filter(heading => heading.level > outlineDepth));
+
+  return {
+    ...result,
+    headings,
+    chapterTitle: headings.find(heading => heading.level === 1)?.text || '',
+    sectionTitle: headings.find(heading => heading.level === 2)?.text || ''
+  };
+};
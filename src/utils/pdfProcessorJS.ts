@@ -1,101 +1,431 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { getDocument } from 'pdfjs-dist/legacy/build/pdf';
-import { createCanvas } from 'canvas';
+import { getDocument, OPS, Util } from 'pdfjs-dist/legacy/build/pdf';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf';
+import { createCanvas, loadImage } from 'canvas';
+import type { Canvas } from 'canvas';
+import { extractPageText, shouldUseTextLayer } from './pdfTextExtractor';
+import type { PageText, ExtractionMode } from './pdfTextExtractor';
+import type { PageContent, PageFigure, PageRegion } from '../providers';
+
+export interface PreparedPage {
+  pageNumber: number;
+  /** What is sent to the translation provider (image pages: rendered by the PageRenderer when needed) */
+  content: PageContent;
+  /** Extracted text layer (empty for scanned pages) */
+  pageText: PageText;
+}
 
 /**
  * Pure JavaScript PDF to Image converter (no external dependencies needed!)
- * Uses pdfjs-dist and canvas
+ * Uses pdfjs-dist and canvas. The PDF is loaded once per run; vision pages are rendered
+ * just before they are translated and deleted afterwards.
  */
 
+// Render scale for figure crops (2.0 = 200% of original size)
+const RENDER_SCALE = 2.0;
+
+export type ImageFormat = 'png' | 'jpeg';
+
 /**
- * Convert a single PDF page to PNG image
+ * How vision pages are rasterized
  */
-const convertPageToImage = async (
-  pdfPath: string,
-  pageNumber: number,
-  outputPath: string
-): Promise<string> => {
-  try {
-    // Load the PDF document
-    const buffer = await fs.readFile(pdfPath);
-    const data = new Uint8Array(buffer);
-    const loadingTask = getDocument({ data });
-    const pdfDoc = await loadingTask.promise;
+export interface RenderSettings {
+  /** Resolution before the size limits (72 = one pixel per PDF point) */
+  dpi: number;
+  grayscale: boolean;
+  format: ImageFormat;
+  /** JPEG quality, 1-100 */
+  jpegQuality: number;
+  /** Longest side in pixels (0 = no limit) */
+  maxLongSide: number;
+  /** Shortest side in pixels (0 = no limit) */
+  maxShortSide: number;
+}
 
-    // Get the specific page
-    const page = await pdfDoc.getPage(pageNumber);
+/**
+ * The size limits match OpenAI high-detail vision, which scales every image to fit
+ * 2048x2048 and then to a 768px shortest side: more pixels only cost time and disk.
+ */
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  dpi: 144,
+  grayscale: false,
+  format: 'png',
+  jpegQuality: 85,
+  maxLongSide: 2048,
+  maxShortSide: 768
+};
+
+/**
+ * "144 dpi, png, max 2048x768" for logs
+ */
+export const formatRenderSettings = (settings: RenderSettings): string => {
+  const limits = settings.maxLongSide || settings.maxShortSide
+    ? `max ${settings.maxLongSide || '-'}x${settings.maxShortSide || '-'}`
+    : 'no size limit';
+  const format = settings.format === 'jpeg' ? `jpeg q${settings.jpegQuality}` : 'png';
+  return `${settings.dpi} dpi, ${format}${settings.grayscale ? ', grayscale' : ''}, ${limits}`;
+};
+
+const loadPdf = async (pdfPath: string): Promise<PDFDocumentProxy> => {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  return getDocument({ data }).promise;
+};
+
+/**
+ * Render a PDF page onto a canvas
+ */
+const renderPage = async (page: PDFPageProxy, scale: number = RENDER_SCALE): Promise<Canvas> => {
+  const viewport = page.getViewport({ scale });
+
+  // Create canvas
+  const canvas = createCanvas(viewport.width, viewport.height);
+  const context = canvas.getContext('2d');
+
+  // Render PDF page to canvas
+  const renderContext = {
+    canvasContext: context as any,
+    viewport: viewport
+  };
+
+  await page.render(renderContext).promise;
+  return canvas;
+};
+
+/**
+ * Scale for a page: the DPI, reduced until both size limits hold
+ */
+const getRenderScale = (page: PDFPageProxy, settings: RenderSettings): number => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  const scales = [settings.dpi / 72];
+  if (settings.maxLongSide > 0) scales.push(settings.maxLongSide / Math.max(width, height));
+  if (settings.maxShortSide > 0) scales.push(settings.maxShortSide / Math.min(width, height));
+  return Math.min(...scales);
+};
 
-    // Set scale for good quality (2.0 = 200% of original size)
-    const scale = 2.0;
-    const viewport = page.getViewport({ scale });
+const toGrayscale = (canvas: Canvas): void => {
+  const context = canvas.getContext('2d');
+  const image = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = gray;
+  }
+  context.putImageData(image, 0, 0);
+};
 
-    // Create canvas
-    const canvas = createCanvas(viewport.width, viewport.height);
-    const context = canvas.getContext('2d');
+const getPageImagePath = (outputDir: string, pageNumber: number, settings: RenderSettings): string => {
+  return path.join(outputDir, `page_${pageNumber}.${settings.format === 'jpeg' ? 'jpg' : 'png'}`);
+};
 
-    // Render PDF page to canvas
-    const renderContext = {
-      canvasContext: context as any,
-      viewport: viewport
-    };
+/**
+ * Renders vision pages of one loaded PDF on demand
+ */
+export interface PageRenderer {
+  readonly settings: RenderSettings;
+  /** Path of the page image, rendered now unless it is already rendered (or being rendered) */
+  render(pageNumber: number): Promise<string>;
+  /** Start rendering pages ahead of the translator; the result is picked up by render() */
+  prefetch(pageNumbers: number[]): void;
+  /** Delete a page image and any strips cut from it; a later render() renders it again */
+  release(pageNumber: number): Promise<void>;
+  /** A page of the loaded document (figure cropping) */
+  getPage(pageNumber: number): Promise<PDFPageProxy>;
+  close(): Promise<void>;
+}
 
-    await page.render(renderContext).promise;
+/**
+ * Renderer over a loaded document. Renders run one at a time, so prefetching never holds
+ * more than the requested pages in memory.
+ */
+const createPageRenderer = (pdfDoc: PDFDocumentProxy, outputDir: string, settings: RenderSettings): PageRenderer => {
+  const rendering = new Map<number, Promise<string>>();
+  let queue: Promise<unknown> = Promise.resolve();
 
-    // Save canvas as PNG
-    const imageBuffer = canvas.toBuffer('image/png');
-    await fs.writeFile(outputPath, imageBuffer);
+  const renderImage = async (pageNumber: number): Promise<string> => {
+    const page = await pdfDoc.getPage(pageNumber);
+    const canvas = await renderPage(page, getRenderScale(page, settings));
+    if (settings.grayscale) toGrayscale(canvas);
 
+    const outputPath = getPageImagePath(outputDir, pageNumber, settings);
+    const buffer = settings.format === 'jpeg'
+      ? canvas.toBuffer('image/jpeg', { quality: settings.jpegQuality / 100 })
+      : canvas.toBuffer('image/png');
+    await fs.ensureDir(outputDir);
+    await fs.writeFile(outputPath, buffer);
+    page.cleanup();
+
+    console.log(`🖼️  Page ${pageNumber} rendered (${canvas.width}x${canvas.height}, ${Math.round(buffer.length / 1024)} KB)`);
     return outputPath;
-  } catch (error) {
-    console.error(`Error converting page ${pageNumber}:`, error);
-    throw error;
+  };
+
+  const render = (pageNumber: number): Promise<string> => {
+    let promise = rendering.get(pageNumber);
+    if (!promise) {
+      promise = queue.then(() => renderImage(pageNumber));
+      queue = promise.catch(() => undefined);
+      rendering.set(pageNumber, promise);
+      // A failed render is tried again by the next render()
+      promise.catch(() => rendering.delete(pageNumber));
+    }
+    return promise;
+  };
+
+  const prefetch = (pageNumbers: number[]): void => {
+    for (const pageNumber of pageNumbers) {
+      render(pageNumber).catch(() => undefined);
+    }
+  };
+
+  const release = async (pageNumber: number): Promise<void> => {
+    const promise = rendering.get(pageNumber);
+    if (!promise) return;
+    rendering.delete(pageNumber);
+
+    const imagePath = await promise.catch(() => undefined);
+    if (!imagePath) return;
+    const { dir, name } = path.parse(imagePath);
+    const files = await fs.readdir(dir).catch(() => [] as string[]);
+    await Promise.all(files
+      .filter(file => file === path.basename(imagePath) || file.startsWith(`${name}_part_`))
+      .map(file => fs.remove(path.join(dir, file))));
+  };
+
+  return {
+    settings,
+    render,
+    prefetch,
+    release,
+    getPage: pageNumber => pdfDoc.getPage(pageNumber),
+    close: () => pdfDoc.destroy()
+  };
+};
+
+/**
+ * Number of pages in a PDF
+ */
+export const getPdfPageCount = async (pdfPath: string): Promise<number> => {
+  const pdfDoc = await loadPdf(pdfPath);
+  const pageCount = pdfDoc.numPages;
+  await pdfDoc.destroy();
+  return pageCount;
+};
+
+export interface PageAnalysis {
+  pageNumber: number;
+  pageText: PageText;
+  /** Whether the page will be translated from its text layer (otherwise as an image) */
+  useTextLayer: boolean;
+}
+
+const analyzeDocument = async (
+  pdfDoc: PDFDocumentProxy,
+  mode: ExtractionMode,
+  pageNumbers?: number[]
+): Promise<PageAnalysis[]> => {
+  const selected = pageNumbers || Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1);
+
+  console.log(`📄 PDF has ${pdfDoc.numPages} pages, ${selected.length} selected (mode: ${mode})`);
+
+  const analyses: PageAnalysis[] = [];
+  for (const pageNumber of selected) {
+    const page = await pdfDoc.getPage(pageNumber);
+    const pageText = await extractPageText(page);
+    analyses.push({ pageNumber, pageText, useTextLayer: shouldUseTextLayer(pageText, mode) });
   }
+  return analyses;
 };
 
 /**
- * Split PDF into individual page images (PNG format)
+ * Extract the text layer of each page and decide text vs. vision, without rendering anything
  * @param pdfPath - Path to the PDF file
- * @param outputDir - Directory to save the page images
- * @returns Array of image file paths
+ * @param mode - 'text' | 'vision' | 'auto'
+ * @param pageNumbers - Pages to analyze (1-based); all pages when omitted
  */
-export const splitPdfToImagesJS = async (
+export const analyzePages = async (
   pdfPath: string,
-  outputDir: string
-): Promise<string[]> => {
-  try {
-    // Ensure output directory exists
-    await fs.ensureDir(outputDir);
-
-    // Load PDF to get page count
-    const buffer = await fs.readFile(pdfPath);
-    const data = new Uint8Array(buffer);
-    const loadingTask = getDocument({ data });
-    const pdfDoc = await loadingTask.promise;
-    const pageCount = pdfDoc.numPages;
+  mode: ExtractionMode,
+  pageNumbers?: number[]
+): Promise<PageAnalysis[]> => {
+  const pdfDoc = await loadPdf(pdfPath);
+  const analyses = await analyzeDocument(pdfDoc, mode, pageNumbers);
+  await pdfDoc.destroy();
+  return analyses;
+};
 
-    console.log(`📄 PDF has ${pageCount} pages`);
+export interface PreparedDocument {
+  pages: PreparedPage[];
+  /** Renders the image pages on demand; close it when the run is done */
+  renderer: PageRenderer;
+}
 
-    const imagePaths: string[] = [];
+/**
+ * Prepare pages for translation: extract the text layer and, per the mode, either send
+ * that text or plan the page for vision. Nothing is rendered yet: image pages get the path
+ * their image will have, and the returned renderer produces it when the page is translated.
+ * @param pdfPath - Path to the PDF file
+ * @param outputDir - Directory for page images
+ * @param mode - 'text' | 'vision' | 'auto'
+ * @param pageNumbers - Pages to prepare (1-based); all pages when omitted
+ * @param settings - How image pages are rendered
+ * @returns One prepared page per selected page, in order, and the renderer
+ */
+export const preparePages = async (
+  pdfPath: string,
+  outputDir: string,
+  mode: ExtractionMode,
+  pageNumbers?: number[],
+  settings: RenderSettings = DEFAULT_RENDER_SETTINGS
+): Promise<PreparedDocument> => {
+  try {
+    const pdfDoc = await loadPdf(pdfPath);
+    const analyses = await analyzeDocument(pdfDoc, mode, pageNumbers);
+    const pages: PreparedPage[] = [];
 
-    // Convert each page
-    for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
-      console.log(`🔄 Converting page ${pageNum}/${pageCount} to image...`);
+    for (const { pageNumber, pageText, useTextLayer } of analyses) {
+      if (useTextLayer) {
+        console.log(`📝 Page ${pageNumber}: text layer (${pageText.text.length} chars, ${pageText.headings.length} heading hints)`);
+        pages.push({
+          pageNumber,
+          content: { kind: 'text', text: pageText.text, headings: pageText.headings },
+          pageText
+        });
+        continue;
+      }
 
-      const outputPath = path.join(outputDir, `page_${pageNum}.png`);
-      await convertPageToImage(pdfPath, pageNum, outputPath);
+      if (mode === 'text') {
+        console.warn(`⚠️ Page ${pageNumber} has no text layer, falling back to vision`);
+      }
 
-      imagePaths.push(outputPath);
-      console.log(`✅ Page ${pageNum} saved: ${outputPath}`);
+      console.log(`🖼️  Page ${pageNumber}: image (rendered when translated)`);
+      pages.push({
+        pageNumber,
+        content: { kind: 'image', imagePath: getPageImagePath(outputDir, pageNumber, settings) },
+        pageText
+      });
     }
 
-    return imagePaths;
+    return { pages, renderer: createPageRenderer(pdfDoc, outputDir, settings) };
   } catch (error) {
-    console.error('❌ Error splitting PDF:', error);
+    console.error('❌ Error preparing PDF pages:', error);
     throw error;
   }
 };
 
+/** Embedded images smaller than this share of the page width or height (logos, rules) are not figures */
+const MIN_IMAGE_SIZE = 0.1;
+
+const IMAGE_OPS = new Set<number>([OPS.paintImageXObject, OPS.paintInlineImageXObject, OPS.paintImageXObjectRepeat]);
+
+/**
+ * Where the page draws its embedded images, in drawing order. Every image fills the unit
+ * square of the transform in effect when it is painted.
+ */
+const findImageRegions = async (page: PDFPageProxy): Promise<PageRegion[]> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const regions: PageRegion[] = [];
+  const stack: number[][] = [];
+  let transform = [1, 0, 0, 1, 0, 0];
+
+  fnArray.forEach((fn, i) => {
+    if (fn === OPS.save) {
+      stack.push(transform);
+    } else if (fn === OPS.restore) {
+      transform = stack.pop() || transform;
+    } else if (fn === OPS.transform) {
+      transform = Util.transform(transform, argsArray[i]);
+    } else if (IMAGE_OPS.has(fn)) {
+      const corners = [[0, 0], [1, 0], [0, 1], [1, 1]]
+        .map(point => viewport.convertToViewportPoint(...(Util.applyTransform(point, transform) as [number, number])));
+      const xs = corners.map(([x]) => x);
+      const ys = corners.map(([, y]) => y);
+      const x = Math.max(0, Math.min(...xs) / viewport.width);
+      const y = Math.max(0, Math.min(...ys) / viewport.height);
+      const width = Math.min(1, Math.max(...xs) / viewport.width) - x;
+      const height = Math.min(1, Math.max(...ys) / viewport.height) - y;
+      if (width >= MIN_IMAGE_SIZE && height >= MIN_IMAGE_SIZE) {
+        regions.push({ x, y, width, height });
+      }
+    }
+  });
+  return regions;
+};
+
+/**
+ * Crop every figure out of its rendered page into outputDir (page_N_figure_M.png).
+ * Figures without a region (text-layer pages) take the page's embedded images in order;
+ * a figure with neither, or on a page that fails to render, is not cropped.
+ * @returns PNG paths per page number, by figure index (undefined = not cropped)
+ */
+export const cropFigures = async (
+  renderer: PageRenderer,
+  pages: { pageNumber: number; figures: PageFigure[] }[],
+  outputDir: string
+): Promise<Map<number, (string | undefined)[]>> => {
+  const crops = new Map<number, (string | undefined)[]>();
+  const withFigures = pages.filter(page => page.figures.length > 0);
+
+  for (const { pageNumber, figures } of withFigures) {
+    try {
+      const page = await renderer.getPage(pageNumber);
+      const imageRegions = figures.some(figure => !figure.region) ? await findImageRegions(page) : [];
+      const canvas = await renderPage(page);
+
+      let nextImage = 0;
+      const paths: (string | undefined)[] = [];
+      for (const [i, figure] of figures.entries()) {
+        const region = figure.region ?? imageRegions[nextImage++];
+        if (!region) {
+          paths.push(undefined);
+          continue;
+        }
+
+        const sx = Math.round(region.x * canvas.width);
+        const sy = Math.round(region.y * canvas.height);
+        const width = Math.max(1, Math.round(region.width * canvas.width));
+        const height = Math.max(1, Math.round(region.height * canvas.height));
+        const crop = createCanvas(width, height);
+        crop.getContext('2d').drawImage(canvas, sx, sy, width, height, 0, 0, width, height);
+
+        const outputPath = path.join(outputDir, `page_${pageNumber}_figure_${i + 1}.png`);
+        await fs.ensureDir(outputDir);
+        await fs.writeFile(outputPath, crop.toBuffer('image/png'));
+        paths.push(outputPath);
+      }
+      crops.set(pageNumber, paths);
+      console.log(`🖼️  Page ${pageNumber}: ${paths.filter(Boolean).length} of ${figures.length} figure(s) cropped`);
+    } catch (error) {
+      console.warn(`⚠️ Page ${pageNumber}: figures not cropped (${error instanceof Error ? error.message : error}), captions only`);
+    }
+  }
+
+  return crops;
+};
+
+/**
+ * Cut a rendered page image into `count` horizontal strips, top to bottom, saved next to it
+ * (page_N_part_1.png, ...). Used when a page's translation does not fit in one response.
+ * @returns PNG paths of the strips, in order
+ */
+export const splitPageImage = async (imagePath: string, count: number): Promise<string[]> => {
+  const image = await loadImage(imagePath);
+  const { dir, name } = path.parse(imagePath);
+  const paths: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const top = Math.round(i * image.height / count);
+    const height = Math.round((i + 1) * image.height / count) - top;
+    const strip = createCanvas(image.width, height);
+    strip.getContext('2d').drawImage(image, 0, top, image.width, height, 0, 0, image.width, height);
+
+    const outputPath = path.join(dir, `${name}_part_${i + 1}.png`);
+    await fs.writeFile(outputPath, strip.toBuffer('image/png'));
+    paths.push(outputPath);
+  }
+  return paths;
+};
+
 /**
  * Clean up temporary files
  * @param directory - Directory to clean
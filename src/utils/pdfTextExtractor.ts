@@ -0,0 +1,184 @@
+import type { PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * PDF text-layer extraction
+ * Born-digital PDFs carry their text, so we can skip rasterizing + vision for them.
+ * Font size and weight are kept per line so headings can still be detected.
+ */
+
+export interface TextLine {
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  /** Baseline position from the bottom of the page (PDF units) */
+  y: number;
+}
+
+export interface HeadingHint {
+  text: string;
+  /** 1 = chapter-like (much larger than body text), 2 = section-like */
+  level: 1 | 2;
+}
+
+export interface PageText {
+  /** Plain text, one extracted line per line */
+  text: string;
+  lines: TextLine[];
+  headings: HeadingHint[];
+  /** Share of the page area covered by text boxes (0-1) */
+  coverage: number;
+  /** Share of characters that look like a broken font encoding (0-1) */
+  garbageRatio: number;
+}
+
+export type ExtractionMode = 'text' | 'vision' | 'auto';
+
+// Thresholds for the 'auto' mode: below these a page goes through vision
+const MIN_TEXT_CHARS = 200;
+const MIN_TEXT_COVERAGE = 0.08;
+const MAX_GARBAGE_RATIO = 0.05;
+
+// Heading detection relative to the body font size
+const CHAPTER_SIZE_RATIO = 1.5;
+const SECTION_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 120;
+
+const isTextItem = (item: unknown): item is TextItem => {
+  return typeof (item as TextItem).str === 'string';
+};
+
+/**
+ * Resolve whether a pdf.js font is bold (needs the operator list to be loaded)
+ */
+const isBoldFont = (page: PDFPageProxy, fontName: string): boolean => {
+  try {
+    if (!page.commonObjs.has(fontName)) return false;
+    const font = page.commonObjs.get(fontName);
+    return Boolean(font?.bold || font?.black || /bold|black|heavy|semibold/i.test(font?.name || ''));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Most common font size by character count - treated as body text size
+ */
+const getBodyFontSize = (lines: TextLine[]): number => {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 10) / 10;
+    weights.set(size, (weights.get(size) || 0) + line.text.length);
+  }
+
+  let bodySize = 0;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      bodySize = size;
+      bestWeight = weight;
+    }
+  }
+  return bodySize;
+};
+
+/**
+ * Lines set noticeably larger (or bold and standalone) than the body text
+ */
+const detectHeadings = (lines: TextLine[]): HeadingHint[] => {
+  const bodySize = getBodyFontSize(lines);
+  if (!bodySize) return [];
+
+  const headings: HeadingHint[] = [];
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text || text.length > MAX_HEADING_LENGTH || /^\d+$/.test(text)) continue;
+
+    const ratio = line.fontSize / bodySize;
+    if (ratio >= CHAPTER_SIZE_RATIO) {
+      headings.push({ text, level: 1 });
+    } else if (ratio >= SECTION_SIZE_RATIO || (line.bold && !/[.,;:]$/.test(text))) {
+      headings.push({ text, level: 2 });
+    }
+  }
+  return headings;
+};
+
+/**
+ * Extract the text layer of a page, grouped into lines with font hints
+ */
+export const extractPageText = async (page: PDFPageProxy): Promise<PageText> => {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  // Fonts are only available in commonObjs after the operator list is built
+  try {
+    await page.getOperatorList();
+  } catch {
+    // Bold detection is a hint only
+  }
+
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+  let textArea = 0;
+  let charCount = 0;
+  let garbageCount = 0;
+
+  for (const item of content.items) {
+    if (!isTextItem(item)) continue;
+
+    const [a, b, , , , y] = item.transform;
+    const fontSize = Math.hypot(a, b) || item.height;
+    textArea += Math.abs(item.width * (item.height || fontSize));
+    charCount += item.str.length;
+    garbageCount += (item.str.match(/[�\u0000-\u0008\u000E-\u001F]/g) || []).length;
+
+    // Start a new line when the baseline moves
+    if (!current || Math.abs(current.y - y) > fontSize * 0.5) {
+      if (current) lines.push(current);
+      current = { text: '', fontSize, bold: isBoldFont(page, item.fontName), y };
+    }
+
+    current.text += item.str;
+    current.fontSize = Math.max(current.fontSize, fontSize);
+
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  const nonEmptyLines = lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text);
+
+  return {
+    text: nonEmptyLines.map(line => line.text).join('\n'),
+    lines: nonEmptyLines,
+    headings: detectHeadings(nonEmptyLines),
+    coverage: Math.min(1, textArea / (viewport.width * viewport.height)),
+    garbageRatio: charCount ? garbageCount / charCount : 0
+  };
+};
+
+/**
+ * Decide whether a page goes through the text layer or vision
+ * @param pageText - Extracted text layer for the page
+ * @param mode - 'text' uses any text layer, 'vision' never does, 'auto' applies coverage thresholds
+ */
+export const shouldUseTextLayer = (pageText: PageText, mode: ExtractionMode): boolean => {
+  const hasText = pageText.text.trim().length > 0;
+
+  switch (mode) {
+    case 'vision':
+      return false;
+    case 'text':
+      return hasText;
+    case 'auto':
+      return hasText &&
+        pageText.text.length >= MIN_TEXT_CHARS &&
+        pageText.coverage >= MIN_TEXT_COVERAGE &&
+        pageText.garbageRatio <= MAX_GARBAGE_RATIO;
+  }
+};
@@ -0,0 +1,357 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { TranslationResult } from './pageProcessor';
+import type { PageTranslation } from '../providers';
+import { DEFAULT_LANGUAGES } from '../i18n';
+import type { LanguagePair, Script } from '../i18n';
+
+/**
+ * Translation quality checks
+ * Scores a page translation from 0 to 100 with the reasons for every deduction.
+ * processPage retries pages below the minimum score, and the QA report lists every
+ * page's score so flagged pages can be reviewed by hand.
+ */
+
+export type QualityCheckName = 'empty' | 'refusal' | 'script_ratio' | 'untranslated_sentences' | 'length_ratio' | 'duplicate';
+
+export interface QualityIssue {
+  check: QualityCheckName;
+  message: string;
+  /** Points deducted from 100 */
+  penalty: number;
+}
+
+export interface PageQuality {
+  score: number;
+  issues: QualityIssue[];
+  /** False when the response is not a translation at all (empty, refusal, repeated page) */
+  usable: boolean;
+}
+
+export interface QualityInput {
+  translation: string;
+  summary: string;
+  /** Reference list kept in the source language: the language and length checks do not apply */
+  bibliography?: boolean;
+  /** Source text layer of the page (text-layer pages only; scanned pages have none worth comparing) */
+  sourceText?: string;
+  /** Translation of the page before, to catch a model repeating it */
+  previousTranslation?: string;
+  /**
+   * Footnote text returned apart from the translation. It counts toward the length comparison
+   * but not the script checks: citations in footnotes are kept in the source language.
+   */
+  footnotes?: string;
+  /**
+   * Source and target language (default English to Hebrew); the script checks only apply
+   * when the two are written in different scripts
+   */
+  languages?: LanguagePair;
+}
+
+export const DEFAULT_MIN_QUALITY = 60;
+
+/** [[TABLE n]] / [[FIGURE n]] placeholders in a page translation */
+const PLACEHOLDER_PATTERN = /\[\[(?:TABLE|FIGURE) \d+\]\]/g;
+
+/**
+ * The text the checks score: the translation without its table/figure placeholders, plus
+ * the table cells and captions the model returns apart from it (footnotes: see getFootnoteText)
+ */
+export const getCheckedTranslation = (page: Pick<PageTranslation, 'translation' | 'tables' | 'figures'>): string => {
+  return [
+    page.translation.replace(PLACEHOLDER_PATTERN, ''),
+    ...(page.tables || []).flatMap(table => [table.caption, ...table.rows.map(row => row.join(' '))]),
+    ...(page.figures || []).map(figure => figure.caption)
+  ].filter(text => text.trim()).join('\n\n');
+};
+
+/**
+ * The footnotes the model returns apart from the translation, for QualityInput.footnotes
+ */
+export const getFootnoteText = (page: Pick<PageTranslation, 'footnotes'>): string => {
+  return (page.footnotes || []).map(footnote => footnote.text).join('\n\n');
+};
+
+/** Below this share of letters in the target's script the page is considered partly untranslated */
+const MIN_SCRIPT_RATIO = 0.8;
+
+/** Translation length / source length outside this range means missing or invented text */
+const MIN_LENGTH_RATIO = 0.35;
+const MAX_LENGTH_RATIO = 2.5;
+
+/** Shorter source pages are too noisy for a length comparison */
+const MIN_SOURCE_CHARS_FOR_LENGTH = 200;
+
+/** Word-trigram overlap with the previous page above which the page is a repeat */
+const DUPLICATE_SIMILARITY = 0.8;
+
+/** Refusals and apologies are only looked for here: the opening and closing of the response */
+const FRAMING_CHARS = 160;
+
+const REFUSAL_PATTERNS: RegExp[] = [
+  /\bI(?:'m| am)? (?:unable|not able) to\b/i,
+  /\bI can(?:not|'t)\b/i,
+  /\bI'm sorry\b/i,
+  /\bas an AI\b/i,
+  /לא ניתן לתרגם/,
+  /(?:אינני|איני|אני לא) (?:יכול|יכולה|מסוגל|מסוגלת)/,
+  /מצטער(?:ת)?,? (?:אך|אבל|אינני|אני לא)/
+];
+
+const SCRIPT_LETTERS: Record<Script, RegExp> = {
+  hebrew: /[\u0590-\u05FF]/,
+  latin: /[A-Za-z\u00C0-\u024F]/
+};
+
+/** Six or more words in a row in the source's script: a sentence left untranslated */
+const SOURCE_RUNS: Record<Script, RegExp> = {
+  latin: /[A-Za-z\u00C0-\u024F][A-Za-z\u00C0-\u024F'’-]*(?:[\s,;:()]+[A-Za-z\u00C0-\u024F][A-Za-z\u00C0-\u024F'’-]*){5,}/g,
+  hebrew: /[\u05D0-\u05EA][\u05D0-\u05EA'"׳״-]*(?:[\s,;:()]+[\u05D0-\u05EA][\u05D0-\u05EA'"׳״-]*){5,}/g
+};
+
+/**
+ * Share of the letters written in a script, or null for text too short to tell
+ */
+const getScriptRatio = (text: string, script: Script): number | null => {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length < 20) return null;
+  const inScript = letters.filter(letter => SCRIPT_LETTERS[script].test(letter)).length;
+  return inScript / letters.length;
+};
+
+const getWordTrigrams = (words: string[]): Set<string> => {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 2 < words.length; i++) {
+    trigrams.add(words.slice(i, i + 3).join(' '));
+  }
+  return trigrams;
+};
+
+/**
+ * Jaccard similarity of word trigrams (0 = nothing shared, 1 = same text)
+ */
+const getSimilarity = (a: string, b: string): number => {
+  const wordsA = a.split(/\s+/).filter(Boolean);
+  const wordsB = b.split(/\s+/).filter(Boolean);
+  if (wordsA.length < 20 || wordsB.length < 20) return 0;
+
+  const trigramsA = getWordTrigrams(wordsA);
+  const trigramsB = getWordTrigrams(wordsB);
+  let shared = 0;
+  for (const trigram of trigramsA) {
+    if (trigramsB.has(trigram)) shared++;
+  }
+  return shared / (trigramsA.size + trigramsB.size - shared);
+};
+
+const percent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Score one page translation
+ */
+export const checkTranslationQuality = (input: QualityInput): PageQuality => {
+  const translation = input.translation.trim();
+  const summary = input.summary.trim();
+  const issues: QualityIssue[] = [];
+
+  if (translation.length < 10 || summary.length < 10) {
+    issues.push({ check: 'empty', message: translation.length < 10 ? 'translation is empty' : 'summary is empty', penalty: 100 });
+  }
+
+  const framing = [translation.slice(0, FRAMING_CHARS), translation.slice(-FRAMING_CHARS), summary.slice(0, FRAMING_CHARS)];
+  const refusal = REFUSAL_PATTERNS
+    .flatMap(pattern => framing.map(text => text.match(pattern)?.[0]))
+    .find(match => match !== undefined);
+  if (refusal) {
+    issues.push({ check: 'refusal', message: `response looks like a refusal ("${refusal}")`, penalty: 100 });
+  }
+
+  // Same script on both sides (e.g. English to French): untranslated text cannot be told apart
+  const { source, target } = input.languages || DEFAULT_LANGUAGES;
+  const checkScripts = !input.bibliography && source.script !== target.script;
+
+  const scriptRatio = checkScripts ? getScriptRatio(translation, target.script) : null;
+  if (scriptRatio !== null && scriptRatio < MIN_SCRIPT_RATIO) {
+    issues.push({
+      check: 'script_ratio',
+      message: `only ${percent(scriptRatio)} of the letters are ${target.name}`,
+      penalty: Math.round((MIN_SCRIPT_RATIO - scriptRatio) / MIN_SCRIPT_RATIO * 100)
+    });
+  }
+
+  const untranslatedRuns = checkScripts ? translation.match(SOURCE_RUNS[source.script]) || [] : [];
+  const [firstRun] = untranslatedRuns;
+  if (firstRun) {
+    issues.push({
+      check: 'untranslated_sentences',
+      message: `${untranslatedRuns.length} ${source.name} passage(s) left untranslated, e.g. "${firstRun.slice(0, 60)}"`,
+      penalty: Math.min(40, untranslatedRuns.length * 10)
+    });
+  }
+
+  const sourceLength = input.sourceText?.trim().length ?? 0;
+  if (sourceLength >= MIN_SOURCE_CHARS_FOR_LENGTH && !input.bibliography) {
+    // The source text layer includes the footnotes at the bottom of the page
+    const lengthRatio = (translation.length + (input.footnotes?.trim().length ?? 0)) / sourceLength;
+    if (lengthRatio < MIN_LENGTH_RATIO) {
+      issues.push({ check: 'length_ratio', message: `translation is ${percent(lengthRatio)} of the source length (text may be missing)`, penalty: 40 });
+    } else if (lengthRatio > MAX_LENGTH_RATIO) {
+      issues.push({ check: 'length_ratio', message: `translation is ${percent(lengthRatio)} of the source length (text may be invented)`, penalty: 30 });
+    }
+  }
+
+  if (input.previousTranslation) {
+    const similarity = getSimilarity(translation, input.previousTranslation);
+    if (similarity >= DUPLICATE_SIMILARITY) {
+      issues.push({ check: 'duplicate', message: `${percent(similarity)} the same as the previous page`, penalty: 100 });
+    }
+  }
+
+  const penalty = issues.reduce((sum, issue) => sum + issue.penalty, 0);
+  return {
+    score: Math.max(0, 100 - penalty),
+    issues,
+    usable: !issues.some(issue => issue.check === 'empty' || issue.check === 'refusal' || issue.check === 'duplicate')
+  };
+};
+
+const formatIssue = (issue: QualityIssue): string => `${issue.message} (-${issue.penalty})`;
+
+/**
+ * One-line list of deductions for the console
+ */
+export const formatQualityIssues = (quality: PageQuality): string => quality.issues.map(formatIssue).join('; ');
+
+export interface QualityReportPage {
+  pageNumber: number;
+  /** passed = at or above the minimum score, flagged = kept but needs review, failed = no usable translation */
+  verdict: 'passed' | 'flagged' | 'failed';
+  /** null for failed pages */
+  score: number | null;
+  retryCount: number;
+  /** Parts the page was translated in (more than 1 when the whole page hit max tokens) */
+  parts: number;
+  reasons: string[];
+}
+
+export interface QualityReport {
+  generatedAt: string;
+  minScore: number;
+  passed: number;
+  flagged: number;
+  failed: number;
+  /** Pages that had to be split into parts */
+  split: number;
+  pages: QualityReportPage[];
+}
+
+/**
+ * Score every page of a run (in page order, so each page is compared with the one before)
+ * @param sourceTexts - Source text of text-layer pages, by page number
+ */
+export const buildQualityReport = (
+  results: TranslationResult[],
+  sourceTexts: Map<number, string>,
+  minScore: number,
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): QualityReport => {
+  const pages: QualityReportPage[] = [];
+  const sorted = [...results].sort((a, b) => a.pageNumber - b.pageNumber);
+
+  sorted.forEach((result, i) => {
+    const retryCount = result.retryCount ?? 0;
+    const parts = result.parts ?? 1;
+    if (result.status !== 'OK') {
+      pages.push({ pageNumber: result.pageNumber, verdict: 'failed', score: null, retryCount, parts, reasons: ['no usable translation after all attempts'] });
+      return;
+    }
+
+    const previous = sorted[i - 1];
+    const quality = checkTranslationQuality({
+      translation: getCheckedTranslation(result),
+      footnotes: getFootnoteText(result),
+      summary: result.summary,
+      bibliography: result.bibliography,
+      sourceText: sourceTexts.get(result.pageNumber),
+      previousTranslation: previous?.status === 'OK' && previous.pageNumber === result.pageNumber - 1 ? previous.translation : undefined,
+      languages
+    });
+    pages.push({
+      pageNumber: result.pageNumber,
+      verdict: quality.usable && quality.score >= minScore ? 'passed' : 'flagged',
+      score: quality.score,
+      retryCount,
+      parts,
+      reasons: quality.issues.map(formatIssue)
+    });
+  });
+
+  const count = (verdict: QualityReportPage['verdict']): number => pages.filter(page => page.verdict === verdict).length;
+  return {
+    generatedAt: new Date().toISOString(),
+    minScore,
+    passed: count('passed'),
+    flagged: count('flagged'),
+    failed: count('failed'),
+    split: pages.filter(page => page.parts > 1).length,
+    pages
+  };
+};
+
+const VERDICT_LABELS: Record<QualityReportPage['verdict'], string> = {
+  passed: '✅ passed',
+  flagged: '⚠️ review',
+  failed: '❌ failed'
+};
+
+/**
+ * Markdown QA report: pages needing attention first, then the full table
+ */
+export const formatQualityReport = (report: QualityReport, title: string): string => {
+  const lines = [
+    `# Quality report: ${title}`,
+    '',
+    `Generated: ${report.generatedAt}`,
+    '',
+    `- Minimum score: ${report.minScore}`,
+    `- Passed: ${report.passed}`,
+    `- Flagged for review: ${report.flagged}`,
+    `- Failed: ${report.failed}`,
+    `- Split into parts (response hit max tokens): ${report.split}`,
+    ''
+  ];
+
+  const attention = report.pages.filter(page => page.verdict !== 'passed');
+  if (attention.length > 0) {
+    lines.push('## Needs review', '');
+    for (const page of attention) {
+      lines.push(`- **Page ${page.pageNumber}** (${page.score ?? '-'}/100): ${page.reasons.join('; ')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Pages', '', '| Page | Score | Verdict | Retries | Parts | Reasons |', '|---|---|---|---|---|---|');
+  for (const page of report.pages) {
+    lines.push(`| ${page.pageNumber} | ${page.score ?? '-'} | ${VERDICT_LABELS[page.verdict]} | ${page.retryCount} | ${page.parts} | ${page.reasons.join('<br>').replace(/\|/g, '\\|') || '-'} |`);
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Write qa_report_TIMESTAMP.json and qa_report_TIMESTAMP.md
+ * @returns Paths of both files
+ */
+export const writeQualityReport = async (
+  outputDir: string,
+  timestamp: string,
+  report: QualityReport,
+  title: string
+): Promise<string[]> => {
+  const jsonPath = path.join(outputDir, `qa_report_${timestamp}.json`);
+  const markdownPath = path.join(outputDir, `qa_report_${timestamp}.md`);
+  await fs.writeJson(jsonPath, report, { spaces: 2 });
+  await fs.writeFile(markdownPath, formatQualityReport(report, title), 'utf-8');
+  return [jsonPath, markdownPath];
+};
@@ -0,0 +1,103 @@
+import { delay } from './pageProcessor';
+
+/**
+ * Adaptive rate limiter for API calls
+ * Keeps a sliding 60-second window of requests and tokens and makes callers wait
+ * until both budgets have room. A 429 halves the effective request budget and
+ * pauses everyone; each success then earns one request/minute back.
+ */
+
+export interface RateLimiterOptions {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RateLimiter {
+  /** Wait until a request with this many (estimated) tokens fits the budgets */
+  acquire(estimatedTokens: number): Promise<void>;
+  /** A request completed without being rate limited */
+  reportSuccess(): void;
+  /** A request got HTTP 429; retryAfterMs comes from the Retry-After header if present */
+  reportRateLimited(retryAfterMs?: number): void;
+  /** Current effective requests-per-minute budget */
+  getEffectiveRpm(): number;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Create a limiter shared by every worker that talks to the same API
+ */
+export const createRateLimiter = (options: RateLimiterOptions): RateLimiter => {
+  const window: WindowEntry[] = [];
+  let effectiveRpm = options.requestsPerMinute;
+  let pausedUntil = 0;
+  let consecutive429s = 0;
+
+  const pruneWindow = (now: number): void => {
+    while (window.length > 0 && now - window[0].time >= WINDOW_MS) {
+      window.shift();
+    }
+  };
+
+  /**
+   * Milliseconds until a request of this size fits, 0 if it fits now
+   */
+  const getWaitTime = (now: number, tokens: number): number => {
+    if (now < pausedUntil) {
+      return pausedUntil - now;
+    }
+
+    pruneWindow(now);
+    const usedTokens = window.reduce((sum, entry) => sum + entry.tokens, 0);
+    const fitsRequests = window.length < Math.floor(effectiveRpm);
+    // A single request larger than the whole budget is let through on an empty window
+    const fitsTokens = usedTokens + tokens <= options.tokensPerMinute || window.length === 0;
+
+    if (fitsRequests && fitsTokens) {
+      return 0;
+    }
+    // Wait for the oldest entry to leave the window
+    return Math.max(1, WINDOW_MS - (now - window[0].time));
+  };
+
+  const acquire = async (estimatedTokens: number): Promise<void> => {
+    // Re-check after every wait: other workers may have taken the slot
+    for (;;) {
+      const now = Date.now();
+      const waitTime = getWaitTime(now, estimatedTokens);
+      if (waitTime === 0) {
+        window.push({ time: now, tokens: estimatedTokens });
+        return;
+      }
+      await delay(waitTime);
+    }
+  };
+
+  const reportSuccess = (): void => {
+    consecutive429s = 0;
+    effectiveRpm = Math.min(options.requestsPerMinute, effectiveRpm + 1);
+  };
+
+  const reportRateLimited = (retryAfterMs?: number): void => {
+    consecutive429s++;
+    effectiveRpm = Math.max(1, effectiveRpm / 2);
+    const backoff = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (consecutive429s - 1));
+    pausedUntil = Math.max(pausedUntil, Date.now() + backoff);
+    console.warn(`⏳ Rate limited (429) - pausing ${Math.round(backoff / 1000)}s, budget now ${Math.floor(effectiveRpm)} requests/min`);
+  };
+
+  return {
+    acquire,
+    reportSuccess,
+    reportRateLimited,
+    getEffectiveRpm: () => effectiveRpm
+  };
+};
@@ -0,0 +1,297 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import type { TranslationResult } from './pageProcessor';
+import type { PageContent } from '../providers';
+import type { RenderSettings } from './pdfProcessorJS';
+import { DEFAULT_LANGUAGES } from '../i18n';
+import type { LanguageCode, LanguagePair } from '../i18n';
+
+/**
+ * Per-page checkpoint journal
+ * Every finished page is written to disk immediately so an interrupted run
+ * (crash, Ctrl-C, quota error) can be resumed without paying for pages again.
+ *
+ * Layout:
+ *   runs/<pdf-name>_<pdf-hash>/run.json          - run manifest
+ *   runs/<pdf-name>_<pdf-hash>/pages/page_N.json - one record per finished page
+ *   runs/<pdf-name>_<pdf-hash>/summaries.json    - section, chapter and document summaries
+ * Runs in another language pair than English to Hebrew get the pair as a suffix
+ * (runs/<pdf-name>_<pdf-hash>_en-fr/), so they never resume each other's pages.
+ */
+
+export interface RunManifest {
+  pdfPath: string;
+  pdfHash: string;
+  pageCount: number;
+  /** Missing in runs from before languages were configurable (English to Hebrew) */
+  sourceLanguage?: LanguageCode;
+  targetLanguage?: LanguageCode;
+  status: 'IN_PROGRESS' | 'COMPLETE';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PageRecord {
+  pageNumber: number;
+  result: TranslationResult;
+  previousContext: string;
+  chapterContext: string;
+  sourceHash: string;
+  completedAt: string;
+}
+
+/**
+ * A finished summary, saved under a key of everything it was written from (see summary.ts),
+ * so a rebuild only summarizes chunks whose pages changed
+ */
+export interface SummaryRecord {
+  level: 'section' | 'chapter' | 'document';
+  title: string;
+  pages: number[];
+  summary: string;
+  completedAt: string;
+}
+
+export interface RunJournal {
+  dir: string;
+  manifest: RunManifest;
+  pages: Map<number, PageRecord>;
+  summaries: Map<string, SummaryRecord>;
+  resumed: boolean;
+}
+
+const MANIFEST_FILE = 'run.json';
+const PAGES_DIR = 'pages';
+const SUMMARIES_FILE = 'summaries.json';
+
+/**
+ * SHA-256 of a file's contents
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+  const buffer = await fs.readFile(filePath);
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+};
+
+/**
+ * Hash of what a page is translated from: the extracted text, or for an image page its
+ * number and render settings (the image is rendered later; the PDF hash names the run directory)
+ */
+export const hashPageContent = (pageNumber: number, content: PageContent, settings: RenderSettings): string => {
+  const source = content.kind === 'image' ? JSON.stringify({ pageNumber, settings }) : content.text;
+  return crypto.createHash('sha256').update(source).digest('hex');
+};
+
+/**
+ * Write JSON via a temp file + rename so a crash never leaves a half-written record
+ */
+const writeJsonAtomic = async (filePath: string, data: unknown): Promise<void> => {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.move(tempPath, filePath, { overwrite: true });
+};
+
+const getPageRecordPath = (journal: RunJournal, pageNumber: number): string => {
+  return path.join(journal.dir, PAGES_DIR, `page_${pageNumber}.json`);
+};
+
+/**
+ * Load all page records from a run directory
+ */
+const loadPageRecords = async (runDir: string): Promise<Map<number, PageRecord>> => {
+  const pages = new Map<number, PageRecord>();
+  const pagesDir = path.join(runDir, PAGES_DIR);
+
+  if (!(await fs.pathExists(pagesDir))) {
+    return pages;
+  }
+
+  for (const file of await fs.readdir(pagesDir)) {
+    if (!/^page_\d+\.json$/.test(file)) continue;
+
+    try {
+      const record: PageRecord = await fs.readJson(path.join(pagesDir, file));
+      pages.set(record.pageNumber, record);
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable page record ${file}:`, error);
+    }
+  }
+
+  return pages;
+};
+
+/**
+ * Load the saved summaries of a run directory
+ */
+const loadSummaryRecords = async (runDir: string): Promise<Map<string, SummaryRecord>> => {
+  const summariesPath = path.join(runDir, SUMMARIES_FILE);
+  if (!(await fs.pathExists(summariesPath))) {
+    return new Map();
+  }
+
+  try {
+    const records: Record<string, SummaryRecord> = await fs.readJson(summariesPath);
+    return new Map(Object.entries(records));
+  } catch (error) {
+    console.warn(`⚠️ Ignoring unreadable summaries ${summariesPath}:`, error);
+    return new Map();
+  }
+};
+
+/**
+ * Run directory for a PDF: <runsRoot>/<pdf-name>_<first 12 hash chars>[_<source>-<target>]
+ */
+const getRunDir = (runsRoot: string, pdfPath: string, pdfHash: string, languages: LanguagePair): string => {
+  const baseName = path.basename(pdfPath, path.extname(pdfPath)).replace(/[^\w\-]+/g, '_');
+  const isDefault = languages.source.code === DEFAULT_LANGUAGES.source.code
+    && languages.target.code === DEFAULT_LANGUAGES.target.code;
+  const suffix = isDefault ? '' : `_${languages.source.code}-${languages.target.code}`;
+  return path.join(runsRoot, `${baseName}_${pdfHash.slice(0, 12)}${suffix}`);
+};
+
+/**
+ * Open the journal for a PDF, resuming an unfinished run if one exists
+ * @param runsRoot - Directory holding all run directories
+ * @param pdfPath - Path to the PDF being translated
+ * @param languages - Language pair of the run
+ * @returns Journal with any previously completed pages loaded
+ */
+export const openRunJournal = async (
+  runsRoot: string,
+  pdfPath: string,
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): Promise<RunJournal> => {
+  const pdfHash = await hashFile(pdfPath);
+  const dir = getRunDir(runsRoot, pdfPath, pdfHash, languages);
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  const now = new Date().toISOString();
+
+  if (await fs.pathExists(manifestPath)) {
+    const manifest: RunManifest = await fs.readJson(manifestPath);
+
+    if (manifest.status === 'IN_PROGRESS') {
+      const pages = await loadPageRecords(dir);
+      const summaries = await loadSummaryRecords(dir);
+      return { dir, manifest, pages, summaries, resumed: true };
+    }
+
+    // A finished run is started over from scratch
+    await fs.remove(path.join(dir, PAGES_DIR));
+    await fs.remove(path.join(dir, SUMMARIES_FILE));
+  }
+
+  const manifest: RunManifest = {
+    pdfPath: path.resolve(pdfPath),
+    pdfHash,
+    pageCount: 0,
+    sourceLanguage: languages.source.code,
+    targetLanguage: languages.target.code,
+    status: 'IN_PROGRESS',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await fs.ensureDir(path.join(dir, PAGES_DIR));
+  await writeJsonAtomic(manifestPath, manifest);
+
+  return { dir, manifest, pages: new Map(), summaries: new Map(), resumed: false };
+};
+
+/**
+ * Load an existing run without modifying it (finished runs are not reset)
+ * @param runsRoot - Directory holding all run directories
+ * @param pdfPathOrRunDir - The translated PDF, or a run directory containing run.json
+ * @param languages - Language pair of the run (only used to find it from the PDF)
+ * @returns The journal, or null if there is no run for it
+ */
+export const loadRunJournal = async (
+  runsRoot: string,
+  pdfPathOrRunDir: string,
+  languages: LanguagePair = DEFAULT_LANGUAGES
+): Promise<RunJournal | null> => {
+  const isRunDir = await fs.pathExists(path.join(pdfPathOrRunDir, MANIFEST_FILE));
+  const dir = isRunDir
+    ? pdfPathOrRunDir
+    : getRunDir(runsRoot, pdfPathOrRunDir, await hashFile(pdfPathOrRunDir), languages);
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+
+  if (!(await fs.pathExists(manifestPath))) {
+    return null;
+  }
+
+  const manifest: RunManifest = await fs.readJson(manifestPath);
+  const pages = await loadPageRecords(dir);
+  const summaries = await loadSummaryRecords(dir);
+  return { dir, manifest, pages, summaries, resumed: manifest.status === 'IN_PROGRESS' };
+};
+
+/**
+ * Record the page count once the PDF has been split
+ */
+export const setRunPageCount = async (journal: RunJournal, pageCount: number): Promise<void> => {
+  journal.manifest.pageCount = pageCount;
+  journal.manifest.updatedAt = new Date().toISOString();
+  await writeJsonAtomic(path.join(journal.dir, MANIFEST_FILE), journal.manifest);
+};
+
+/**
+ * Get a reusable record for a page: it must have succeeded and its source must be unchanged
+ */
+export const getCompletedPage = (
+  journal: RunJournal,
+  pageNumber: number,
+  sourceHash: string
+): PageRecord | undefined => {
+  const record = journal.pages.get(pageNumber);
+  if (!record || record.result.status !== 'OK' || record.sourceHash !== sourceHash) {
+    return undefined;
+  }
+  return record;
+};
+
+/**
+ * First page (1-based) that is missing or FAILED, or null if every page is done
+ * @param pageNumbers - Only consider these pages (default: 1..pageCount)
+ */
+export const getResumePage = (journal: RunJournal, pageCount: number, pageNumbers?: number[]): number | null => {
+  const candidates = pageNumbers || Array.from({ length: pageCount }, (_, i) => i + 1);
+  for (const pageNumber of candidates) {
+    const record = journal.pages.get(pageNumber);
+    if (!record || record.result.status !== 'OK') {
+      return pageNumber;
+    }
+  }
+  return null;
+};
+
+/**
+ * Persist a finished page (OK or FAILED) to the journal
+ */
+export const savePageRecord = async (journal: RunJournal, record: PageRecord): Promise<void> => {
+  journal.pages.set(record.pageNumber, record);
+  await writeJsonAtomic(getPageRecordPath(journal, record.pageNumber), record);
+};
+
+/**
+ * Persist a finished summary to the journal
+ */
+export const saveSummaryRecord = async (journal: RunJournal, key: string, record: SummaryRecord): Promise<void> => {
+  journal.summaries.set(key, record);
+  await writeJsonAtomic(path.join(journal.dir, SUMMARIES_FILE), Object.fromEntries(journal.summaries));
+};
+
+/**
+ * Mark the run as finished so the next invocation starts fresh.
+ * Only done once every page has an OK record: a run with missing or FAILED pages stays
+ * open, so running the same command again translates just those pages.
+ * @returns Whether the run was marked complete
+ */
+export const markRunComplete = async (journal: RunJournal): Promise<boolean> => {
+  if (getResumePage(journal, journal.manifest.pageCount) !== null) {
+    return false;
+  }
+  journal.manifest.status = 'COMPLETE';
+  journal.manifest.updatedAt = new Date().toISOString();
+  await writeJsonAtomic(path.join(journal.dir, MANIFEST_FILE), journal.manifest);
+  return true;
+};
@@ -0,0 +1,250 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { getPromptVersion, loadPromptTemplate } from '../providers';
+import type { TranslationProvider, PageTranslationRequest, PageTranslation } from '../providers';
+import { hashFile } from './runJournal';
+
+/**
+ * Content-addressed page translation cache
+ * A page is translated once per unique input: the page image or text layer, the prompt
+ * template (version and content), the languages, the provider and model settings, the
+ * glossary sent with it and, with a PDF outline, the chapter context. Context taken from the
+ * pages translated so far (the previous page, and the chapter without an outline) is left
+ * out: it depends on which workers finished first. Any run (or any edition of a book) whose
+ * page produces the same key gets the stored translation instead of an API call.
+ *
+ * Layout (default .cache/translations, or TRANSLATION_CACHE_DIR):
+ *   <dir>/<first 2 key chars>/<key>.json
+ */
+
+export interface CacheEntry {
+  key: string;
+  promptVersion: number;
+  provider: string;
+  model: string;
+  /** Page the entry was first written for (informational; the key does not use it) */
+  pageNumber: number;
+  createdAt: string;
+  lastUsedAt: string;
+  translation: PageTranslation;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+export interface TranslationCache {
+  readonly dir: string;
+  readonly stats: CacheStats;
+  /** Stored translation for a request, or undefined (counted as hit/miss) */
+  get(provider: TranslationProvider, request: PageTranslationRequest): Promise<PageTranslation | undefined>;
+  /** Store a validated translation */
+  set(provider: TranslationProvider, request: PageTranslationRequest, translation: PageTranslation): Promise<void>;
+}
+
+export interface CacheSummary {
+  entries: number;
+  bytes: number;
+  byModel: Record<string, number>;
+  byPromptVersion: Record<string, number>;
+}
+
+export interface CacheFilter {
+  model?: string;
+  promptVersion?: number;
+  /** Entries not used since this date */
+  unusedSince?: Date;
+  all?: boolean;
+}
+
+/**
+ * Cache directory: TRANSLATION_CACHE_DIR or ./.cache/translations
+ */
+export const getCacheDir = (): string => {
+  return path.resolve(process.env.TRANSLATION_CACHE_DIR || path.join(process.cwd(), '.cache', 'translations'));
+};
+
+/**
+ * Cache key of a page request: SHA-256 over everything that shapes the prompt and the answer,
+ * except the context read from other pages' results: the previous page's context (the end of
+ * its translation or of its source) and, without an outline, the chapter context (the headings
+ * of the earlier pages already finished). Both depend on which worker finished first, so they
+ * would make keys differ between runs.
+ */
+export const getPageCacheKey = async (provider: TranslationProvider, request: PageTranslationRequest): Promise<string> => {
+  const { content } = request;
+  const contentHash = content.kind === 'image'
+    ? await hashFile(content.imagePath)
+    : crypto.createHash('sha256').update(content.text).update(JSON.stringify(content.headings)).digest('hex');
+
+  const { config } = provider;
+  const keyInput = {
+    promptVersion: getPromptVersion(config.promptsDir),
+    promptHash: loadPromptTemplate('page', config.promptsDir).hash,
+    sourceLanguage: config.sourceLanguage,
+    targetLanguage: config.targetLanguage,
+    provider: provider.name,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    contentKind: content.kind,
+    contentHash,
+    glossary: (request.glossary || []).map(entry => [entry.source, entry.target]),
+    // Only present with an outline, so keys of outline-less pages stay as they were
+    ...(request.outlineHeadings?.length ? { outline: request.outlineHeadings.map(heading => [heading.level, heading.title]) } : {}),
+    ...(request.chapterContextSource === 'outline' ? { chapterContext: request.chapterContext } : {}),
+    ...(request.reviewerNote ? { reviewerNote: request.reviewerNote } : {})
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(keyInput)).digest('hex');
+};
+
+const getEntryPath = (dir: string, key: string): string => path.join(dir, key.slice(0, 2), `${key}.json`);
+
+const writeEntry = async (dir: string, entry: CacheEntry): Promise<void> => {
+  const entryPath = getEntryPath(dir, entry.key);
+  await fs.ensureDir(path.dirname(entryPath));
+  await fs.writeFile(`${entryPath}.tmp`, JSON.stringify(entry, null, 2), 'utf-8');
+  await fs.move(`${entryPath}.tmp`, entryPath, { overwrite: true });
+};
+
+/**
+ * Open (or create) the cache in a directory
+ */
+export const createTranslationCache = (dir: string = getCacheDir()): TranslationCache => {
+  const stats: CacheStats = { hits: 0, misses: 0, writes: 0 };
+
+  const get = async (provider: TranslationProvider, request: PageTranslationRequest): Promise<PageTranslation | undefined> => {
+    const key = await getPageCacheKey(provider, request);
+    const entryPath = getEntryPath(dir, key);
+
+    try {
+      if (await fs.pathExists(entryPath)) {
+        const entry: CacheEntry = await fs.readJson(entryPath);
+        stats.hits++;
+        // lastUsedAt drives `npm run cache -- prune`
+        await writeEntry(dir, { ...entry, lastUsedAt: new Date().toISOString() });
+        return entry.translation;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable cache entry ${entryPath}:`, error);
+    }
+
+    stats.misses++;
+    return undefined;
+  };
+
+  const set = async (provider: TranslationProvider, request: PageTranslationRequest, translation: PageTranslation): Promise<void> => {
+    const now = new Date().toISOString();
+    await writeEntry(dir, {
+      key: await getPageCacheKey(provider, request),
+      promptVersion: getPromptVersion(provider.config.promptsDir),
+      provider: provider.name,
+      model: provider.config.model,
+      pageNumber: request.pageNumber,
+      createdAt: now,
+      lastUsedAt: now,
+      translation
+    });
+    stats.writes++;
+  };
+
+  return { dir, stats, get, set };
+};
+
+/**
+ * One-line statistics for the end of a run
+ */
+export const formatCacheStats = (stats: CacheStats): string => {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round(stats.hits / lookups * 100) : 0;
+  return `💾 Cache: ${stats.hits} hit(s), ${stats.misses} miss(es) (${hitRate}% hit rate), ${stats.writes} new entr${stats.writes === 1 ? 'y' : 'ies'}`;
+};
+
+/**
+ * Every entry file in the cache
+ */
+const listEntryPaths = async (dir: string): Promise<string[]> => {
+  if (!(await fs.pathExists(dir))) return [];
+
+  const paths: string[] = [];
+  for (const shard of await fs.readdir(dir)) {
+    const shardDir = path.join(dir, shard);
+    if (!(await fs.stat(shardDir)).isDirectory()) continue;
+    for (const file of await fs.readdir(shardDir)) {
+      if (file.endsWith('.json')) paths.push(path.join(shardDir, file));
+    }
+  }
+  return paths;
+};
+
+/**
+ * Entry counts and size on disk
+ */
+export const summarizeCache = async (dir: string): Promise<CacheSummary> => {
+  const summary: CacheSummary = { entries: 0, bytes: 0, byModel: {}, byPromptVersion: {} };
+
+  for (const entryPath of await listEntryPaths(dir)) {
+    summary.bytes += (await fs.stat(entryPath)).size;
+    try {
+      const entry: CacheEntry = await fs.readJson(entryPath);
+      summary.entries++;
+      summary.byModel[entry.model] = (summary.byModel[entry.model] || 0) + 1;
+      summary.byPromptVersion[entry.promptVersion] = (summary.byPromptVersion[entry.promptVersion] || 0) + 1;
+    } catch {
+      // Unreadable files still count towards the size; prune removes them
+    }
+  }
+
+  return summary;
+};
+
+const matchesFilter = (entry: CacheEntry, filter: CacheFilter): boolean => {
+  if (filter.all) return true;
+  if (filter.model !== undefined && entry.model !== filter.model) return false;
+  if (filter.promptVersion !== undefined && entry.promptVersion !== filter.promptVersion) return false;
+  if (filter.unusedSince && new Date(entry.lastUsedAt) >= filter.unusedSince) return false;
+  return filter.model !== undefined || filter.promptVersion !== undefined || filter.unusedSince !== undefined;
+};
+
+/**
+ * Delete entries matching every given criterion (unreadable entries are always removed)
+ * @returns Number of entries deleted
+ */
+export const removeCacheEntries = async (dir: string, filter: CacheFilter): Promise<number> => {
+  let removed = 0;
+
+  for (const entryPath of await listEntryPaths(dir)) {
+    let entry: CacheEntry | undefined;
+    try {
+      entry = await fs.readJson(entryPath);
+    } catch {
+      entry = undefined;
+    }
+
+    if (!entry || matchesFilter(entry, filter)) {
+      await fs.remove(entryPath);
+      removed++;
+    }
+  }
+
+  return removed;
+};
+
+/**
+ * Drop entries that can no longer be hit (older prompt versions) or were not used recently
+ * @param promptVersion - Current page prompt version
+ * @returns Number of entries deleted
+ */
+export const pruneCache = async (dir: string, olderThanDays: number, promptVersion: number = getPromptVersion()): Promise<number> => {
+  const unusedSince = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+  let removed = await removeCacheEntries(dir, { unusedSince });
+
+  for (let version = 0; version < promptVersion; version++) {
+    removed += await removeCacheEntries(dir, { promptVersion: version });
+  }
+  return removed;
+};
@@ -0,0 +1,231 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { TokenUsage, UsageEvent, UsageListener } from '../providers';
+import { getUsageCost } from './costEstimate';
+import type { PriceTable, CostEstimate } from './costEstimate';
+
+/**
+ * Token usage and spend
+ * The provider reports every API call to the ledger (retries and rejected responses
+ * included). The ledger prices them, enforces --budget and feeds the run report.
+ */
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  /** null when a call used a model without a known price */
+  costUsd: number | null;
+}
+
+export interface UsageLedger {
+  readonly priceTable: PriceTable;
+  readonly budgetUsd?: number;
+  /** Every call so far, in order */
+  readonly events: UsageEvent[];
+  /** Pass to the provider as onUsage */
+  record: UsageListener;
+  getSpentUsd(): number;
+  /**
+   * Reserve the projected cost of work about to start
+   * @returns false (and reserves nothing) if spent + reserved + cost would exceed the budget
+   */
+  tryReserve(costUsd: number): boolean;
+  /** Give back a reservation once the work has finished (its real cost is in events) */
+  release(costUsd: number): void;
+}
+
+export interface UsageReport {
+  generatedAt: string;
+  budgetUsd?: number;
+  stoppedByBudget: boolean;
+  /** Pre-flight estimate for the same work */
+  estimate?: CostEstimate;
+  totals: UsageTotals;
+  pages: (UsageTotals & { pageNumber: number })[];
+  chunks: (UsageTotals & { chunkIndex: number })[];
+  /** Chapter and document summaries */
+  rollups: UsageTotals;
+  alignment: UsageTotals;
+}
+
+export const createUsageLedger = (priceTable: PriceTable, budgetUsd?: number): UsageLedger => {
+  const events: UsageEvent[] = [];
+  let spentUsd = 0;
+  let reservedUsd = 0;
+
+  const record: UsageListener = event => {
+    events.push(event);
+    spentUsd += getUsageCost(event, event.model, priceTable) ?? 0;
+  };
+
+  const tryReserve = (costUsd: number): boolean => {
+    if (budgetUsd !== undefined && spentUsd + reservedUsd + costUsd > budgetUsd) {
+      return false;
+    }
+    reservedUsd += costUsd;
+    return true;
+  };
+
+  const release = (costUsd: number): void => {
+    reservedUsd = Math.max(0, reservedUsd - costUsd);
+  };
+
+  return { priceTable, budgetUsd, events, record, getSpentUsd: () => spentUsd, tryReserve, release };
+};
+
+/**
+ * Sum calls, tokens and cost of a set of events
+ */
+export const sumUsage = (events: UsageEvent[], priceTable: PriceTable): UsageTotals => {
+  const totals: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+  for (const event of events) {
+    const cost = getUsageCost(event, event.model, priceTable);
+    totals.calls++;
+    totals.inputTokens += event.inputTokens;
+    totals.outputTokens += event.outputTokens;
+    totals.costUsd = totals.costUsd === null || cost === null ? null : totals.costUsd + cost;
+  }
+
+  return totals;
+};
+
+/**
+ * Group events by a numeric key (page or chunk), sorted by key
+ */
+const groupUsage = <K extends 'pageNumber' | 'chunkIndex'>(
+  events: UsageEvent[],
+  key: K,
+  priceTable: PriceTable
+): (UsageTotals & Record<K, number>)[] => {
+  const groups = new Map<number, UsageEvent[]>();
+  for (const event of events) {
+    const value = event[key];
+    if (value === undefined) continue;
+    groups.set(value, [...(groups.get(value) || []), event]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([value, group]) => ({ [key]: value, ...sumUsage(group, priceTable) }) as UsageTotals & Record<K, number>);
+};
+
+/**
+ * Per-page, per-chunk and total usage of a run
+ * @param events - The run's calls (a batch passes only the current document's slice)
+ */
+export const buildUsageReport = (
+  events: UsageEvent[],
+  priceTable: PriceTable,
+  options: { budgetUsd?: number; stoppedByBudget: boolean; estimate?: CostEstimate }
+): UsageReport => ({
+  generatedAt: new Date().toISOString(),
+  budgetUsd: options.budgetUsd,
+  stoppedByBudget: options.stoppedByBudget,
+  estimate: options.estimate,
+  totals: sumUsage(events, priceTable),
+  pages: groupUsage(events.filter(event => event.operation === 'page'), 'pageNumber', priceTable),
+  chunks: groupUsage(events.filter(event => event.operation === 'chunk'), 'chunkIndex', priceTable),
+  rollups: sumUsage(events.filter(event => event.operation === 'rollup'), priceTable),
+  alignment: sumUsage(events.filter(event => event.operation === 'alignment'), priceTable)
+});
+
+export const formatUsd = (costUsd: number | null): string => {
+  if (costUsd === null) return 'unknown';
+  return costUsd < 0.01 && costUsd > 0 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+};
+
+const sumTotals = (rows: UsageTotals[]): UsageTotals => rows.reduce<UsageTotals>((sum, row) => ({
+  calls: sum.calls + row.calls,
+  inputTokens: sum.inputTokens + row.inputTokens,
+  outputTokens: sum.outputTokens + row.outputTokens,
+  costUsd: sum.costUsd === null || row.costUsd === null ? null : sum.costUsd + row.costUsd
+}), { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+/**
+ * Cost table for the console: one row per kind of call plus the total
+ */
+export const formatUsageTable = (report: UsageReport): string => {
+  const pageTotals = sumTotals(report.pages);
+  const chunkTotals = sumTotals(report.chunks);
+  const rows: [string, UsageTotals][] = [
+    ['Page translation', pageTotals],
+    ['Summary chunks', chunkTotals],
+    ['Summary roll-ups', report.rollups],
+    ['Term alignment', report.alignment],
+    ['Total', report.totals]
+  ];
+
+  const lines = [`${'Calls'.padStart(24)}${'Input'.padStart(12)}${'Output'.padStart(12)}${'Cost'.padStart(12)}`];
+  for (const [label, totals] of rows) {
+    lines.push(
+      `${label.padEnd(18)}${String(totals.calls).padStart(6)}${totals.inputTokens.toLocaleString().padStart(12)}` +
+      `${totals.outputTokens.toLocaleString().padStart(12)}${formatUsd(totals.costUsd).padStart(12)}`
+    );
+  }
+
+  if (report.estimate) {
+    lines.push(`Pre-flight estimate: ~${formatUsd(report.estimate.costUsd)}`);
+  }
+  if (report.budgetUsd !== undefined) {
+    lines.push(`Budget: ${formatUsd(report.budgetUsd)}${report.stoppedByBudget ? ' (reached - run stopped early)' : ''}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Markdown run report: totals, then every page and chunk
+ */
+export const formatUsageReport = (report: UsageReport, title: string): string => {
+  const row = (label: string, totals: UsageTotals): string =>
+    `| ${label} | ${totals.calls} | ${totals.inputTokens.toLocaleString()} | ${totals.outputTokens.toLocaleString()} | ${formatUsd(totals.costUsd)} |`;
+  const header = ['| | Calls | Input tokens | Output tokens | Cost |', '|---|---|---|---|---|'];
+
+  const lines = [
+    `# Usage report: ${title}`,
+    '',
+    `Generated: ${report.generatedAt}`,
+    ''
+  ];
+  if (report.estimate) {
+    lines.push(`- Pre-flight estimate: ~${formatUsd(report.estimate.costUsd)} (${report.estimate.inputTokens.toLocaleString()} input, ${report.estimate.outputTokens.toLocaleString()} output tokens)`);
+  }
+  if (report.budgetUsd !== undefined) {
+    lines.push(`- Budget: ${formatUsd(report.budgetUsd)}${report.stoppedByBudget ? ' - **reached, run stopped early**' : ''}`);
+  }
+  lines.push(`- Actual: ${formatUsd(report.totals.costUsd)}`, '');
+
+  lines.push('## Totals', '', ...header);
+  lines.push(row('Page translation', sumTotals(report.pages)));
+  lines.push(row('Summary chunks', sumTotals(report.chunks)));
+  lines.push(row('Summary roll-ups', report.rollups));
+  lines.push(row('Term alignment', report.alignment));
+  lines.push(row('**Total**', report.totals), '');
+
+  if (report.pages.length > 0) {
+    lines.push('## Pages', '', '_Calls above 1 are retries._', '', ...header);
+    lines.push(...report.pages.map(page => row(`Page ${page.pageNumber}`, page)), '');
+  }
+  if (report.chunks.length > 0) {
+    lines.push('## Summary chunks', '', ...header);
+    lines.push(...report.chunks.map(chunk => row(`Chunk ${chunk.chunkIndex + 1}`, chunk)), '');
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Write usage_TIMESTAMP.json and usage_TIMESTAMP.md
+ * @returns Paths of both files
+ */
+export const writeUsageReport = async (
+  outputDir: string,
+  timestamp: string,
+  report: UsageReport,
+  title: string
+): Promise<string[]> => {
+  const jsonPath = path.join(outputDir, `usage_${timestamp}.json`);
+  const markdownPath = path.join(outputDir, `usage_${timestamp}.md`);
+  await fs.writeJson(jsonPath, report, { spaces: 2 });
+  await fs.writeFile(markdownPath, formatUsageReport(report, title), 'utf-8');
+  return [jsonPath, markdownPath];
+};
@@ -0,0 +1,28 @@
+/**
+ * Run an async worker over items with at most `concurrency` in flight
+ * @param items - Work items
+ * @param concurrency - Maximum number of workers running at once (>= 1)
+ * @param worker - Called once per item with its index
+ * @returns Worker results in the same order as `items`
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each runner pulls the next unclaimed item until none are left
+  const runner = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const runnerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: runnerCount }, runner));
+
+  return results;
+};
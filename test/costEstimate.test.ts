@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateRunCost, getModelPricing, getUsageCost } from '../src/utils/costEstimate';
+import { DEFAULT_FAKE_CONFIG } from '../src/providers/fakeProvider';
+
+describe('getModelPricing', () => {
+  it('matches dated snapshots by the longest model prefix', () => {
+    assert.deepEqual(getModelPricing('gpt-4o-mini-2024-07-18'), { inputPerMillion: 0.15, outputPerMillion: 0.6 });
+    assert.deepEqual(getModelPricing('GPT-4o-2024-08-06'), { inputPerMillion: 2.5, outputPerMillion: 10 });
+    assert.equal(getModelPricing('llama3'), undefined);
+    assert.equal(getUsageCost({ inputTokens: 1, outputTokens: 1 }, 'llama3'), null);
+  });
+});
+
+describe('estimateRunCost', () => {
+  const pages = [{ kind: 'text' as const, textLength: 4000 }, { kind: 'image' as const, textLength: 0 }];
+  const options = { chunkSize: 10000, summary: false };
+
+  it('counts text and image pages', () => {
+    const estimate = estimateRunCost(pages, { ...DEFAULT_FAKE_CONFIG, model: 'gpt-4o' }, options);
+    assert.deepEqual([estimate.pages, estimate.textPages, estimate.imagePages, estimate.summaryChunks], [2, 1, 1, 0]);
+    assert.ok(estimate.costUsd !== null && estimate.costUsd > 0);
+  });
+
+  it('expects more output tokens for Hebrew than for French', () => {
+    const hebrew = estimateRunCost(pages, DEFAULT_FAKE_CONFIG, options);
+    const french = estimateRunCost(pages, { ...DEFAULT_FAKE_CONFIG, targetLanguage: 'fr' }, options);
+    assert.equal(hebrew.inputTokens, french.inputTokens);
+    assert.ok(hebrew.outputTokens > french.outputTokens);
+  });
+
+  it('adds summary chunks when the summary is on', () => {
+    const estimate = estimateRunCost(pages, DEFAULT_FAKE_CONFIG, { chunkSize: 3000, summary: true });
+    assert.equal(estimate.summaryChunks, 3);
+  });
+});
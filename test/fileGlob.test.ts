@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { globToRegExp, hasGlobPattern } from '../src/utils/fileGlob';
+
+describe('hasGlobPattern', () => {
+  it('detects *, ? and [', () => {
+    assert.equal(hasGlobPattern('readers/*.pdf'), true);
+    assert.equal(hasGlobPattern('chapter?.pdf'), true);
+    assert.equal(hasGlobPattern('part[12].pdf'), true);
+    assert.equal(hasGlobPattern('readers/intro.pdf'), false);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches * within one directory only', () => {
+    const pattern = globToRegExp('*.pdf');
+    assert.ok(pattern.test('intro.pdf'));
+    assert.ok(!pattern.test('week1/intro.pdf'));
+    assert.ok(!pattern.test('intro.pdfx'));
+  });
+
+  it('escapes regular expression characters', () => {
+    assert.ok(!globToRegExp('*.pdf').test('intropdf'));
+    assert.ok(globToRegExp('notes (v2).pdf').test('notes (v2).pdf'));
+  });
+
+  it('matches **/ as zero or more directories', () => {
+    const pattern = globToRegExp('course/**/*.pdf');
+    assert.ok(pattern.test('course/a.pdf'));
+    assert.ok(pattern.test('course/week1/day2/a.pdf'));
+    assert.ok(!pattern.test('other/a.pdf'));
+  });
+
+  it('matches a trailing ** across directories', () => {
+    assert.ok(globToRegExp('course/**').test('course/week1/a.pdf'));
+  });
+
+  it('matches ? as one character', () => {
+    const pattern = globToRegExp('chapter?.pdf');
+    assert.ok(pattern.test('chapter1.pdf'));
+    assert.ok(!pattern.test('chapter10.pdf'));
+    assert.ok(!pattern.test('chapter/.pdf'));
+  });
+
+  it('supports [abc] and negated [!abc] classes', () => {
+    assert.ok(globToRegExp('part[12].pdf').test('part2.pdf'));
+    assert.ok(!globToRegExp('part[12].pdf').test('part3.pdf'));
+    assert.ok(globToRegExp('part[!12].pdf').test('part3.pdf'));
+    assert.ok(!globToRegExp('part[!12].pdf').test('part1.pdf'));
+  });
+
+  it('treats an unclosed [ literally', () => {
+    assert.ok(globToRegExp('part[1.pdf').test('part[1.pdf'));
+  });
+});
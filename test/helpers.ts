@@ -0,0 +1,32 @@
+import type { TranslationResult } from '../src/utils/pageProcessor';
+
+/**
+ * Shared test helpers
+ */
+
+/**
+ * Skip reason for tests that load the PDF pipeline: it needs the native canvas module,
+ * which is missing where it could not be built (no cairo). False when canvas loads.
+ */
+export const withoutCanvas = ((): string | false => {
+  try {
+    require('canvas');
+    return false;
+  } catch {
+    return 'the native canvas module is not built';
+  }
+})();
+
+/**
+ * A finished page result with the given fields
+ */
+export const pageResult = (pageNumber: number, fields: Partial<TranslationResult> = {}): TranslationResult => ({
+  pageNumber,
+  translation: `תרגום של עמוד ${pageNumber}.`,
+  summary: `סיכום של עמוד ${pageNumber}.`,
+  articleTitle: '',
+  chapterTitle: '',
+  sectionTitle: '',
+  status: 'OK',
+  ...fields
+});
@@ -0,0 +1,73 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { withoutCanvas } from './helpers';
+
+// The options import the render settings of the PDF pipeline, hence canvas
+describe('cli options', { skip: withoutCanvas }, () => {
+  let cli: typeof import('../src/cli/options');
+  before(async () => {
+    cli = await import('../src/cli/options');
+  });
+
+  describe('parsePageRanges', () => {
+    it('expands ranges into sorted, unique pages', () => {
+      assert.deepEqual(cli.parsePageRanges('12-14,3, 13'), [3, 12, 13, 14]);
+      assert.deepEqual(cli.parsePageRanges('7'), [7]);
+    });
+
+    it('rejects malformed values, page 0 and descending ranges', () => {
+      for (const value of ['abc', '3-', '0', '5-3', ',']) {
+        assert.throws(() => cli.parsePageRanges(value), cli.CliError, value);
+      }
+    });
+
+    it('rejects a huge range instead of expanding it', () => {
+      assert.throws(() => cli.parsePageRanges('1-999999999'), /pages go up to 100000/);
+    });
+  });
+
+  describe('validatePageSelection', () => {
+    it('rejects pages past the end of the PDF', () => {
+      assert.doesNotThrow(() => cli.validatePageSelection([1, 10], 10));
+      assert.throws(() => cli.validatePageSelection([9, 11], 10), /page 11, but the PDF has only 10 pages/);
+    });
+  });
+
+  describe('parseCliArgs', () => {
+    it('returns null for --help', () => {
+      assert.equal(cli.parseCliArgs(['doc.pdf', '--help']), null);
+    });
+
+    it('parses flags with separate and inline values', () => {
+      const options = cli.parseCliArgs(['doc.pdf', '--pages=2-3', '--format', 'txt,docx', '--no-summary'])!;
+      assert.equal(options.input, 'doc.pdf');
+      assert.deepEqual(options.pages, [2, 3]);
+      assert.deepEqual(options.formats, ['txt', 'docx']);
+      assert.equal(options.summary, false);
+    });
+
+    it('rejects unknown options and missing values', () => {
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--colour']), /Unknown option --colour/);
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--pages', '--rebuild']), /--pages needs a value/);
+      assert.throws(() => cli.parseCliArgs([]), /provide a PDF/);
+    });
+
+    it('rejects --no-summary together with --summary-only', () => {
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--no-summary', '--summary-only']), /cannot be combined/);
+    });
+
+    it('allows one command on a saved run at a time', () => {
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--rebuild', '--summary-only']), /cannot be combined/);
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--retranslate', '--pages', '1', '--dry-run']), /cannot be combined/);
+    });
+
+    it('checks what the review commands need', () => {
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--retranslate']), /--retranslate needs --pages/);
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--override', 'p.txt', '--pages', '1-2']), /replaces one page/);
+      assert.throws(() => cli.parseCliArgs(['doc.pdf', '--note', 'table missing']), /--note only applies/);
+      const options = cli.parseCliArgs(['doc.pdf', '--retranslate', '--pages', '4', '--note', 'table missing'])!;
+      assert.equal(cli.usesSavedRun(options), true);
+      assert.equal(options.reviewerNote, 'table missing');
+    });
+  });
+});
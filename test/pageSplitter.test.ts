@@ -0,0 +1,65 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PageTranslation } from '../src/providers';
+import { withoutCanvas } from './helpers';
+
+const part = (fields: Partial<PageTranslation>): PageTranslation => ({
+  translation: '',
+  summary: '',
+  articleTitle: '',
+  chapterTitle: '',
+  sectionTitle: '',
+  headings: [],
+  footnotes: [],
+  bibliography: false,
+  tables: [],
+  figures: [],
+  ...fields
+});
+
+// The splitter cuts page images with canvas
+describe('mergePageTranslations', { skip: withoutCanvas }, () => {
+  let splitter: typeof import('../src/utils/pageSplitter');
+  before(async () => {
+    splitter = await import('../src/utils/pageSplitter');
+  });
+
+  it('joins texts and summaries and keeps the first titles', () => {
+    const merged = splitter.mergePageTranslations([
+      part({ translation: 'חלק עליון.', summary: 'ראשון.', chapterTitle: 'פרק 1', headings: [{ level: 1, text: 'פרק 1' }] }),
+      part({ translation: 'חלק תחתון.', summary: 'שני.', chapterTitle: 'פרק אחר', sectionTitle: 'סעיף' })
+    ]);
+    assert.equal(merged.translation, 'חלק עליון.\n\nחלק תחתון.');
+    assert.equal(merged.summary, 'ראשון. שני.');
+    assert.deepEqual([merged.chapterTitle, merged.sectionTitle], ['פרק 1', 'סעיף']);
+    assert.deepEqual(merged.headings, [{ level: 1, text: 'פרק 1' }]);
+  });
+
+  it('renumbers table and figure placeholders across parts', () => {
+    const table = { caption: '', header: false, rows: [['א']] };
+    const merged = splitter.mergePageTranslations([
+      part({ translation: '[[TABLE 1]] [[FIGURE 1]]', tables: [table], figures: [{ caption: 'א', region: null }] }),
+      part({ translation: '[[TABLE 1]] [[FIGURE 1]]', tables: [table], figures: [{ caption: 'ב', region: null }] })
+    ]);
+    assert.equal(merged.translation, '[[TABLE 1]] [[FIGURE 1]]\n\n[[TABLE 2]] [[FIGURE 2]]');
+    assert.equal(merged.tables?.length, 2);
+    assert.deepEqual(merged.figures?.map(figure => figure.caption), ['א', 'ב']);
+  });
+
+  it('maps figure regions from a part back onto the page', () => {
+    const merged = splitter.mergePageTranslations([
+      part({ translation: 'א' }),
+      part({ translation: '[[FIGURE 1]]', figures: [{ caption: '', region: { x: 0.1, y: 0.5, width: 0.8, height: 0.4 } }] })
+    ]);
+    assert.deepEqual(merged.figures?.[0].region, { x: 0.1, y: 0.75, width: 0.8, height: 0.2 });
+  });
+
+  it('lists a footnote cut across two parts once, and a page is a reference list only if every part is', () => {
+    const merged = splitter.mergePageTranslations([
+      part({ translation: 'א', footnotes: [{ marker: '1', text: 'הערה' }], bibliography: true }),
+      part({ translation: 'ב', footnotes: [{ marker: '1', text: 'המשך' }, { marker: '2', text: 'שנייה' }] })
+    ]);
+    assert.deepEqual(merged.footnotes?.map(footnote => footnote.marker), ['1', '2']);
+    assert.equal(merged.bibliography, false);
+  });
+});
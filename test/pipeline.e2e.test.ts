@@ -0,0 +1,116 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { withoutCanvas } from './helpers';
+
+/**
+ * A three-page text-layer PDF: a chapter heading on page 1, a page number on every page
+ */
+const writeSamplePdf = async (filePath: string): Promise<void> => {
+  const pdf = await PDFDocument.create();
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+
+  for (let pageNumber = 1; pageNumber <= 3; pageNumber++) {
+    const page = pdf.addPage([595, 842]);
+    let y = 780;
+    if (pageNumber === 1) {
+      page.drawText('CHAPTER 1: Materials and Media', { x: 50, y, size: 22, font: bold });
+      y -= 40;
+    }
+    for (let line = 0; line < 30; line++) {
+      page.drawText(`Art therapy uses materials such as clay and paint, line ${line} on page ${pageNumber}.`, { x: 50, y, size: 11, font: regular });
+      y -= 16;
+    }
+    page.drawText(String(pageNumber), { x: 290, y: 30, size: 10, font: regular });
+  }
+  await fs.writeFile(filePath, await pdf.save());
+};
+
+// End to end with the offline fake provider: translate, then work on the saved run
+describe('translation pipeline (fake provider)', { skip: withoutCanvas }, () => {
+  let pipeline: typeof import('../src/pipeline');
+  let review: typeof import('../src/pipeline/review');
+  let cli: typeof import('../src/cli/options');
+  let dir = '';
+  let pdfPath = '';
+  let outDir = '';
+  const env = { ...process.env };
+  const logLines: string[] = [];
+
+  const parse = (...args: string[]) => cli.parseCliArgs([pdfPath, '--out', outDir, '--mode', 'text', ...args])!;
+  const readOutput = async (prefix: string): Promise<string> => {
+    const files = (await fs.readdir(outDir)).filter(file => file.startsWith(prefix)).sort();
+    assert.ok(files.length > 0, `no ${prefix}* output`);
+    return fs.readFile(path.join(outDir, files[files.length - 1]), 'utf-8');
+  };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-e2e-'));
+    pdfPath = path.join(dir, 'sample.pdf');
+    outDir = path.join(dir, 'out');
+    await writeSamplePdf(pdfPath);
+    process.env.TRANSLATION_PROVIDER = 'fake';
+    process.env.TRANSLATION_CACHE_DIR = path.join(dir, 'cache');
+    mock.method(console, 'log', (...args: unknown[]) => {
+      logLines.push(args.join(' '));
+    });
+    mock.method(console, 'warn', () => undefined);
+
+    pipeline = await import('../src/pipeline');
+    review = await import('../src/pipeline/review');
+    cli = await import('../src/cli/options');
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    process.env = env;
+    await fs.remove(dir);
+  });
+
+  it('translates every page and writes the outputs and the run journal under --out', async () => {
+    const report = await pipeline.runTranslation(parse('--format', 'txt,md', '--csv'));
+
+    assert.deepEqual([report.pageCount, report.pagesProcessed, report.failedPages, report.stoppedByBudget], [3, 3, [], false]);
+    assert.equal(path.dirname(path.dirname(report.runDir)), outDir);
+    assert.equal((await fs.readJson(path.join(report.runDir, 'run.json'))).status, 'COMPLETE');
+    assert.ok((await fs.readJson(path.join(report.runDir, 'summaries.json'))) !== null);
+    assert.ok(!(await fs.pathExists(path.join(outDir, 'temp_pages'))));
+
+    for (const extension of ['.txt', '.md', '.csv', '.json']) {
+      assert.ok(report.outputPaths.some(outputPath => outputPath.endsWith(extension)), extension);
+    }
+    assert.match(await readOutput('translation_'), /[֐-׿]/);
+    assert.match(await readOutput('summary_'), /[֐-׿]/);
+  });
+
+  it('replaces a page from an override file and rebuilds the outputs', async () => {
+    const overridePath = path.join(dir, 'page2.txt');
+    await fs.writeFile(overridePath, 'תרגום שנערך ידנית לעמוד השני.');
+    // A new timestamp for the rebuilt files
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    assert.equal(await pipeline.runOverride(parse('--override', overridePath, '--pages', '2')), cli.EXIT_CODES.OK);
+    assert.match(await readOutput('translation_'), /תרגום שנערך ידנית לעמוד השני\./);
+
+    const { journal } = await review.loadSavedRun(parse('--rebuild'));
+    const page = journal.pages.get(2)!.result;
+    assert.deepEqual([page.status, page.review?.action, page.review?.file], ['OK', 'overridden', 'page2.txt']);
+  });
+
+  it('rejects an override that would break the saved page', async () => {
+    const overridePath = path.join(dir, 'page2.json');
+    await fs.writeJson(overridePath, { translation: 'טקסט', footnotes: 'not a list' });
+    await assert.rejects(pipeline.runOverride(parse('--override', overridePath, '--pages', '2')), /footnotes: expected an array/);
+  });
+
+  it('rebuilds from the saved run, reusing every saved summary', async () => {
+    logLines.length = 0;
+    assert.equal(await pipeline.runRebuild(parse('--rebuild')), cli.EXIT_CODES.OK);
+    assert.ok(logLines.some(line => /summar(?:y|ies) reused from the run; only changed chunks/.test(line)));
+    assert.ok(!logLines.some(line => line.includes('Summarizing chunk')));
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getProviderName, getRequiredEnvVars, createProviderFromEnv, createFakeProvider } from '../src/providers';
+import type { PageTranslationRequest } from '../src/providers';
+
+const request = (pageNumber: number, text: string = 'Art therapy uses clay and paint.'): PageTranslationRequest => ({
+  pageNumber,
+  content: { kind: 'text', text, headings: [] },
+  previousContext: '',
+  chapterContext: ''
+});
+
+describe('provider selection', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('defaults to OpenAI and reads TRANSLATION_PROVIDER', () => {
+    delete process.env.TRANSLATION_PROVIDER;
+    assert.equal(getProviderName(), 'openai');
+    process.env.TRANSLATION_PROVIDER = ' Fake ';
+    assert.equal(getProviderName(), 'fake');
+    process.env.TRANSLATION_PROVIDER = 'claude';
+    assert.throws(() => getProviderName(), /Unknown TRANSLATION_PROVIDER "claude"/);
+  });
+
+  it('lists the environment variables each provider needs', () => {
+    assert.deepEqual(getRequiredEnvVars('openai'), ['OPENAI_API_KEY']);
+    assert.deepEqual(getRequiredEnvVars('openai-compatible'), ['OPENAI_BASE_URL']);
+    assert.deepEqual(getRequiredEnvVars('fake'), []);
+  });
+
+  it('takes model settings from the environment', () => {
+    process.env.TRANSLATION_PROVIDER = 'fake';
+    process.env.TRANSLATION_MODEL = 'fake-large';
+    process.env.TRANSLATION_MAX_TOKENS = '1000';
+    const provider = createProviderFromEnv();
+    assert.deepEqual([provider.name, provider.config.model, provider.config.maxTokens], ['fake', 'fake-large', 1000]);
+
+    process.env.TRANSLATION_TEMPERATURE = 'warm';
+    assert.throws(() => createProviderFromEnv(), /TRANSLATION_TEMPERATURE must be a number/);
+  });
+});
+
+describe('fake provider', () => {
+  const provider = createFakeProvider();
+
+  it('translates the same page the same way every time', async () => {
+    assert.deepEqual(await provider.translatePage(request(3)), await provider.translatePage(request(3)));
+    assert.notEqual(
+      (await provider.translatePage(request(3))).translation,
+      (await provider.translatePage(request(3, 'Another page.'))).translation
+    );
+  });
+
+  it('starts a chapter every 10 pages and a section every 5', async () => {
+    const titles = [];
+    for (const pageNumber of [1, 2, 6, 11]) {
+      const page = await provider.translatePage(request(pageNumber));
+      titles.push([page.chapterTitle, page.sectionTitle]);
+    }
+    assert.deepEqual(titles, [['פרק 1', 'סעיף 1'], ['', ''], ['', 'סעיף 2'], ['פרק 2', 'סעיף 3']]);
+  });
+
+  it('summarizes a chunk without a network call', async () => {
+    const summary = await provider.summarizeChunk({ title: 'פרק 1', text: 'טקסט', pages: [1, 2, 3], chunkIndex: 0, totalChunks: 2 });
+    assert.match(summary, /חלק 1 מתוך 2: פרק 1 \(עמודים 1-3\)/);
+  });
+});
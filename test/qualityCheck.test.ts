@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTranslationQuality, getCheckedTranslation, getFootnoteText } from '../src/utils/qualityCheck';
+import { getLanguagePair } from '../src/i18n';
+
+const HEBREW_SENTENCE = 'טיפול באמנות משתמש בחומרים כמו חימר וצבע כדי לאפשר ביטוי רגשי. ';
+const ENGLISH_SENTENCE = 'Art therapy uses materials such as clay and paint to allow emotional expression. ';
+
+const checkNames = (quality: ReturnType<typeof checkTranslationQuality>): string[] => quality.issues.map(issue => issue.check);
+
+describe('checkTranslationQuality', () => {
+  it('gives a clean translation full marks', () => {
+    const quality = checkTranslationQuality({
+      translation: HEBREW_SENTENCE.repeat(4),
+      summary: 'העמוד עוסק בחומרים בטיפול באמנות.',
+      sourceText: ENGLISH_SENTENCE.repeat(4)
+    });
+    assert.deepEqual(quality, { score: 100, issues: [], usable: true });
+  });
+
+  it('marks empty answers and refusals as unusable', () => {
+    const empty = checkTranslationQuality({ translation: '', summary: 'סיכום של העמוד' });
+    assert.deepEqual([empty.score, empty.usable, checkNames(empty)], [0, false, ['empty']]);
+
+    const refusal = checkTranslationQuality({ translation: `I'm sorry, I cannot help with that. ${HEBREW_SENTENCE}`, summary: 'סיכום של העמוד' });
+    assert.equal(refusal.usable, false);
+    assert.ok(checkNames(refusal).includes('refusal'));
+  });
+
+  it('penalizes English left in a Hebrew translation', () => {
+    const quality = checkTranslationQuality({
+      translation: HEBREW_SENTENCE + ENGLISH_SENTENCE.repeat(2),
+      summary: 'סיכום של העמוד'
+    });
+    assert.deepEqual(checkNames(quality), ['script_ratio', 'untranslated_sentences']);
+    assert.ok(quality.score < 100);
+    assert.equal(quality.usable, true);
+  });
+
+  it('skips the script checks for languages written in the same script and for reference lists', () => {
+    const languages = getLanguagePair('en', 'fr');
+    assert.deepEqual(checkNames(checkTranslationQuality({ translation: ENGLISH_SENTENCE.repeat(3), summary: 'Résumé de la page', languages })), []);
+    assert.deepEqual(checkNames(checkTranslationQuality({ translation: ENGLISH_SENTENCE.repeat(3), summary: 'סיכום של העמוד', bibliography: true })), []);
+  });
+
+  it('compares the length with the source text', () => {
+    const short = checkTranslationQuality({ translation: HEBREW_SENTENCE, summary: 'סיכום של העמוד', sourceText: ENGLISH_SENTENCE.repeat(10) });
+    assert.match(short.issues[0].message, /text may be missing/);
+
+    const long = checkTranslationQuality({ translation: HEBREW_SENTENCE.repeat(20), summary: 'סיכום של העמוד', sourceText: ENGLISH_SENTENCE.repeat(3) });
+    assert.match(long.issues[0].message, /text may be invented/);
+  });
+
+  it('catches a page that repeats the previous one', () => {
+    const translation = Array.from({ length: 6 }, (_, i) => `${HEBREW_SENTENCE}${i}`).join(' ');
+    const quality = checkTranslationQuality({ translation, summary: 'סיכום של העמוד', previousTranslation: translation });
+    assert.deepEqual([checkNames(quality), quality.usable], [['duplicate'], false]);
+  });
+});
+
+describe('getCheckedTranslation', () => {
+  it('replaces placeholders with the tables and captions returned apart', () => {
+    const text = getCheckedTranslation({
+      translation: 'גוף העמוד [[TABLE 1]]',
+      tables: [{ caption: 'טבלה', header: true, rows: [['א', 'ב']] }],
+      figures: [{ caption: '', region: null }]
+    });
+    assert.equal(text, 'גוף העמוד \n\nטבלה\n\nא ב');
+  });
+});
+
+describe('getFootnoteText', () => {
+  const page = {
+    translation: HEBREW_SENTENCE.repeat(2),
+    footnotes: [{ marker: '1', text: 'Malchiodi, C. A. (2012). Handbook of art therapy. Guilford Press.' }]
+  };
+
+  it('leaves English citations in footnotes out of the script checks', () => {
+    const quality = checkTranslationQuality({
+      translation: getCheckedTranslation(page),
+      footnotes: getFootnoteText(page),
+      summary: 'העמוד עוסק בחומרים בטיפול באמנות.'
+    });
+    assert.deepEqual(quality, { score: 100, issues: [], usable: true });
+  });
+
+  it('counts footnotes toward the length of the page', () => {
+    const sourceText = ENGLISH_SENTENCE.repeat(2) + page.footnotes[0].text.repeat(4);
+    const withFootnotes = checkTranslationQuality({ translation: getCheckedTranslation(page), footnotes: getFootnoteText(page), summary: 'סיכום של העמוד', sourceText });
+    const withoutFootnotes = checkTranslationQuality({ translation: getCheckedTranslation(page), summary: 'סיכום של העמוד', sourceText });
+    assert.deepEqual([checkNames(withFootnotes), checkNames(withoutFootnotes)], [[], ['length_ratio']]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  repairJson,
+  parseJsonObject,
+  parsePageTranslation,
+  validatePageTranslation,
+  ResponseParseError,
+  ResponseValidationError
+} from '../src/providers/responseSchema';
+
+describe('repairJson', () => {
+  it('strips code fences and text around the object', () => {
+    assert.deepEqual(JSON.parse(repairJson('Here you go:\n```json\n{"a": 1}\n```')), { a: 1 });
+    assert.deepEqual(JSON.parse(repairJson('{"a": 1} and some notes')), { a: 1 });
+  });
+
+  it('drops trailing commas', () => {
+    assert.deepEqual(JSON.parse(repairJson('{"a": [1, 2,], "b": 3,}')), { a: [1, 2], b: 3 });
+  });
+
+  it('escapes quotes and raw newlines inside strings', () => {
+    const repaired = repairJson('{"translation": "הוא אמר "שלום" ויצא\nמהחדר", "summary": "x"}');
+    assert.deepEqual(JSON.parse(repaired), { translation: 'הוא אמר "שלום" ויצא\nמהחדר', summary: 'x' });
+  });
+
+  it('closes output cut off mid-string and mid-object', () => {
+    assert.deepEqual(JSON.parse(repairJson('{"translation": "טקסט שנקטע')), { translation: 'טקסט שנקטע' });
+    assert.deepEqual(JSON.parse(repairJson('{"headings": [{"level": 1, "text": "פרק"}, {"level":')), {
+      headings: [{ level: 1, text: 'פרק' }, { level: '' }]
+    });
+  });
+});
+
+describe('parseJsonObject', () => {
+  it('reports whether the JSON had to be repaired', () => {
+    assert.deepEqual(parseJsonObject('{"a": 1}'), { value: { a: 1 }, repaired: false });
+    assert.deepEqual(parseJsonObject('{"a": 1,}'), { value: { a: 1 }, repaired: true });
+  });
+
+  it('throws ResponseParseError when nothing can be parsed', () => {
+    assert.throws(() => parseJsonObject('I cannot translate this page.'), ResponseParseError);
+  });
+});
+
+describe('validatePageTranslation', () => {
+  const minimal = { translation: ' תרגום ', summary: 'סיכום', articleTitle: '' };
+
+  it('trims strings and defaults the optional fields', () => {
+    assert.deepEqual(validatePageTranslation(minimal), {
+      translation: 'תרגום',
+      summary: 'סיכום',
+      articleTitle: '',
+      chapterTitle: '',
+      sectionTitle: '',
+      headings: [],
+      footnotes: [],
+      bibliography: false,
+      tables: [],
+      figures: []
+    });
+  });
+
+  it('lists every invalid field', () => {
+    assert.throws(
+      () => validatePageTranslation({ summary: 5, articleTitle: '', headings: 'פרק', bibliography: 'no' }),
+      (error: unknown) => {
+        assert.ok(error instanceof ResponseValidationError);
+        assert.deepEqual(error.issues.map(issue => issue.field), ['translation', 'summary', 'headings', 'bibliography']);
+        return true;
+      }
+    );
+  });
+
+  it('checks headings, footnotes and tables item by item', () => {
+    assert.throws(
+      () => validatePageTranslation({
+        ...minimal,
+        headings: [{ level: 4, text: 'פרק' }],
+        footnotes: [{ marker: '1' }],
+        tables: [{ rows: 'a|b' }]
+      }),
+      (error: unknown) => {
+        assert.ok(error instanceof ResponseValidationError);
+        assert.deepEqual(error.issues.map(issue => issue.field), ['headings[0].level', 'footnotes[0].text', 'tables[0].rows']);
+        return true;
+      }
+    );
+  });
+
+  it('normalizes footnote markers and table cells, and drops off-page figure regions', () => {
+    const page = validatePageTranslation({
+      ...minimal,
+      footnotes: [{ marker: 3, text: ' הערה ' }],
+      tables: [{ caption: 'טבלה', rows: [['א', 2], []] }],
+      figures: [{ caption: 'איור', region: { x: 2, y: 0, width: 1, height: 1 } }]
+    });
+    assert.deepEqual(page.footnotes, [{ marker: '3', text: 'הערה' }]);
+    assert.deepEqual(page.tables, [{ caption: 'טבלה', header: false, rows: [['א', '2']] }]);
+    assert.deepEqual(page.figures, [{ caption: 'איור', region: null }]);
+  });
+});
+
+describe('parsePageTranslation', () => {
+  it('repairs and validates a response in one step', () => {
+    const page = parsePageTranslation('```json\n{"translation": "תרגום", "summary": "סיכום", "articleTitle": "",}\n```');
+    assert.equal(page.translation, 'תרגום');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import {
+  openRunJournal,
+  setRunPageCount,
+  savePageRecord,
+  getCompletedPage,
+  getResumePage,
+  markRunComplete
+} from '../src/utils/runJournal';
+import type { RunJournal } from '../src/utils/runJournal';
+import { pageResult } from './helpers';
+
+describe('run journal', () => {
+  let dir: string;
+  let pdfPath: string;
+  let runsRoot: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-journal-'));
+    pdfPath = path.join(dir, 'book.pdf');
+    runsRoot = path.join(dir, 'runs');
+    await fs.writeFile(pdfPath, '%PDF-1.4 test');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  const saveResults = async (journal: RunJournal, statuses: ('OK' | 'FAILED')[]): Promise<void> => {
+    await setRunPageCount(journal, statuses.length);
+    for (const [i, status] of statuses.entries()) {
+      await savePageRecord(journal, {
+        pageNumber: i + 1,
+        result: pageResult(i + 1, { status }),
+        previousContext: '',
+        chapterContext: '',
+        sourceHash: `page-${i + 1}`,
+        completedAt: new Date().toISOString()
+      });
+    }
+  };
+
+  it('resumes an unfinished run from its saved pages', async () => {
+    await saveResults(await openRunJournal(runsRoot, pdfPath), ['OK', 'OK']);
+    const journal = await openRunJournal(runsRoot, pdfPath);
+    assert.equal(journal.resumed, true);
+    assert.equal(getCompletedPage(journal, 1, 'page-1')?.pageNumber, 1);
+    assert.equal(getCompletedPage(journal, 1, 'changed'), undefined);
+  });
+
+  it('keeps a run with FAILED pages open, so only those pages are translated again', async () => {
+    const journal = await openRunJournal(runsRoot, pdfPath);
+    await saveResults(journal, ['OK', 'FAILED', 'OK']);
+    assert.equal(await markRunComplete(journal), false);
+
+    const resumed = await openRunJournal(runsRoot, pdfPath);
+    assert.equal(resumed.resumed, true);
+    assert.equal(getResumePage(resumed, 3), 2);
+    assert.ok(getCompletedPage(resumed, 1, 'page-1'));
+    assert.equal(getCompletedPage(resumed, 2, 'page-2'), undefined);
+  });
+
+  it('starts a run over once every page succeeded', async () => {
+    const journal = await openRunJournal(runsRoot, pdfPath);
+    await saveResults(journal, ['OK', 'OK']);
+    assert.equal(await markRunComplete(journal), true);
+
+    const next = await openRunJournal(runsRoot, pdfPath);
+    assert.equal(next.resumed, false);
+    assert.equal(next.pages.size, 0);
+  });
+});
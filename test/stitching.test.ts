@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findRunningLines, stripRunningLines, endsMidSentence, removeOverlap } from '../src/renderers/stitching';
+
+describe('findRunningLines', () => {
+  it('finds lines that open or close at least three pages, ignoring numbers', () => {
+    const pages = [1, 2, 3].map(n => `מבוא לטיפול באמנות - פרק ${n}\nגוף העמוד ${n} עם טקסט ארוך.\nעוד שורה.\nושורה אחרונה.\n${n}`);
+    pages.push('עמוד בלי כותרת רצה.');
+    const running = findRunningLines(pages);
+    assert.ok(running.has('מבוא לטיפול באמנות - פרק #'));
+    assert.ok(!running.has('עוד שורה.'));
+  });
+});
+
+describe('stripRunningLines', () => {
+  it('removes running lines and page numbers at both ends only', () => {
+    const running = new Set(['כותרת רצה']);
+    const text = 'כותרת רצה\nפסקה ראשונה.\n12\nפסקה שנייה.\n- 13 -';
+    assert.deepEqual(stripRunningLines(text, running), { text: 'פסקה ראשונה.\n12\nפסקה שנייה.', removed: 2 });
+  });
+
+  it('recognizes page numbers in the supported languages', () => {
+    for (const line of ['עמוד 4', 'Page 4', 'Seite 4', 'xii']) {
+      assert.equal(stripRunningLines(`${line}\nטקסט.`, new Set()).removed, 1, line);
+    }
+  });
+
+  it('leaves long lines and placeholders alone', () => {
+    const text = '[[TABLE 1]]\nטקסט.';
+    assert.deepEqual(stripRunningLines(text, new Set(['[[TABLE #]]'])), { text, removed: 0 });
+  });
+});
+
+describe('endsMidSentence', () => {
+  it('looks at the end of the paragraph, ignoring footnote markers', () => {
+    assert.equal(endsMidSentence('המשפט נקטע באמצע'), true);
+    assert.equal(endsMidSentence('המשפט הסתיים.'), false);
+    assert.equal(endsMidSentence('הוא אמר: "כן."'), false);
+    assert.equal(endsMidSentence('המשפט הסתיים.[^1]'), false);
+    assert.equal(endsMidSentence(''), false);
+  });
+});
+
+describe('removeOverlap', () => {
+  it('removes a start that repeats the end of the previous page', () => {
+    const previous = 'פסקה קודמת. החומרים בטיפול באמנות כוללים חימר, צבע';
+    const next = 'החומרים בטיפול באמנות כוללים חימר, צבע ונייר. המשך העמוד.';
+    assert.deepEqual(removeOverlap(previous, next), { text: 'ונייר. המשך העמוד.', removedWords: 6 });
+  });
+
+  it('ignores overlaps shorter than four words', () => {
+    const next = 'כוללים חימר וצבע ונייר.';
+    assert.deepEqual(removeOverlap('החומרים כוללים חימר', next), { text: next, removedWords: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSummaryLengths, createChunks, DEFAULT_SUMMARY_LENGTHS } from '../src/pipeline/summary';
+import { pageResult } from './helpers';
+
+describe('parseSummaryLengths', () => {
+  it('applies a single length to every level', () => {
+    assert.deepEqual(parseSummaryLengths('Brief'), { section: 'brief', chapter: 'brief', document: 'brief' });
+  });
+
+  it('keeps the default for levels that are not listed', () => {
+    assert.deepEqual(parseSummaryLengths('section=abstract, chapter=off'), {
+      ...DEFAULT_SUMMARY_LENGTHS,
+      section: 'abstract',
+      chapter: 'off'
+    });
+  });
+
+  it('rejects unknown lengths and levels, and off for sections', () => {
+    assert.throws(() => parseSummaryLengths('long'), /Invalid summary length "long"/);
+    assert.throws(() => parseSummaryLengths('section=off'), /Invalid summary length "off"/);
+    assert.throws(() => parseSummaryLengths('page=brief'), /Unknown summary level "page"/);
+  });
+});
+
+describe('createChunks', () => {
+  it('starts a new chunk when the chapter or section changes', () => {
+    const chunks = createChunks([
+      pageResult(1, { chapterTitle: 'פרק 1' }),
+      pageResult(2),
+      pageResult(3, { sectionTitle: 'סעיף א' }),
+      pageResult(4, { chapterTitle: 'פרק 2' })
+    ]);
+
+    assert.deepEqual(chunks.map(chunk => [chunk.title, chunk.chapter, chunk.pages]), [
+      ['פרק 1', 'פרק 1', [1, 2]],
+      ['פרק 1 > סעיף א', 'פרק 1', [3]],
+      ['פרק 2', 'פרק 2', [4]]
+    ]);
+  });
+
+  it('splits a chunk that would exceed the size limit', () => {
+    const long = 'א'.repeat(60);
+    const chunks = createChunks([1, 2, 3].map(n => pageResult(n, { translation: long })), 150);
+    assert.deepEqual(chunks.map(chunk => chunk.pages), [[1, 2], [3]]);
+  });
+
+  it('leaves out failed pages and reference lists', () => {
+    const chunks = createChunks([
+      pageResult(1),
+      pageResult(2, { status: 'FAILED' }),
+      pageResult(3, { bibliography: true })
+    ]);
+    assert.deepEqual(chunks.map(chunk => chunk.pages), [[1]]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { getPageCacheKey, createTranslationCache } from '../src/utils/translationCache';
+import { createFakeProvider, DEFAULT_FAKE_CONFIG } from '../src/providers/fakeProvider';
+import type { PageTranslationRequest } from '../src/providers';
+
+const request: PageTranslationRequest = {
+  pageNumber: 3,
+  content: { kind: 'text', text: 'Art therapy uses clay and paint.', headings: [] },
+  previousContext: 'end of the previous page',
+  previousContextSource: 'translation',
+  chapterContext: 'Chapter 1',
+  chapterContextSource: 'pages'
+};
+
+describe('getPageCacheKey', () => {
+  const provider = createFakeProvider();
+
+  it('is the same for the same input, whatever the page number', async () => {
+    assert.equal(await getPageCacheKey(provider, request), await getPageCacheKey(provider, { ...request, pageNumber: 9 }));
+  });
+
+  it('does not depend on which previous-page context was ready', async () => {
+    const fromSource = { ...request, previousContext: 'end of the English source', previousContextSource: 'source' as const };
+    assert.equal(await getPageCacheKey(provider, request), await getPageCacheKey(provider, fromSource));
+  });
+
+  it('does not depend on the chapter context read from the pages finished so far', async () => {
+    assert.equal(await getPageCacheKey(provider, request), await getPageCacheKey(provider, { ...request, chapterContext: '' }));
+  });
+
+  it('changes with the chapter context from the PDF outline', async () => {
+    const fromOutline = { ...request, chapterContextSource: 'outline' as const };
+    assert.notEqual(
+      await getPageCacheKey(provider, fromOutline),
+      await getPageCacheKey(provider, { ...fromOutline, chapterContext: 'Chapter 2' })
+    );
+  });
+
+  it('changes with the content, glossary, reviewer note, model and languages', async () => {
+    const key = await getPageCacheKey(provider, request);
+    const variants: [PageTranslationRequest, typeof provider][] = [
+      [{ ...request, content: { kind: 'text', text: 'Art therapy uses clay.', headings: [] } }, provider],
+      [{ ...request, glossary: [{ source: 'clay', target: 'חימר' }] }, provider],
+      [{ ...request, reviewerNote: 'Keep the list' }, provider],
+      [request, createFakeProvider({ ...DEFAULT_FAKE_CONFIG, model: 'fake-2' })],
+      [request, createFakeProvider({ ...DEFAULT_FAKE_CONFIG, targetLanguage: 'fr' })]
+    ];
+    for (const [variant, variantProvider] of variants) {
+      assert.notEqual(await getPageCacheKey(variantProvider, variant), key);
+    }
+  });
+});
+
+describe('createTranslationCache', () => {
+  const provider = createFakeProvider();
+  let dir = '';
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'translation-cache-'));
+  });
+  after(async () => {
+    await fs.remove(dir);
+  });
+
+  it('stores a translation and counts hits and misses', async () => {
+    const cache = createTranslationCache(dir);
+    assert.equal(await cache.get(provider, request), undefined);
+
+    const translation = await provider.translatePage(request);
+    await cache.set(provider, request, translation);
+    assert.deepEqual(await cache.get(provider, { ...request, pageNumber: 4 }), translation);
+    assert.deepEqual(cache.stats, { hits: 1, misses: 1, writes: 1 });
+  });
+});
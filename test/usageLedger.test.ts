@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUsageLedger, sumUsage } from '../src/utils/usageLedger';
+import type { PriceTable } from '../src/utils/costEstimate';
+
+const PRICES: PriceTable = { 'test-model': { inputPerMillion: 1, outputPerMillion: 2 } };
+
+describe('createUsageLedger', () => {
+  it('prices every recorded call', () => {
+    const ledger = createUsageLedger(PRICES);
+    ledger.record({ operation: 'page', pageNumber: 1, model: 'test-model', inputTokens: 1_000_000, outputTokens: 500_000 });
+    ledger.record({ operation: 'chunk', chunkIndex: 0, model: 'test-model-2024-01-01', inputTokens: 1_000_000, outputTokens: 0 });
+    ledger.record({ operation: 'page', pageNumber: 2, model: 'local-model', inputTokens: 1_000_000, outputTokens: 0 });
+    assert.equal(ledger.getSpentUsd(), 3);
+    assert.equal(ledger.events.length, 3);
+  });
+
+  it('refuses a reservation that would go over the budget, counting open reservations', () => {
+    const ledger = createUsageLedger(PRICES, 1);
+    ledger.record({ operation: 'page', pageNumber: 1, model: 'test-model', inputTokens: 400_000, outputTokens: 0 });
+    assert.equal(ledger.tryReserve(0.4), true);
+    assert.equal(ledger.tryReserve(0.4), false);
+    ledger.release(0.4);
+    assert.equal(ledger.tryReserve(0.6), true);
+    assert.equal(ledger.tryReserve(0.01), false);
+  });
+
+  it('reserves anything without a budget', () => {
+    assert.equal(createUsageLedger(PRICES).tryReserve(1_000), true);
+  });
+});
+
+describe('sumUsage', () => {
+  it('has no cost once a call used a model without a price', () => {
+    const totals = sumUsage([
+      { operation: 'page', model: 'test-model', inputTokens: 10, outputTokens: 20 },
+      { operation: 'page', model: 'local-model', inputTokens: 5, outputTokens: 5 }
+    ], PRICES);
+    assert.deepEqual(totals, { calls: 2, inputTokens: 15, outputTokens: 25, costUsd: null });
+  });
+});